@@ -6,9 +6,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
 import Home from "@/pages/home.tsx";
 import CreateBook from "@/pages/create-book.tsx";
+import Library from "@/pages/library.tsx";
 import FlipbookPreview from "@/pages/flipbook-preview.tsx";
 import AuthPage from "@/pages/auth.tsx";
 import Admin from "@/pages/admin.tsx";
+import Billing from "@/pages/billing.tsx";
+import Credits from "@/pages/credits.tsx";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -31,9 +34,14 @@ function Router() {
       <Route path="/flipbook-preview" component={FlipbookPreview} />
       {isAuthenticated ? (
         <>
-          <Route path="/" component={CreateBook} />
+          <Route path="/" component={Library} />
           <Route path="/create-book" component={CreateBook} />
+          <Route path="/books/:bookId">
+            {(params) => <CreateBook key={params.bookId} />}
+          </Route>
           <Route path="/admin" component={Admin} />
+          <Route path="/billing" component={Billing} />
+          <Route path="/credits" component={Credits} />
         </>
       ) : (
         <>
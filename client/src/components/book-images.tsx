@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BookAsset } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Image, Upload, Trash2, RefreshCw } from "lucide-react";
+
+interface BookImagesProps {
+  bookId: string;
+  chapters: Array<{ id: string; title: string }>;
+  // Adds the image's Markdown to the end of a chapter
+  onInsert: (chapterId: string, markdown: string) => Promise<void>;
+}
+
+type BookImage = BookAsset & { url: string };
+
+const ACCEPTED_TYPES = "image/jpeg,image/png,image/gif,image/webp,image/svg+xml";
+
+// Brackets would end the alt text early in Markdown image syntax
+export function imageMarkdown(image: Pick<BookImage, "altText" | "url">): string {
+  return `![${image.altText.replace(/[[\]]/g, "")}](${image.url})`;
+}
+
+function AltTextField({ image, onSave }: { image: BookImage; onSave: (altText: string) => void }) {
+  const [value, setValue] = useState(image.altText);
+  useEffect(() => setValue(image.altText), [image.altText]);
+
+  return (
+    <Input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => {
+        if (!value.trim()) setValue(image.altText);
+        else if (value.trim() !== image.altText) onSave(value.trim());
+      }}
+      className="h-8 text-sm"
+      aria-label="Alt text"
+      data-testid={`input-alt-text-${image.id}`}
+    />
+  );
+}
+
+// Diagrams, screenshots and charts for the chapters. Every image needs alt text, which readers
+// using screen readers hear in its place and which is printed where an image cannot be shown.
+export default function BookImages({ bookId, chapters, onInsert }: BookImagesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [altText, setAltText] = useState("");
+
+  const { data: images = [] } = useQuery<BookImage[]>({
+    queryKey: ['/api/books', bookId, 'assets'],
+    staleTime: 0,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ file, altText }: { file: File; altText: string }) => {
+      const response = await apiUpload(`/api/books/${bookId}/assets`, file, { "X-Alt-Text": encodeURIComponent(altText) });
+      return response.json() as Promise<BookImage>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/books', bookId, 'assets'] });
+      setPendingFile(null);
+      setAltText("");
+      if (inputRef.current) inputRef.current.value = "";
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ imageId, altText }: { imageId: string; altText: string }) => {
+      await apiRequest('PATCH', `/api/books/${bookId}/assets/${imageId}`, { altText });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/books', bookId, 'assets'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save alt text", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (imageId: string) => {
+      await apiRequest('DELETE', `/api/books/${bookId}/assets/${imageId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/books', bookId, 'assets'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove image", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const insertImage = async (image: BookImage, chapterId: string) => {
+    try {
+      await onInsert(chapterId, imageMarkdown(image));
+      toast({ title: "Image added", description: `Added to the end of "${chapters.find(c => c.id === chapterId)?.title}".` });
+    } catch (error) {
+      toast({ title: "Failed to add image", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div data-testid="book-images">
+      <Label className="text-base font-medium flex items-center">
+        <Image className="w-4 h-4 mr-2" />
+        Images
+      </Label>
+      <p className="text-sm text-muted-foreground mt-1">
+        Upload diagrams, screenshots or charts and add them to a chapter. They are embedded in every export format; removed images are replaced by their alt text.
+      </p>
+
+      {images.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {images.map(image => (
+            <div key={image.id} className="flex items-center space-x-3 rounded-md border p-3" data-testid={`book-image-${image.id}`}>
+              <img src={image.url} alt={image.altText} className="w-16 h-16 object-contain rounded bg-muted flex-shrink-0" />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="text-xs text-muted-foreground truncate">
+                  {image.filename}{image.width && image.height ? ` · ${image.width}×${image.height}` : ""}
+                </div>
+                <AltTextField image={image} onSave={(altText) => updateMutation.mutate({ imageId: image.id, altText })} />
+              </div>
+              <Select value="" onValueChange={(chapterId) => insertImage(image, chapterId)}>
+                <SelectTrigger className="w-40 h-8 text-sm" data-testid={`select-insert-image-${image.id}`}>
+                  <SelectValue placeholder="Add to chapter" />
+                </SelectTrigger>
+                <SelectContent>
+                  {chapters.map((chapter, index) => (
+                    <SelectItem key={chapter.id} value={chapter.id}>
+                      {index + 1}. {chapter.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(image.id)}
+                disabled={deleteMutation.isPending}
+                className="text-destructive hover:text-destructive/80"
+                data-testid={`button-delete-image-${image.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        className="hidden"
+        onChange={(e) => setPendingFile(e.target.files?.[0] ?? null)}
+        data-testid="input-book-image"
+      />
+      {pendingFile ? (
+        <div className="mt-3 flex items-end space-x-2">
+          <div className="flex-1">
+            <Label htmlFor="new-image-alt-text" className="text-sm">
+              Alt text for {pendingFile.name}
+            </Label>
+            <Input
+              id="new-image-alt-text"
+              value={altText}
+              onChange={(e) => setAltText(e.target.value)}
+              placeholder="Describe what the image shows"
+              className="mt-1"
+              data-testid="input-new-image-alt-text"
+            />
+          </div>
+          <Button
+            onClick={() => uploadMutation.mutate({ file: pendingFile, altText: altText.trim() })}
+            disabled={!altText.trim() || uploadMutation.isPending}
+            data-testid="button-upload-image"
+          >
+            {uploadMutation.isPending ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Upload
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setPendingFile(null);
+              setAltText("");
+              if (inputRef.current) inputRef.current.value = "";
+            }}
+            disabled={uploadMutation.isPending}
+          >
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          className="mt-3"
+          onClick={() => inputRef.current?.click()}
+          data-testid="button-choose-image"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Add Image
+        </Button>
+      )}
+    </div>
+  );
+}
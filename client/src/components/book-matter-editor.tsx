@@ -0,0 +1,169 @@
+import { bookMatterSchema, type BookMatter } from "@shared/schema";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { BookOpen } from "lucide-react";
+
+interface BookMatterEditorProps {
+  value: BookMatter;
+  onChange: (value: BookMatter) => void;
+}
+
+// Copyright, dedication and the pages after the last chapter; anything left blank is not exported
+export default function BookMatterEditor({ value, onChange }: BookMatterEditorProps) {
+  const validation = bookMatterSchema.safeParse(value);
+  const errorFor = (path: string) => validation.success
+    ? undefined
+    : validation.error.errors.find(issue => issue.path.join(".") === path)?.message;
+
+  const setCopyright = (updates: Partial<BookMatter["copyright"]>) =>
+    onChange({ ...value, copyright: { ...value.copyright, ...updates } });
+  const setCallToAction = (updates: Partial<BookMatter["callToAction"]>) =>
+    onChange({ ...value, callToAction: { ...value.callToAction, ...updates } });
+
+  const isbnError = errorFor("copyright.isbn");
+  const linkError = errorFor("callToAction.linkUrl");
+
+  return (
+    <Card data-testid="book-matter-editor">
+      <CardHeader>
+        <h3 className="text-xl font-semibold flex items-center">
+          <BookOpen className="w-5 h-5 mr-2" />
+          Front & Back Matter
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Printed before the first chapter and after the last one in every format. Text fields accept Markdown; blank pages are left out.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <Label className="text-base font-medium">Copyright page</Label>
+          <div className="grid md:grid-cols-3 gap-4 mt-2">
+            <div>
+              <Label htmlFor="matter-isbn" className="text-sm">ISBN</Label>
+              <Input
+                id="matter-isbn"
+                value={value.copyright.isbn}
+                onChange={(e) => setCopyright({ isbn: e.target.value })}
+                placeholder="978-0-00-000000-0"
+                className="mt-1"
+                data-testid="input-matter-isbn"
+              />
+              {isbnError && <p className="text-xs text-destructive mt-1">{isbnError}</p>}
+            </div>
+            <div>
+              <Label htmlFor="matter-publisher" className="text-sm">Publisher</Label>
+              <Input
+                id="matter-publisher"
+                value={value.copyright.publisher}
+                onChange={(e) => setCopyright({ publisher: e.target.value })}
+                className="mt-1"
+                data-testid="input-matter-publisher"
+              />
+            </div>
+            <div>
+              <Label htmlFor="matter-year" className="text-sm">Copyright year</Label>
+              <Input
+                id="matter-year"
+                value={value.copyright.year}
+                onChange={(e) => setCopyright({ year: e.target.value })}
+                placeholder={String(new Date().getFullYear())}
+                className="mt-1"
+                data-testid="input-matter-year"
+              />
+            </div>
+          </div>
+          <Textarea
+            value={value.copyright.notice}
+            onChange={(e) => setCopyright({ notice: e.target.value })}
+            placeholder="Rights notice, disclaimer, edition and credits"
+            className="mt-3 min-h-[80px]"
+            data-testid="textarea-matter-notice"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="matter-dedication" className="text-base font-medium">Dedication</Label>
+          <Textarea
+            id="matter-dedication"
+            value={value.dedication}
+            onChange={(e) => onChange({ ...value, dedication: e.target.value })}
+            className="mt-2 min-h-[60px]"
+            data-testid="textarea-matter-dedication"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="matter-acknowledgements" className="text-base font-medium">Acknowledgements</Label>
+          <Textarea
+            id="matter-acknowledgements"
+            value={value.acknowledgements}
+            onChange={(e) => onChange({ ...value, acknowledgements: e.target.value })}
+            className="mt-2 min-h-[100px]"
+            data-testid="textarea-matter-acknowledgements"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="matter-about-author" className="text-base font-medium">About the Author</Label>
+          <Textarea
+            id="matter-about-author"
+            value={value.aboutAuthor}
+            onChange={(e) => onChange({ ...value, aboutAuthor: e.target.value })}
+            className="mt-2 min-h-[100px]"
+            data-testid="textarea-matter-about-author"
+          />
+        </div>
+
+        <div>
+          <Label className="text-base font-medium">Closing call to action</Label>
+          <div className="grid md:grid-cols-3 gap-4 mt-2">
+            <div>
+              <Label htmlFor="matter-cta-title" className="text-sm">Page title</Label>
+              <Input
+                id="matter-cta-title"
+                value={value.callToAction.title}
+                onChange={(e) => setCallToAction({ title: e.target.value })}
+                placeholder="Before You Go"
+                className="mt-1"
+                data-testid="input-matter-cta-title"
+              />
+            </div>
+            <div>
+              <Label htmlFor="matter-cta-url" className="text-sm">Link</Label>
+              <Input
+                id="matter-cta-url"
+                type="url"
+                value={value.callToAction.linkUrl}
+                onChange={(e) => setCallToAction({ linkUrl: e.target.value })}
+                placeholder="https://"
+                className="mt-1"
+                data-testid="input-matter-cta-url"
+              />
+              {linkError && <p className="text-xs text-destructive mt-1">{linkError}</p>}
+            </div>
+            <div>
+              <Label htmlFor="matter-cta-label" className="text-sm">Link text</Label>
+              <Input
+                id="matter-cta-label"
+                value={value.callToAction.linkLabel}
+                onChange={(e) => setCallToAction({ linkLabel: e.target.value })}
+                placeholder="Get the free workbook"
+                className="mt-1"
+                data-testid="input-matter-cta-label"
+              />
+            </div>
+          </div>
+          <Textarea
+            value={value.callToAction.content}
+            onChange={(e) => setCallToAction({ content: e.target.value })}
+            placeholder="What readers should do next"
+            className="mt-3 min-h-[80px]"
+            data-testid="textarea-matter-cta-content"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
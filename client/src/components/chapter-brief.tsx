@@ -0,0 +1,37 @@
+import type { ChapterBrief as Brief } from "@shared/schema";
+import { Target, ListChecks, ListOrdered } from "lucide-react";
+
+interface ChapterBriefProps {
+  chapterId: string;
+  brief: Brief;
+}
+
+// The plan produced with the outline; the chapter prompt is written against it
+export default function ChapterBrief({ chapterId, brief }: ChapterBriefProps) {
+  const lists = [
+    { label: "Objectives", icon: Target, items: brief.objectives },
+    { label: "Key points", icon: ListChecks, items: brief.keyPoints },
+    { label: "Sections", icon: ListOrdered, items: brief.sections },
+  ].filter(list => list.items.length > 0);
+
+  return (
+    <div className="rounded-md border border-dashed bg-muted/30 p-4 mb-4 text-sm" data-testid={`chapter-brief-${chapterId}`}>
+      <p className="text-muted-foreground">{brief.summary}</p>
+      {lists.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
+          {lists.map(({ label, icon: Icon, items }) => (
+            <div key={label}>
+              <div className="flex items-center space-x-1 font-medium mb-1">
+                <Icon className="w-3 h-3" />
+                <span>{label}</span>
+              </div>
+              <ul className="list-disc pl-4 text-muted-foreground space-y-0.5">
+                {items.map((item, index) => <li key={index}>{item}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
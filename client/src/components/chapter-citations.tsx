@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import type { SourcePassage } from "@shared/schema";
+import { Quote } from "lucide-react";
+
+interface ChapterCitationsProps {
+  bookId: string;
+  content: string;
+}
+
+const CITATION_PATTERN = /\[(S\d+\.\d+)\]/g;
+
+// Lists the supporting-document passages a chapter cites, in the order they are first cited
+export default function ChapterCitations({ bookId, content }: ChapterCitationsProps) {
+  const labels = Array.from(new Set(Array.from(content.matchAll(CITATION_PATTERN), match => match[1])));
+
+  const { data: passages = [] } = useQuery<SourcePassage[]>({
+    queryKey: [`/api/books/${bookId}/sources/passages?labels=${labels.join(",")}`],
+    enabled: labels.length > 0,
+  });
+
+  if (labels.length === 0 || passages.length === 0) return null;
+
+  const ordered = labels
+    .map(label => passages.find(passage => passage.label === label))
+    .filter((passage): passage is SourcePassage => !!passage);
+
+  return (
+    <div className="mt-4 rounded-md border bg-muted/30 p-4 text-sm" data-testid="chapter-citations">
+      <div className="flex items-center space-x-1 font-medium mb-2">
+        <Quote className="w-3 h-3" />
+        <span>Sources cited</span>
+      </div>
+      <ol className="space-y-2">
+        {ordered.map(passage => (
+          <li key={passage.id}>
+            <span className="font-mono text-xs mr-2">[{passage.label}]</span>
+            <span className="text-xs text-muted-foreground">
+              {passage.filename}{passage.location ? `, ${passage.location}` : ""}
+            </span>
+            <p className="text-xs text-muted-foreground mt-1 line-clamp-3">{passage.content}</p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
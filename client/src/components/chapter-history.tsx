@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Chapter, ChapterRevision, RevisionDiffLine } from "@shared/schema";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, RotateCcw, GitCompare } from "lucide-react";
+
+interface ChapterHistoryProps {
+  chapterId: string;
+  chapterTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (chapter: Chapter) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual edit",
+  ai: "AI generated",
+  import: "Imported",
+};
+
+function countWords(text: string): number {
+  if (!text || text.trim() === '') return 0;
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+export default function ChapterHistory({ chapterId, chapterTitle, open, onOpenChange, onRestored }: ChapterHistoryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string>("current");
+
+  const { data: revisions = [], isLoading } = useQuery<ChapterRevision[]>({
+    queryKey: ['/api/chapters', chapterId, 'revisions'],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const { data: diff, isFetching: isDiffing } = useQuery<{ from: string; to: string; lines: RevisionDiffLine[] }>({
+    queryKey: [`/api/chapters/${chapterId}/revisions/diff?from=${fromId}&to=${toId}`],
+    enabled: open && !!fromId,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const response = await apiRequest('POST', `/api/chapters/${chapterId}/revisions/${revisionId}/restore`);
+      return response.json() as Promise<Chapter>;
+    },
+    onSuccess: (chapter) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/chapters', chapterId, 'revisions'] });
+      setFromId(null);
+      onRestored(chapter);
+      toast({ title: "Revision restored" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore revision", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Revision history
+          </SheetTitle>
+          <SheetDescription>{chapterTitle}</SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground mt-6">Loading revisions...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground mt-6">
+            No revisions yet. A snapshot is saved every time this chapter is generated or edited.
+          </p>
+        ) : (
+          <div className="mt-6 space-y-2" data-testid="chapter-revisions">
+            {revisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className={`flex items-center justify-between rounded-md border p-3 ${fromId === revision.id ? 'border-purple-400 bg-purple-50' : 'border-border'}`}
+                data-testid={`revision-${revision.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={revision.source === "ai" ? "default" : "secondary"} className="text-xs">
+                      {SOURCE_LABELS[revision.source] || revision.source}
+                    </Badge>
+                    {index === 0 && <span className="text-xs text-muted-foreground">Latest</span>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })} · {countWords(revision.content)} words
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFromId(fromId === revision.id ? null : revision.id)}
+                    data-testid={`button-compare-revision-${revision.id}`}
+                  >
+                    <GitCompare className="w-4 h-4 mr-1" />
+                    Compare
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(revision.id)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-revision-${revision.id}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {fromId && (
+          <div className="mt-6" data-testid="revision-diff">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium">Changes</h4>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="w-56 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="current">Compared with current text</SelectItem>
+                  {revisions.filter(revision => revision.id !== fromId).map(revision => (
+                    <SelectItem key={revision.id} value={revision.id}>
+                      Compared with {SOURCE_LABELS[revision.source]?.toLowerCase() || revision.source}, {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isDiffing && !diff ? (
+              <p className="text-sm text-muted-foreground">Comparing...</p>
+            ) : diff && diff.lines.every(line => line.type === "unchanged") ? (
+              <p className="text-sm text-muted-foreground">No differences.</p>
+            ) : (
+              <div className="rounded-md border font-mono text-xs max-h-96 overflow-y-auto">
+                {diff?.lines.map((line, index) => (
+                  <div
+                    key={index}
+                    className={`px-2 py-0.5 whitespace-pre-wrap ${
+                      line.type === "added" ? "bg-green-50 text-green-800" :
+                      line.type === "removed" ? "bg-red-50 text-red-800 line-through" :
+                      "text-muted-foreground"
+                    }`}
+                  >
+                    {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}{line.text}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CreditPlan, CreditPlans } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Coins, Save, RefreshCw, RotateCcw } from "lucide-react";
+
+interface CreditPlansResponse {
+  plans: CreditPlans;
+  defaults: CreditPlans;
+}
+
+const PLAN_IDS: Array<keyof CreditPlans> = ["free", "lite", "pro", "agency"];
+
+const FIELDS: Array<{ id: Exclude<keyof CreditPlan, "name">; label: string }> = [
+  { id: "periodCredits", label: "Credits per period" },
+  { id: "bonusCredits", label: "Bonus credits" },
+  { id: "bonusEveryPeriods", label: "Bonus every N periods (0 = once)" },
+  { id: "maxRollover", label: "Max rollover" },
+];
+
+export default function CreditPlanSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CreditPlans | null>(null);
+
+  const { data, isLoading } = useQuery<CreditPlansResponse>({
+    queryKey: ["/api/admin/credit-plans"],
+  });
+
+  useEffect(() => {
+    if (data) setDraft(data.plans);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (plans: CreditPlans) => {
+      const response = await apiRequest("PUT", "/api/admin/credit-plans", plans);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/credit-plans"] });
+      toast({ title: "Credit Plans Saved", description: "The next credit reset for each user will use the updated plans." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save credit plans", variant: "destructive" });
+    },
+  });
+
+  const updateField = (planId: keyof CreditPlans, field: keyof CreditPlan, value: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      [planId]: { ...prev[planId], [field]: field === "name" ? value : Math.max(0, parseInt(value, 10) || 0) },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Coins className="w-5 h-5" />
+          <span>Credit Plans</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data || !draft ? (
+          <p className="text-sm text-muted-foreground">Loading credit plans...</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Credits are granted when a subscription's billing period starts, and monthly for users without a subscription.
+              Unused credits above the rollover limit expire at each reset.
+            </p>
+
+            {PLAN_IDS.map(planId => (
+              <div key={planId} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end" data-testid={`credit-plan-${planId}`}>
+                <div>
+                  <Label>Plan name</Label>
+                  <Input
+                    value={draft[planId].name}
+                    onChange={(e) => updateField(planId, "name", e.target.value)}
+                    className="mt-2"
+                  />
+                </div>
+                {FIELDS.map(field => (
+                  <div key={field.id}>
+                    <Label className="text-xs">{field.label}</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={draft[planId][field.id]}
+                      onChange={(e) => updateField(planId, field.id, e.target.value)}
+                      className="mt-2"
+                      data-testid={`input-${planId}-${field.id}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            <div className="flex space-x-2">
+              <Button onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending} data-testid="save-credit-plans">
+                {saveMutation.isPending ? (
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Plans
+              </Button>
+              <Button variant="outline" onClick={() => setDraft(data.defaults)} data-testid="reset-credit-plans">
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restore Defaults
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CREDIT_ACTIONS, type CreditAction, type CreditPlans, type CreditPricing } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tag, Save, RefreshCw, RotateCcw } from "lucide-react";
+
+interface CreditPricingResponse {
+  pricing: CreditPricing;
+  defaults: CreditPricing;
+}
+
+export const CREDIT_ACTION_LABELS: Record<CreditAction, string> = {
+  create_book: "Create book",
+  import_book: "Import manuscript",
+  generate_outline: "Generate outline",
+  generate_chapter: "Generate chapter",
+  generate_book: "Generate whole book",
+};
+
+const PLAN_IDS: Array<keyof CreditPlans> = ["free", "lite", "pro", "agency"];
+const PLAN_LABELS: Record<keyof CreditPlans, string> = { free: "Free", lite: "Lite", pro: "Pro", agency: "Agency" };
+
+function parseCost(value: string): number {
+  return Math.max(0, parseInt(value, 10) || 0);
+}
+
+export default function CreditPricingSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CreditPricing | null>(null);
+
+  const { data, isLoading } = useQuery<CreditPricingResponse>({
+    queryKey: ["/api/admin/credit-pricing"],
+  });
+
+  useEffect(() => {
+    if (data) setDraft(data.pricing);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (pricing: CreditPricing) => {
+      const response = await apiRequest("PUT", "/api/admin/credit-pricing", pricing);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/credit-pricing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credits/costs"] });
+      toast({ title: "Pricing Saved", description: "New operations will be charged the updated prices." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save pricing", variant: "destructive" });
+    },
+  });
+
+  const updateCost = (action: CreditAction, cost: string) => {
+    setDraft(prev => prev && { ...prev, [action]: { ...prev[action], cost: parseCost(cost) } });
+  };
+
+  // An empty field removes the plan's override, so the plan pays the default price
+  const updatePlanCost = (action: CreditAction, plan: keyof CreditPlans, cost: string) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const plans = { ...prev[action].plans };
+      if (cost.trim() === "") {
+        delete plans[plan];
+      } else {
+        plans[plan] = parseCost(cost);
+      }
+      return { ...prev, [action]: { ...prev[action], plans } };
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Tag className="w-5 h-5" />
+          <span>Credit Pricing</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data || !draft ? (
+          <p className="text-sm text-muted-foreground">Loading pricing...</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Credits each action costs. Leave a plan's field empty to charge the default price; admins are never charged.
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Default</TableHead>
+                  {PLAN_IDS.map(plan => (
+                    <TableHead key={plan}>{PLAN_LABELS[plan]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {CREDIT_ACTIONS.map(action => (
+                  <TableRow key={action} data-testid={`credit-price-${action}`}>
+                    <TableCell className="font-medium">{CREDIT_ACTION_LABELS[action]}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={draft[action].cost}
+                        onChange={(e) => updateCost(action, e.target.value)}
+                        className="w-20"
+                        data-testid={`input-price-${action}`}
+                      />
+                    </TableCell>
+                    {PLAN_IDS.map(plan => (
+                      <TableCell key={plan}>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={draft[action].plans[plan] ?? ""}
+                          placeholder={String(draft[action].cost)}
+                          onChange={(e) => updatePlanCost(action, plan, e.target.value)}
+                          className="w-20"
+                          data-testid={`input-price-${action}-${plan}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex space-x-2">
+              <Button onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending} data-testid="save-credit-pricing">
+                {saveMutation.isPending ? (
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Pricing
+              </Button>
+              <Button variant="outline" onClick={() => setDraft(data.defaults)} data-testid="reset-credit-pricing">
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restore Defaults
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
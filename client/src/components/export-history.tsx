@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { BookExport } from "@shared/schema";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, History } from "lucide-react";
+
+interface ExportHistoryProps {
+  bookId: string;
+}
+
+type ExportHistoryEntry = BookExport & { downloadUrl: string | null };
+
+// Download links are signed for a few minutes, so the list is refreshed well before they lapse
+const LINK_REFRESH_MS = 10 * 60 * 1000;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Earlier exports of a book, kept for re-download until the retention period removes them
+export default function ExportHistory({ bookId }: ExportHistoryProps) {
+  const { data: exports = [] } = useQuery<ExportHistoryEntry[]>({
+    queryKey: ['/api/books', bookId, 'exports'],
+    staleTime: 0,
+    refetchInterval: LINK_REFRESH_MS,
+  });
+
+  if (exports.length === 0) return null;
+
+  return (
+    <Card data-testid="export-history">
+      <CardHeader>
+        <h3 className="text-xl font-semibold flex items-center">
+          <History className="w-5 h-5 mr-2" />
+          Export History
+        </h3>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {exports.map(entry => (
+          <div key={entry.id} className="flex items-center justify-between rounded-md border p-3" data-testid={`export-${entry.id}`}>
+            <div className="flex items-center space-x-3 min-w-0">
+              <Badge variant="secondary">{entry.format.toUpperCase()}</Badge>
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">{entry.fileName}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })} · {formatSize(entry.size)}
+                </div>
+              </div>
+            </div>
+            {entry.downloadUrl ? (
+              <Button variant="outline" size="sm" asChild data-testid={`button-redownload-${entry.id}`}>
+                <a href={entry.downloadUrl} download={entry.fileName}>
+                  <Download className="w-4 h-4 mr-1" />
+                  Download
+                </a>
+              </Button>
+            ) : (
+              <span className="text-xs text-muted-foreground">Expired</span>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
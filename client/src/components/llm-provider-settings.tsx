@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { LlmProviderId, LlmProviderSettings as Settings, PromptTemplateName } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Cpu, Save, RefreshCw } from "lucide-react";
+
+interface ProviderInfo {
+  id: LlmProviderId;
+  defaultModel: string;
+  configured: boolean;
+}
+
+interface ProviderSettingsResponse {
+  providers: ProviderInfo[];
+  defaultProvider: LlmProviderId;
+  settings: Settings;
+}
+
+const PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  anthropic: "Anthropic Claude",
+  openai: "OpenAI-compatible",
+  mock: "Local mock (offline)",
+};
+
+const OPERATIONS: Array<{ id: PromptTemplateName; label: string }> = [
+  { id: "outline", label: "Outline" },
+  { id: "chapter", label: "Chapter" },
+  { id: "regeneration", label: "Regeneration" },
+  { id: "summary", label: "Chapter summaries" },
+];
+
+// "default" in the select means "no override": the server's LLM_PROVIDER fallback is used
+const DEFAULT_OPTION = "default";
+
+export default function LlmProviderSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Settings>({});
+
+  const { data, isLoading } = useQuery<ProviderSettingsResponse>({
+    queryKey: ["/api/admin/llm-providers"],
+  });
+
+  useEffect(() => {
+    if (data) setDraft(data.settings);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: Settings) => {
+      const response = await apiRequest("PUT", "/api/admin/llm-providers", settings);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/llm-providers"] });
+      toast({ title: "Providers Saved", description: "New generations will use the updated providers." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save providers", variant: "destructive" });
+    },
+  });
+
+  const updateOperation = (operation: PromptTemplateName, provider: string, model?: string) => {
+    setDraft(prev => {
+      const next = { ...prev };
+      if (provider === DEFAULT_OPTION) {
+        delete next[operation];
+      } else {
+        next[operation] = { provider: provider as LlmProviderId, model: model || undefined };
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Cpu className="w-5 h-5" />
+          <span>AI Providers</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data ? (
+          <p className="text-sm text-muted-foreground">Loading providers...</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {data.providers.map(provider => (
+                <Badge key={provider.id} variant={provider.configured ? "default" : "outline"}>
+                  {PROVIDER_LABELS[provider.id]}: {provider.configured ? "ready" : "not configured"}
+                </Badge>
+              ))}
+            </div>
+
+            {OPERATIONS.map(operation => {
+              const setting = draft[operation.id];
+              const providerId = setting?.provider || data.defaultProvider;
+              const defaultModel = data.providers.find(p => p.id === providerId)?.defaultModel;
+              return (
+                <div key={operation.id} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end" data-testid={`llm-provider-${operation.id}`}>
+                  <div>
+                    <Label>{operation.label}</Label>
+                    <Select
+                      value={setting?.provider || DEFAULT_OPTION}
+                      onValueChange={(value) => updateOperation(operation.id, value, setting?.model)}
+                    >
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_OPTION}>Default ({PROVIDER_LABELS[data.defaultProvider]})</SelectItem>
+                        {data.providers.map(provider => (
+                          <SelectItem key={provider.id} value={provider.id}>{PROVIDER_LABELS[provider.id]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label>Model</Label>
+                    <Input
+                      value={setting?.model || ""}
+                      placeholder={defaultModel}
+                      disabled={!setting}
+                      onChange={(e) => setting && updateOperation(operation.id, setting.provider, e.target.value)}
+                      className="mt-2"
+                    />
+                  </div>
+                </div>
+              );
+            })}
+
+            <Button onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending} data-testid="save-llm-providers">
+              {saveMutation.isPending ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Providers
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { BookOpen, User, Settings, LogOut, CreditCard, Shield, Menu, X } from "lucide-react";
+import { BookOpen, User, Settings, LogOut, CreditCard, History, Shield, Menu, X } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 
 export default function Navigation() {
@@ -13,7 +13,7 @@ export default function Navigation() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   const navItems = [
-    { href: "/", label: "Home", active: location === "/" },
+    { href: "/", label: isAuthenticated ? "My Books" : "Home", active: location === "/" },
     { href: "/create-book", label: "Create Book", active: location === "/create-book" },
   ];
 
@@ -117,6 +117,18 @@ export default function Navigation() {
                       <User className="mr-2 h-4 w-4" />
                       <span>Profile</span>
                     </DropdownMenuItem>
+                    <Link href="/billing">
+                      <DropdownMenuItem data-testid="user-menu-billing">
+                        <CreditCard className="mr-2 h-4 w-4" />
+                        <span>Billing</span>
+                      </DropdownMenuItem>
+                    </Link>
+                    <Link href="/credits">
+                      <DropdownMenuItem data-testid="user-menu-credits-history">
+                        <History className="mr-2 h-4 w-4" />
+                        <span>Credit History</span>
+                      </DropdownMenuItem>
+                    </Link>
                     {user.role === "admin" && (
                       <Link href="/admin">
                         <DropdownMenuItem data-testid="user-menu-admin">
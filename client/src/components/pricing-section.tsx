@@ -1,61 +1,83 @@
+import { useState } from "react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Check, Shield } from "lucide-react";
+import { Check, Shield, RefreshCw } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { startCheckout } from "@/lib/billing";
+
+export const PRICING_PLANS = [
+  {
+    id: "lite" as const,
+    name: "Lite",
+    description: "For getting started with e-books",
+    price: "$29.99",
+    period: "/month",
+    features: [
+      "36 AI Credits/year (+8 bonus)",
+      "AI e-book and cover generation",
+      "Basic template + 3 cover styles",
+      "Multiple export formats",
+      "Publishing to Amazon KDP"
+    ],
+    buttonText: "Easy Start",
+    buttonVariant: "secondary" as const,
+    popular: false
+  },
+  {
+    id: "pro" as const,
+    name: "Pro",
+    description: "For serious authors",
+    price: "$59.99",
+    period: "/month",
+    features: [
+      "48 AI Credits/year (+10 bonus)",
+      "6 Templates + 16 cover styles",
+      "Priority support",
+      "AI Book Funnel Growth Engine",
+      "Marketing campaign generation",
+      "Complete funnel analytics"
+    ],
+    buttonText: "Get Pro",
+    buttonVariant: "default" as const,
+    popular: true
+  },
+  {
+    id: "agency" as const,
+    name: "Agency",
+    description: "For businesses and agencies",
+    price: "$249.00",
+    period: "/month",
+    features: [
+      "240 AI Credits/year (+48 bonus)",
+      "Everything in Pro",
+      "Custom marketplace store",
+      "White-label options",
+      "Dedicated support",
+      "Connect to custom domain"
+    ],
+    buttonText: "Get Agency",
+    buttonVariant: "secondary" as const,
+    popular: false
+  }
+];
 
 export default function PricingSection() {
-  const plans = [
-    {
-      name: "Lite",
-      description: "For getting started with e-books",
-      price: "$29.99",
-      period: "/month",
-      features: [
-        "36 AI Credits/year (+8 bonus)",
-        "AI e-book and cover generation",
-        "Basic template + 3 cover styles",
-        "Multiple export formats",
-        "Publishing to Amazon KDP"
-      ],
-      buttonText: "Easy Start",
-      buttonVariant: "secondary" as const,
-      popular: false
-    },
-    {
-      name: "Pro",
-      description: "For serious authors",
-      price: "$59.99",
-      period: "/month",
-      features: [
-        "48 AI Credits/year (+10 bonus)",
-        "6 Templates + 16 cover styles",
-        "Priority support",
-        "AI Book Funnel Growth Engine",
-        "Marketing campaign generation",
-        "Complete funnel analytics"
-      ],
-      buttonText: "Get Pro",
-      buttonVariant: "default" as const,
-      popular: true
-    },
-    {
-      name: "Agency",
-      description: "For businesses and agencies",
-      price: "$249.00",
-      period: "/month",
-      features: [
-        "240 AI Credits/year (+48 bonus)",
-        "Everything in Pro",
-        "Custom marketplace store",
-        "White-label options",
-        "Dedicated support",
-        "Connect to custom domain"
-      ],
-      buttonText: "Get Agency",
-      buttonVariant: "secondary" as const,
-      popular: false
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [pendingPlan, setPendingPlan] = useState<string | null>(null);
+
+  const subscribe = async (plan: typeof PRICING_PLANS[number]["id"]) => {
+    setPendingPlan(plan);
+    try {
+      await startCheckout(plan);
+    } catch (error) {
+      toast({ title: "Checkout failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+      setPendingPlan(null);
     }
-  ];
+  };
 
   return (
     <section id="pricing" className="py-20" data-testid="pricing-section">
@@ -70,7 +92,7 @@ export default function PricingSection() {
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {plans.map((plan, index) => (
+          {PRICING_PLANS.map((plan) => (
             <div key={plan.name} className={plan.popular ? "gradient-border relative" : ""} data-testid={`plan-${plan.name.toLowerCase()}`}>
               {plan.popular && (
                 <div className="absolute -top-4 left-1/2 transform -translate-x-1/2">
@@ -101,13 +123,29 @@ export default function PricingSection() {
                       </li>
                     ))}
                   </ul>
-                  <Button 
-                    variant={plan.buttonVariant} 
-                    className={`w-full ${plan.popular ? 'bg-gradient-to-r from-primary to-pink-500 text-white hover:opacity-90' : ''}`}
-                    data-testid={`button-${plan.name.toLowerCase()}`}
-                  >
-                    {plan.buttonText}
-                  </Button>
+                  {isAuthenticated ? (
+                    <Button
+                      variant={plan.buttonVariant}
+                      className={`w-full ${plan.popular ? 'bg-gradient-to-r from-primary to-pink-500 text-white hover:opacity-90' : ''}`}
+                      onClick={() => subscribe(plan.id)}
+                      disabled={pendingPlan !== null}
+                      data-testid={`button-${plan.name.toLowerCase()}`}
+                    >
+                      {pendingPlan === plan.id && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+                      {plan.buttonText}
+                    </Button>
+                  ) : (
+                    // Checkout needs an account to attach the subscription to
+                    <Link href="/auth">
+                      <Button
+                        variant={plan.buttonVariant}
+                        className={`w-full ${plan.popular ? 'bg-gradient-to-r from-primary to-pink-500 text-white hover:opacity-90' : ''}`}
+                        data-testid={`button-${plan.name.toLowerCase()}`}
+                      >
+                        {plan.buttonText}
+                      </Button>
+                    </Link>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PromptTemplate, PromptTemplateName } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Eye, Save, RefreshCw, RotateCcw, CheckCircle, AlertTriangle, MessageSquare } from "lucide-react";
+
+interface PromptTemplateSummary {
+  name: PromptTemplateName;
+  placeholders: { allowed: string[]; required: string[] };
+  defaultBody: string;
+  active: PromptTemplate | null;
+  versions: PromptTemplate[];
+}
+
+interface PromptPreview {
+  errors: string[];
+  prompt: string;
+}
+
+const TEMPLATE_LABELS: Record<PromptTemplateName, { label: string; description: string }> = {
+  outline: { label: "Outline", description: "Plans the chapter list and a brief for each chapter. The reply format is enforced separately, so the prompt only needs to describe the plan." },
+  chapter: { label: "Chapter", description: "Writes a chapter that has no content yet, including Generate All Chapters." },
+  regeneration: { label: "Regeneration", description: "Writes a fresh draft when a chapter that already has content is regenerated." },
+  summary: { label: "Summary", description: "Condenses a written chapter into a short recap. Later chapters receive these recaps so they build on earlier ones instead of repeating them." },
+};
+
+export default function PromptTemplatesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<PromptTemplateName>("outline");
+  const [draft, setDraft] = useState("");
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+
+  const { data: templates, isLoading } = useQuery<PromptTemplateSummary[]>({
+    queryKey: ["/api/admin/prompt-templates"],
+  });
+
+  const template = templates?.find(t => t.name === selected);
+
+  // Start editing from whatever generation currently uses
+  useEffect(() => {
+    if (!template) return;
+    setDraft(template.active?.body ?? template.defaultBody);
+    setNotes("");
+    setPreview(null);
+  }, [selected, template?.active?.id, !!template]);
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/prompt-templates/${selected}/preview`, { body: draft });
+      return response.json() as Promise<PromptPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to preview template", variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/prompt-templates/${selected}`, { body: draft, notes });
+      return response.json() as Promise<PromptTemplate>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/prompt-templates"] });
+      toast({ title: "Template Saved", description: `Version ${saved.version} is now active.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save template", variant: "destructive" });
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      const response = await apiRequest("POST", `/api/admin/prompt-templates/${selected}/versions/${versionId}/activate`);
+      return response.json() as Promise<PromptTemplate>;
+    },
+    onSuccess: (activated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/prompt-templates"] });
+      toast({ title: "Version Activated", description: `Version ${activated.version} is now active.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to activate version", variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/prompt-templates/${selected}/reset`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/prompt-templates"] });
+      toast({ title: "Template Reset", description: "Generation now uses the built-in default." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to reset template", variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !template) {
+    return (
+      <Alert>
+        <RefreshCw className="h-4 w-4 animate-spin" />
+        <AlertDescription>Loading prompt templates...</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex space-x-2">
+        {(Object.keys(TEMPLATE_LABELS) as PromptTemplateName[]).map(name => (
+          <Button
+            key={name}
+            variant={selected === name ? "default" : "outline"}
+            onClick={() => setSelected(name)}
+            data-testid={`prompt-template-${name}`}
+          >
+            {TEMPLATE_LABELS[name].label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center space-x-2">
+                <MessageSquare className="w-5 h-5" />
+                <span>{TEMPLATE_LABELS[selected].label} Prompt</span>
+              </span>
+              <Badge variant={template.active ? "default" : "secondary"}>
+                {template.active ? `Version ${template.active.version} active` : "Built-in default"}
+              </Badge>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">{TEMPLATE_LABELS[selected].description}</p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-1">
+              {template.placeholders.allowed.map(key => (
+                <Badge
+                  key={key}
+                  variant="outline"
+                  className={template.placeholders.required.includes(key) ? "border-purple-400 text-purple-700" : ""}
+                >
+                  {`{{${key}}}`}
+                </Badge>
+              ))}
+            </div>
+            <Textarea
+              value={draft}
+              onChange={(e) => { setDraft(e.target.value); setPreview(null); }}
+              rows={18}
+              className="font-mono text-xs"
+              data-testid="prompt-template-body"
+            />
+            <div>
+              <Label htmlFor="prompt-template-notes">Version notes (optional)</Label>
+              <Input
+                id="prompt-template-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What changed in this version?"
+                className="mt-2"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending} data-testid="preview-prompt-template">
+                <Eye className="w-4 h-4 mr-2" />
+                Preview
+              </Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="save-prompt-template">
+                {saveMutation.isPending ? (
+                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save as New Version
+              </Button>
+              <Button variant="ghost" onClick={() => setDraft(template.defaultBody)}>
+                Load Default Text
+              </Button>
+              {template.active && (
+                <Button variant="ghost" onClick={() => resetMutation.mutate()} disabled={resetMutation.isPending}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Use Built-in Default
+                </Button>
+              )}
+            </div>
+
+            {preview && (
+              <div className="space-y-2" data-testid="prompt-template-preview">
+                {preview.errors.length > 0 ? (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      <ul className="list-disc pl-4">
+                        {preview.errors.map(error => <li key={error}>{error}</li>)}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert>
+                    <CheckCircle className="h-4 w-4" />
+                    <AlertDescription>Template is valid. Rendered against a sample book:</AlertDescription>
+                  </Alert>
+                )}
+                <pre className="whitespace-pre-wrap text-xs bg-muted p-4 rounded-md max-h-96 overflow-y-auto">{preview.prompt}</pre>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Versions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {template.versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No saved versions. Generation uses the built-in default.</p>
+            ) : (
+              <div className="space-y-2">
+                {template.versions.map(version => (
+                  <div key={version.id} className="flex items-start justify-between rounded-md border p-3" data-testid={`prompt-version-${version.version}`}>
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-sm">v{version.version}</span>
+                        {version.isActive && <Badge className="text-xs">Active</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                      </p>
+                      {version.notes && <p className="text-xs mt-1 truncate" title={version.notes}>{version.notes}</p>}
+                    </div>
+                    <div className="flex flex-col gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => { setDraft(version.body); setPreview(null); }}>
+                        Edit
+                      </Button>
+                      {!version.isActive && (
+                        <Button variant="ghost" size="sm" onClick={() => activateMutation.mutate(version.id)} disabled={activateMutation.isPending}>
+                          Activate
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SourceDocument } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { FileText, Upload, Trash2, RefreshCw } from "lucide-react";
+
+interface SupportingDocumentsProps {
+  bookId: string;
+}
+
+const ACCEPTED_TYPES = ".pdf,.docx,.md,.markdown,.txt";
+
+export default function SupportingDocuments({ bookId }: SupportingDocumentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { data: documents = [] } = useQuery<SourceDocument[]>({
+    queryKey: ['/api/books', bookId, 'sources'],
+    staleTime: 0,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await apiUpload(`/api/books/${bookId}/sources`, file);
+      return response.json() as Promise<SourceDocument>;
+    },
+    onSuccess: (document) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/books', bookId, 'sources'] });
+      toast({ title: "Document added", description: `${document.filename} will be used as source material.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      if (inputRef.current) inputRef.current.value = "";
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (documentId: string) => {
+      await apiRequest('DELETE', `/api/books/${bookId}/sources/${documentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/books', bookId, 'sources'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove document", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div data-testid="supporting-documents">
+      <Label className="text-base font-medium">Supporting Documents (optional)</Label>
+      <p className="text-sm text-muted-foreground mt-1">
+        Upload your notes, research or an existing draft (PDF, DOCX, Markdown or text). The outline and chapters will be based on it and cite the passages they use.
+      </p>
+
+      {documents.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {documents.map(document => (
+            <div key={document.id} className="flex items-center justify-between rounded-md border p-3" data-testid={`source-document-${document.id}`}>
+              <div className="flex items-center space-x-2 min-w-0">
+                <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-sm truncate">{document.filename}</span>
+                <Badge variant="outline" className="text-xs">S{document.sequence}</Badge>
+                <span className="text-xs text-muted-foreground">{document.chunkCount} passages</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(document.id)}
+                disabled={deleteMutation.isPending}
+                className="text-destructive hover:text-destructive/80"
+                data-testid={`button-delete-source-${document.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) uploadMutation.mutate(file);
+        }}
+        data-testid="input-supporting-document"
+      />
+      <Button
+        variant="outline"
+        className="mt-3"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploadMutation.isPending}
+        data-testid="button-upload-supporting-document"
+      >
+        {uploadMutation.isPending ? (
+          <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Upload className="w-4 h-4 mr-2" />
+        )}
+        {uploadMutation.isPending ? "Reading document..." : "Upload Document"}
+      </Button>
+    </div>
+  );
+}
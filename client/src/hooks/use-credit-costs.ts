@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CreditAction } from "@shared/schema";
+
+// What each credit-priced action costs the signed-in user on their plan; undefined while loading
+export function useCreditCosts(): Record<CreditAction, number> | undefined {
+  const { data } = useQuery<Record<CreditAction, number>>({
+    queryKey: ["/api/credits/costs"],
+    staleTime: 0,
+  });
+  return data;
+}
+
+export function formatCredits(amount: number): string {
+  if (amount === 0) return "free";
+  return `${amount} credit${amount === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,9 @@
+import type { SubscriptionPlan } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+// Sends the browser to the billing provider's checkout page; it returns to /billing afterwards
+export async function startCheckout(plan: SubscriptionPlan): Promise<void> {
+  const response = await apiRequest("POST", "/api/billing/checkout", { plan });
+  const { url } = await response.json() as { url: string };
+  window.location.href = url;
+}
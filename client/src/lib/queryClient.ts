@@ -35,6 +35,93 @@ export async function apiRequest(
   return res;
 }
 
+// Upload a file as the raw request body; the server reads the original name from X-Filename
+export async function apiUpload(url: string, file: File, extraHeaders: Record<string, string> = {}): Promise<Response> {
+  const token = localStorage.getItem("auth_token");
+  const headers: Record<string, string> = {
+    ...extraHeaders,
+    "Content-Type": file.type || "application/octet-stream",
+    "X-Filename": encodeURIComponent(file.name),
+  };
+
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers,
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// POST to a Server-Sent Events endpoint and hand each parsed event to onEvent, which knows the
+// shape of each event's data. EventSource can't send a body or the Authorization header, so the
+// stream is read through fetch.
+export async function apiStream(
+  url: string,
+  data: unknown,
+  onEvent: (event: string, payload: unknown) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const token = localStorage.getItem("auth_token");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "text/event-stream",
+  };
+
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).trimStart());
+        }
+      }
+      if (dataLines.length > 0) {
+        onEvent(event, JSON.parse(dataLines.join("\n")));
+      }
+    }
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
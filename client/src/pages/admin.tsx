@@ -3,11 +3,14 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import Navigation from "@/components/navigation";
+import PromptTemplatesManager from "@/components/prompt-templates-manager";
+import LlmProviderSettings from "@/components/llm-provider-settings";
+import CreditPlanSettings from "@/components/credit-plan-settings";
+import CreditPricingSettings from "@/components/credit-pricing-settings";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -22,15 +25,6 @@ const TableCell = ({ children, ...props }: any) => <td className="p-2" {...props
 import { useToast } from "@/hooks/use-toast";
 import { Shield, Settings, Users, MessageSquare, Save, RefreshCw, AlertTriangle, Plus, Trash2, Edit2, X } from "lucide-react";
 
-interface AdminConfig {
-  id: string;
-  configKey: string;
-  configValue: any;
-  description: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface User {
   id: string;
   username: string;
@@ -76,39 +70,12 @@ export default function AdminPanel() {
     );
   }
 
-  // Fetch admin configs
-  const { data: configs, isLoading: configsLoading } = useQuery({
-    queryKey: ["/api/admin/configs"],
-    enabled: isAuthenticated && user?.role === "admin",
-  });
-
   // Fetch users
   const { data: users, isLoading: usersLoading } = useQuery({
     queryKey: ["/api/admin/users"],
     enabled: isAuthenticated && user?.role === "admin",
   });
 
-  // Save config mutation
-  const saveConfigMutation = useMutation({
-    mutationFn: async (configData: { configKey: string; configValue: any; description: string }) => {
-      await apiRequest("POST", "/api/admin/configs", configData);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/configs"] });
-      toast({
-        title: "Configuration Saved",
-        description: "AI prompt configuration has been updated successfully.",
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to save configuration",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Create user mutation
   const createUserMutation = useMutation({
     mutationFn: async (userData: typeof newUser) => {
@@ -175,14 +142,6 @@ export default function AdminPanel() {
     },
   });
 
-  const handleSavePrompt = (configKey: string, prompt: string, description: string) => {
-    saveConfigMutation.mutate({
-      configKey,
-      configValue: { prompt },
-      description,
-    });
-  };
-
   const handleCreateUser = () => {
     if (!newUser.username || !newUser.email || !newUser.password) {
       toast({
@@ -226,11 +185,6 @@ export default function AdminPanel() {
     setEditingUser(null);
   };
 
-  const getConfigValue = (key: string) => {
-    const config = Array.isArray(configs) ? configs.find((c: AdminConfig) => c.configKey === key) : undefined;
-    return config?.configValue?.prompt || "";
-  };
-
   const tabs = [
     { id: "prompts", label: "AI Prompts", icon: MessageSquare },
     { id: "users", label: "User Management", icon: Users },
@@ -269,102 +223,7 @@ export default function AdminPanel() {
         </div>
 
         {/* AI Prompts Tab */}
-        {activeTab === "prompts" && (
-          <div className="space-y-6">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* ChatGPT Prompt */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center space-x-2">
-                    <MessageSquare className="w-5 h-5" />
-                    <span>ChatGPT Prompt</span>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div>
-                    <Label htmlFor="chatgpt-prompt">System Prompt</Label>
-                    <Textarea
-                      id="chatgpt-prompt"
-                      placeholder="Enter ChatGPT system prompt for chapter generation..."
-                      value={getConfigValue("chatgpt_prompt")}
-                      onChange={(e) => {
-                        // Handle real-time updates
-                      }}
-                      rows={8}
-                      className="mt-2"
-                      data-testid="chatgpt-prompt-input"
-                    />
-                  </div>
-                  <Button 
-                    onClick={() => handleSavePrompt(
-                      "chatgpt_prompt", 
-                      (document.getElementById("chatgpt-prompt") as HTMLTextAreaElement)?.value || "",
-                      "ChatGPT prompt configuration for chapter generation"
-                    )}
-                    disabled={saveConfigMutation.isPending}
-                    data-testid="save-chatgpt-prompt"
-                  >
-                    {saveConfigMutation.isPending ? (
-                      <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                    ) : (
-                      <Save className="w-4 h-4 mr-2" />
-                    )}
-                    Save ChatGPT Prompt
-                  </Button>
-                </CardContent>
-              </Card>
-
-              {/* Claude Prompt */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center space-x-2">
-                    <MessageSquare className="w-5 h-5" />
-                    <span>Claude Prompt</span>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div>
-                    <Label htmlFor="claude-prompt">System Prompt</Label>
-                    <Textarea
-                      id="claude-prompt"
-                      placeholder="Enter Claude system prompt for chapter generation..."
-                      value={getConfigValue("claude_prompt")}
-                      onChange={(e) => {
-                        // Handle real-time updates
-                      }}
-                      rows={8}
-                      className="mt-2"
-                      data-testid="claude-prompt-input"
-                    />
-                  </div>
-                  <Button 
-                    onClick={() => handleSavePrompt(
-                      "claude_prompt", 
-                      (document.getElementById("claude-prompt") as HTMLTextAreaElement)?.value || "",
-                      "Claude prompt configuration for chapter generation"
-                    )}
-                    disabled={saveConfigMutation.isPending}
-                    data-testid="save-claude-prompt"
-                  >
-                    {saveConfigMutation.isPending ? (
-                      <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                    ) : (
-                      <Save className="w-4 h-4 mr-2" />
-                    )}
-                    Save Claude Prompt
-                  </Button>
-                </CardContent>
-              </Card>
-            </div>
-
-            {configsLoading && (
-              <Alert>
-                <RefreshCw className="h-4 w-4 animate-spin" />
-                <AlertDescription>Loading configurations...</AlertDescription>
-              </Alert>
-            )}
-          </div>
-        )}
+        {activeTab === "prompts" && <PromptTemplatesManager />}
 
         {/* Users Tab */}
         {activeTab === "users" && (
@@ -661,6 +520,12 @@ export default function AdminPanel() {
         {/* Settings Tab */}
         {activeTab === "settings" && (
           <div className="space-y-6">
+            <LlmProviderSettings />
+
+            <CreditPlanSettings />
+
+            <CreditPricingSettings />
+
             <Card>
               <CardHeader>
                 <CardTitle>System Settings</CardTitle>
@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { startCheckout } from "@/lib/billing";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { CreditPlans, Invoice, Subscription, SubscriptionPlan } from "@shared/schema";
+import Navigation from "@/components/navigation";
+import { PRICING_PLANS } from "@/components/pricing-section";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { CreditCard, ExternalLink, Receipt, RefreshCw, AlertTriangle } from "lucide-react";
+
+interface BillingResponse {
+  subscription: Subscription | null;
+  invoices: Invoice[];
+  plans: CreditPlans;
+  configured: boolean;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  active: "bg-green-100 text-green-700",
+  past_due: "bg-amber-100 text-amber-700",
+  cancelled: "bg-gray-100 text-gray-700",
+  expired: "bg-gray-100 text-gray-700",
+  paid: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  active: "Active",
+  past_due: "Payment due",
+  cancelled: "Cancelled",
+  expired: "Expired",
+  paid: "Paid",
+  failed: "Failed",
+};
+
+function formatAmount(invoice: Invoice): string {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: invoice.currency.toUpperCase() }).format(invoice.amount / 100);
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? format(new Date(date), "MMM d, yyyy") : "—";
+}
+
+export default function Billing() {
+  const [location, setLocation] = useLocation();
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pendingPlan, setPendingPlan] = useState<SubscriptionPlan | null>(null);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+
+  const { data, isLoading } = useQuery<BillingResponse>({
+    queryKey: ["/api/billing"],
+    staleTime: 0,
+  });
+
+  // The checkout page sends the user back with the outcome in the query string
+  useEffect(() => {
+    const outcome = new URLSearchParams(window.location.search).get("checkout");
+    if (!outcome) return;
+    if (outcome === "success") {
+      toast({ title: "Subscription started", description: "Your plan's credits have been added to your account." });
+      refreshUser();
+    } else {
+      toast({ title: "Checkout cancelled", description: "You have not been charged." });
+    }
+    setLocation(location, { replace: true });
+  }, []);
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/billing/cancel");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing"] });
+      toast({ title: "Subscription cancelled", description: "You keep your plan until the end of the current period." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel subscription", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => setConfirmCancel(false),
+  });
+
+  const subscribe = async (plan: SubscriptionPlan) => {
+    setPendingPlan(plan);
+    try {
+      await startCheckout(plan);
+    } catch (error) {
+      toast({ title: "Checkout failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+      setPendingPlan(null);
+    }
+  };
+
+  const subscription = data?.subscription;
+  const isCurrent = subscription?.status === "active" || subscription?.status === "past_due";
+  const currentPlan = data && (isCurrent ? data.plans[subscription!.plan as SubscriptionPlan] : data.plans.free);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Billing</h1>
+          <p className="text-gray-600 mt-1">Your plan, credits and invoices.</p>
+        </div>
+
+        {isLoading || !data ? (
+          <div className="text-center py-16">
+            <div className="w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading billing details...</p>
+          </div>
+        ) : (
+          <>
+            <Card data-testid="card-current-plan">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <CreditCard className="w-5 h-5" />
+                  <span>Current Plan</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-2xl font-semibold" data-testid="text-plan-name">{currentPlan?.name}</span>
+                      {isCurrent && (
+                        <Badge className={STATUS_STYLES[subscription!.status]} data-testid="badge-subscription-status">
+                          {STATUS_LABELS[subscription!.status] ?? subscription!.status}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {currentPlan?.periodCredits} credits {isCurrent ? "each billing period" : "each month"}
+                      {currentPlan && currentPlan.maxRollover > 0 ? `, up to ${currentPlan.maxRollover} unused credits roll over` : ""}
+                      {" · "}{user?.credits ?? 0} credits available now
+                    </p>
+                    {isCurrent && (
+                      <p className="text-sm text-muted-foreground mt-1" data-testid="text-period-end">
+                        {subscription!.cancelAtPeriodEnd ? "Ends" : "Renews"} on {formatDate(subscription!.currentPeriodEnd)}
+                      </p>
+                    )}
+                  </div>
+                  {isCurrent && !subscription!.cancelAtPeriodEnd && (
+                    <Button variant="outline" onClick={() => setConfirmCancel(true)} data-testid="button-cancel-subscription">
+                      Cancel Subscription
+                    </Button>
+                  )}
+                </div>
+
+                {subscription?.status === "past_due" && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      Your last payment failed. New credits are paused until it goes through; open the failed invoice below to pay it.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            {!isCurrent && (
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Choose a Plan</h2>
+                {!data.configured && (
+                  <Alert className="mb-4">
+                    <AlertDescription>Subscriptions are not available on this server yet.</AlertDescription>
+                  </Alert>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {PRICING_PLANS.map(plan => (
+                    <Card key={plan.id} data-testid={`card-plan-${plan.id}`}>
+                      <CardContent className="pt-6 space-y-3">
+                        <div className="text-lg font-semibold">{data.plans[plan.id].name}</div>
+                        <div className="text-2xl font-bold">
+                          {plan.price}
+                          <span className="text-sm font-normal text-muted-foreground">{plan.period}</span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {data.plans[plan.id].periodCredits} credits per month
+                          {data.plans[plan.id].bonusCredits > 0 ? ` + ${data.plans[plan.id].bonusCredits} bonus` : ""}
+                        </p>
+                        <Button
+                          className="w-full bg-purple-600 hover:bg-purple-700"
+                          onClick={() => subscribe(plan.id)}
+                          disabled={!data.configured || pendingPlan !== null}
+                          data-testid={`button-subscribe-${plan.id}`}
+                        >
+                          {pendingPlan === plan.id && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+                          Subscribe
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Card data-testid="card-invoices">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Receipt className="w-5 h-5" />
+                  <span>Invoices</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {data.invoices.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No invoices yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Period</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.invoices.map(invoice => (
+                        <TableRow key={invoice.id} data-testid={`row-invoice-${invoice.id}`}>
+                          <TableCell>{formatDate(invoice.createdAt)}</TableCell>
+                          <TableCell>{formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}</TableCell>
+                          <TableCell>{formatAmount(invoice)}</TableCell>
+                          <TableCell>
+                            <Badge className={STATUS_STYLES[invoice.status]}>{STATUS_LABELS[invoice.status] ?? invoice.status}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {invoice.hostedUrl && (
+                              <a href={invoice.hostedUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-sm text-purple-600 hover:underline">
+                                View <ExternalLink className="w-3 h-3 ml-1" />
+                              </a>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={confirmCancel} onOpenChange={setConfirmCancel}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel your subscription?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your plan stays active until {formatDate(subscription?.currentPeriodEnd ?? null)}. After that you move to the free plan and no further credits are granted by the subscription.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Plan</AlertDialogCancel>
+            <AlertDialogAction onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+              Cancel Subscription
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
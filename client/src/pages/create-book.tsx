@@ -1,9 +1,18 @@
-import { useState } from "react";
-import { Link } from "wouter";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest } from "@/lib/queryClient";
+import { formatCredits, useCreditCosts } from "@/hooks/use-credit-costs";
+import { apiRequest, apiStream, apiUpload } from "@/lib/queryClient";
+import { bookMatterSchema, exportOptionsSchema, type BookMatter, type Book as BookRecord, type BookProgress, type Chapter as ChapterRecord, type ChapterBrief as ChapterBriefData, type ExportIssue, type ExportOptions, type GenerationJob } from "@shared/schema";
 import Navigation from "@/components/navigation";
+import ChapterHistory from "@/components/chapter-history";
+import ChapterBrief from "@/components/chapter-brief";
+import ChapterCitations from "@/components/chapter-citations";
+import SupportingDocuments from "@/components/supporting-documents";
+import BookImages from "@/components/book-images";
+import BookMatterEditor from "@/components/book-matter-editor";
+import ExportHistory from "@/components/export-history";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -12,8 +21,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Book, ArrowLeft, Sparkles, PenTool, Upload, FileText, ChevronRight, Edit, Bold, Italic, Underline, Link2, List, AlignLeft, GripVertical, RefreshCw, Trash2, CheckCircle, ChevronUp, ChevronDown, Check, Star, Palette, Briefcase, GraduationCap, Image, Replace, Download, Eye, BookOpen, Code, Smartphone, Zap, FileCheck, Settings, Type, Paintbrush } from "lucide-react";
+import { Book, ArrowLeft, Sparkles, PenTool, Upload, FileText, ChevronRight, Edit, Bold, Italic, Underline, Link2, List, AlignLeft, GripVertical, RefreshCw, Trash2, CheckCircle, ChevronUp, ChevronDown, Check, Star, Palette, Briefcase, GraduationCap, Image, Replace, Download, Eye, BookOpen, Code, Smartphone, Zap, FileCheck, Settings, Type, Paintbrush, Square, History, AlertTriangle } from "lucide-react";
 
 // Step definitions
 const STEPS = [
@@ -27,7 +37,19 @@ const STEPS = [
   { id: 8, name: "Marketing", key: "marketing" }
 ];
 
-type CreationMethod = "ai" | "manual" | null;
+type CreationMethod = "ai" | "manual" | "import" | null;
+
+const MANUSCRIPT_TYPES = ".docx,.md,.markdown,.html,.htm,.epub";
+
+const BUNDLE_STEP_LABELS: Record<string, string> = {
+  pdf: "PDF",
+  epub: "EPUB",
+  docx: "DOCX",
+  markdown: "Markdown",
+  html: "HTML",
+  flipbook: "flipbook",
+  cover: "cover image",
+};
 
 interface Chapter {
   id: string;
@@ -36,6 +58,7 @@ interface Chapter {
   isExpanded: boolean;
   wordCount?: number;
   isGenerating?: boolean;
+  brief?: ChapterBriefData;
 }
 
 interface CustomTheme {
@@ -48,6 +71,19 @@ interface CustomTheme {
   accentColor: string;
 }
 
+// Events the Export All stream sends
+interface BundleProgress {
+  step: string | null;
+  completed: number;
+  total: number;
+}
+
+interface BundleResult {
+  downloadUrl: string;
+  fileName: string;
+  issues?: ExportIssue[];
+}
+
 interface BookFormData {
   method: CreationMethod;
   author: string;
@@ -60,24 +96,33 @@ interface BookFormData {
   language: string;
   htmlDescription: string;
   keywords: string[];
-  supportingContent: File | null;
   numberOfChapters: number;
   chapters: Chapter[];
   selectedTemplate: string;
   customTheme?: CustomTheme;
   coverImage: File | null;
   coverImageUrl: string | null;
+  bookMatter: BookMatter;
 }
 
 export default function CreateBook() {
   const { user, refreshUser } = useAuth();
+  const creditCosts = useCreditCosts();
   const [currentStep, setCurrentStep] = useState(1);
   const [isGeneratingChapters, setIsGeneratingChapters] = useState(false);
   const [generatingChapterId, setGeneratingChapterId] = useState<string | null>(null);
-  const [isGeneratingAll, setIsGeneratingAll] = useState(false);
+  const [generationJobId, setGenerationJobId] = useState<string | null>(null);
   const [currentBookId, setCurrentBookId] = useState<string | null>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(() => exportOptionsSchema.parse({}));
+  const [exportIssues, setExportIssues] = useState<{ format: string; issues: ExportIssue[] } | null>(null);
+  const [bundleProgress, setBundleProgress] = useState<BundleProgress | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [showThemeCustomizer, setShowThemeCustomizer] = useState(false);
+  const [historyChapterId, setHistoryChapterId] = useState<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const manuscriptInputRef = useRef<HTMLInputElement>(null);
+  const [, setLocation] = useLocation();
+  const streamSnapshotRef = useRef<{ content: string; wordCount?: number } | null>(null);
   const queryClient = useQueryClient();
   const [formData, setFormData] = useState<BookFormData>({
     method: null,
@@ -91,17 +136,61 @@ export default function CreateBook() {
     language: "English (EN)",
     htmlDescription: "",
     keywords: [],
-    supportingContent: null,
     numberOfChapters: 5,
     chapters: [],
     selectedTemplate: "original",
     customTheme: undefined,
     coverImage: null,
-    coverImageUrl: null
+    coverImageUrl: null,
+    bookMatter: bookMatterSchema.parse({})
   });
 
   const progressPercentage = (currentStep / STEPS.length) * 100;
 
+  // Opening a book from the library (/books/:bookId) resumes it at its saved step
+  const { bookId: routeBookId } = useParams<{ bookId?: string }>();
+  const hydratedBookIdRef = useRef<string | null>(null);
+  const { data: savedBook, isLoading: isLoadingSavedBook } = useQuery<BookRecord & { chapters: ChapterRecord[]; progress: BookProgress[] }>({
+    queryKey: ['/api/books', routeBookId],
+    enabled: !!routeBookId,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (!savedBook || hydratedBookIdRef.current === savedBook.id) return;
+    hydratedBookIdRef.current = savedBook.id;
+
+    setCurrentBookId(savedBook.id);
+    setFormData(prev => ({
+      ...prev,
+      method: savedBook.creationMethod === "manual" ? "manual" : savedBook.creationMethod === "imported" ? "import" : "ai",
+      author: savedBook.author ?? prev.author,
+      title: savedBook.title ?? "",
+      subtitle: savedBook.subtitle ?? "",
+      description: savedBook.description ?? "",
+      targetAudience: savedBook.targetAudience ?? "",
+      toneStyle: savedBook.toneStyle ?? "",
+      mission: savedBook.mission ?? "",
+      language: savedBook.language ?? prev.language,
+      htmlDescription: savedBook.htmlDescription ?? "",
+      keywords: savedBook.keywords ?? [],
+      numberOfChapters: savedBook.chapters.length || prev.numberOfChapters,
+      chapters: savedBook.chapters.map(chapter => ({
+        id: chapter.id,
+        title: chapter.title,
+        content: chapter.content,
+        isExpanded: chapter.isExpanded,
+        wordCount: calculateWordCount(chapter.content),
+        brief: chapter.brief ?? undefined,
+      })),
+      selectedTemplate: savedBook.selectedTemplate ?? prev.selectedTemplate,
+      customTheme: savedBook.customTheme ?? undefined,
+      coverImageUrl: savedBook.coverImageUrl,
+      bookMatter: bookMatterSchema.safeParse(savedBook.bookMatter ?? {}).data ?? prev.bookMatter,
+    }));
+    setCurrentStep(Math.min(Math.max(savedBook.currentStep, 1), STEPS.length));
+  }, [savedBook]);
+
   // Book creation and persistence mutations
   const createBookMutation = useMutation({
     mutationFn: async (bookData: any) => {
@@ -113,6 +202,25 @@ export default function CreateBook() {
     }
   });
 
+  // An imported manuscript becomes a new book; opening it hydrates the page from what was saved
+  const importManuscriptMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await apiUpload('/api/books/import', file);
+      return response.json() as Promise<BookRecord>;
+    },
+    onSuccess: (book) => {
+      refreshUser();
+      queryClient.invalidateQueries({ queryKey: ['/api/books'] });
+      setLocation(`/books/${book.id}`);
+    },
+    onError: (error: Error) => {
+      alert(`Import failed: ${error.message}`);
+    },
+    onSettled: () => {
+      if (manuscriptInputRef.current) manuscriptInputRef.current.value = "";
+    },
+  });
+
   const updateBookMutation = useMutation({
     mutationFn: async ({ bookId, updates }: { bookId: string, updates: any }) => {
       const response = await apiRequest('PUT', `/api/books/${bookId}`, updates);
@@ -134,8 +242,18 @@ export default function CreateBook() {
 
   const generateChaptersMutation = useMutation({
     mutationFn: async (bookDetails: any) => {
-      const response = await apiRequest('POST', '/api/chapters/generate', bookDetails);
-      return response.json();
+      try {
+        const response = await apiRequest('POST', '/api/chapters/generate', bookDetails);
+        return response.json();
+      } catch (error) {
+        // The saved book already has written chapters; the outline only replaces them once the author agrees
+        if (error instanceof Error && error.message.startsWith('409:') &&
+            window.confirm("This book already has written chapters. Replace them with a new outline? Their text stays in each chapter's history.")) {
+          const response = await apiRequest('POST', '/api/chapters/generate', { ...bookDetails, replaceWrittenChapters: true });
+          return response.json();
+        }
+        throw error;
+      }
     },
     onSuccess: (data) => {
       setFormData(prev => ({ ...prev, chapters: data.chapters }));
@@ -149,19 +267,55 @@ export default function CreateBook() {
 
   const regenerateChapterMutation = useMutation({
     mutationFn: async ({ chapterId, chapterTitle, bookDetails }: { chapterId: string, chapterTitle: string, bookDetails: any }) => {
-      // Mark chapter as generating
+      // Mark chapter as generating and remember what it held, so a cancel can put it back
+      const previous = formData.chapters.find(c => c.id === chapterId);
+      streamSnapshotRef.current = previous ? { content: previous.content, wordCount: previous.wordCount } : null;
       setGeneratingChapterId(chapterId);
       setFormData(prev => ({
         ...prev,
         chapters: prev.chapters.map(c => 
           c.id === chapterId 
-            ? { ...c, isGenerating: true }
+            ? { ...c, content: "", wordCount: 0, isExpanded: true, isGenerating: true }
             : c
         )
       }));
 
-      const response = await apiRequest('POST', '/api/chapters/regenerate', { chapterTitle, bookDetails });
-      return response.json();
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+
+      let content = "";
+      let streamError: string | null = null;
+      let savedChapterId: string | undefined;
+      const chapterNumber = formData.chapters.findIndex(c => c.id === chapterId) + 1;
+      await apiStream('/api/chapters/regenerate/stream', {
+        chapterTitle,
+        bookDetails,
+        bookId: currentBookId,
+        chapterId,
+        chapterNumber,
+        brief: previous?.brief
+      }, (event, payload) => {
+        if (event === 'delta') {
+          content += (payload as { text: string }).text;
+          setFormData(prev => ({
+            ...prev,
+            chapters: prev.chapters.map(c =>
+              c.id === chapterId ? { ...c, content } : c
+            )
+          }));
+        } else if (event === 'done') {
+          const done = payload as { content: string; chapterId?: string };
+          content = done.content;
+          savedChapterId = done.chapterId;
+        } else if (event === 'error') {
+          streamError = (payload as { error: string }).error;
+        }
+      }, abortController.signal);
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      return { content, chapterId: savedChapterId };
     },
     onSuccess: (data, variables) => {
       const wordCount = calculateWordCount(data.content);
@@ -171,6 +325,7 @@ export default function CreateBook() {
           chapter.id === variables.chapterId
             ? { 
                 ...chapter, 
+                id: data.chapterId || chapter.id,
                 content: data.content,
                 wordCount,
                 isGenerating: false 
@@ -179,31 +334,43 @@ export default function CreateBook() {
         )
       }));
       setGeneratingChapterId(null);
+      streamAbortRef.current = null;
+      refreshUser();
     },
     onError: (error, variables) => {
-      console.error('Failed to regenerate chapter:', error);
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        console.log('Chapter regeneration cancelled');
+      } else {
+        console.error('Failed to regenerate chapter:', error);
+      }
+      // Partial output is discarded; the chapter goes back to what it held before
+      const snapshot = streamSnapshotRef.current;
       setFormData(prev => ({
         ...prev,
         chapters: prev.chapters.map(c => 
           c.id === variables.chapterId 
-            ? { ...c, isGenerating: false }
+            ? { ...c, content: snapshot?.content ?? "", wordCount: snapshot?.wordCount, isGenerating: false }
             : c
         )
       }));
       setGeneratingChapterId(null);
+      streamAbortRef.current = null;
     }
   });
 
+  const cancelChapterGeneration = () => {
+    streamAbortRef.current?.abort();
+  };
+
   // Helper function to calculate word count
   const calculateWordCount = (text: string): number => {
     if (!text || text.trim() === '') return 0;
     return text.trim().split(/\s+/).filter(word => word.length > 0).length;
   };
 
-  // Generate all chapters sequentially
-  const generateAllChaptersMutation = useMutation({
+  // Generate all chapters through a server-side job, so the run survives closing the tab
+  const startGenerationJobMutation = useMutation({
     mutationFn: async () => {
-      setIsGeneratingAll(true);
       const bookDetails = {
         title: formData.title,
         subtitle: formData.subtitle,
@@ -214,83 +381,74 @@ export default function CreateBook() {
         author: formData.author,
         numberOfChapters: formData.numberOfChapters
       };
-
-      const results = [];
-      for (let i = 0; i < formData.chapters.length; i++) {
-        const chapter = formData.chapters[i];
-        if (!chapter.content || chapter.content.trim() === '') {
-          setGeneratingChapterId(chapter.id);
-          
-          // Mark chapter as generating
-          setFormData(prev => ({
-            ...prev,
-            chapters: prev.chapters.map(c => 
-              c.id === chapter.id 
-                ? { ...c, isGenerating: true }
-                : c
-            )
-          }));
-
-          try {
-            const response = await apiRequest('POST', '/api/chapters/regenerate', { 
-              chapterTitle: chapter.title, 
-              bookDetails 
-            });
-            const data = await response.json();
-            const wordCount = calculateWordCount(data.content);
-            
-            // Update chapter with content and word count
-            setFormData(prev => ({
-              ...prev,
-              chapters: prev.chapters.map(c => 
-                c.id === chapter.id 
-                  ? { 
-                      ...c, 
-                      content: data.content, 
-                      wordCount,
-                      isGenerating: false 
-                    }
-                  : c
-              )
-            }));
-            
-            results.push({ chapterId: chapter.id, success: true, wordCount });
-            
-            // Small delay between chapters for better UX
-            if (i < formData.chapters.length - 1) {
-              await new Promise(resolve => setTimeout(resolve, 500));
-            }
-            
-          } catch (error) {
-            console.error(`Failed to generate chapter ${chapter.title}:`, error);
-            setFormData(prev => ({
-              ...prev,
-              chapters: prev.chapters.map(c => 
-                c.id === chapter.id 
-                  ? { ...c, isGenerating: false }
-                  : c
-              )
-            }));
-            results.push({ chapterId: chapter.id, success: false, error: error instanceof Error ? error.message : 'Unknown error' });
-          }
-        }
-      }
-      
-      setGeneratingChapterId(null);
-      setIsGeneratingAll(false);
-      return results;
+      const pendingChapters = formData.chapters
+        .filter(chapter => !chapter.content || chapter.content.trim() === '')
+        .map(chapter => ({
+          id: chapter.id,
+          title: chapter.title,
+          chapterNumber: formData.chapters.indexOf(chapter) + 1,
+          brief: chapter.brief
+        }));
+
+      const response = await apiRequest('POST', '/api/jobs/generate-chapters', {
+        bookId: currentBookId,
+        bookDetails,
+        chapters: pendingChapters
+      });
+      return response.json() as Promise<GenerationJob>;
+    },
+    onSuccess: (job) => {
+      setGenerationJobId(job.id);
     },
     onError: (error) => {
-      console.error('Failed to generate all chapters:', error);
-      setGeneratingChapterId(null);
-      setIsGeneratingAll(false);
-      setFormData(prev => ({
-        ...prev,
-        chapters: prev.chapters.map(c => ({ ...c, isGenerating: false }))
-      }));
+      console.error('Failed to start chapter generation job:', error);
+    }
+  });
+
+  const cancelGenerationJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest('POST', `/api/jobs/${jobId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', generationJobId] });
     }
   });
 
+  const { data: generationJob } = useQuery<GenerationJob>({
+    queryKey: ['/api/jobs', generationJobId],
+    enabled: !!generationJobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return !status || status === 'queued' || status === 'running' ? 2000 : false;
+    },
+  });
+
+  const isGeneratingAll = startGenerationJobMutation.isPending ||
+    (!!generationJob && (generationJob.status === 'queued' || generationJob.status === 'running'));
+
+  // Merge job progress into the chapter list as the server reports it
+  useEffect(() => {
+    if (!generationJob) return;
+
+    setFormData(prev => ({
+      ...prev,
+      chapters: prev.chapters.map(chapter => {
+        const item = generationJob.items.find(i => i.chapterId === chapter.id);
+        if (!item) return chapter;
+        if (item.status === 'completed' && item.content !== undefined) {
+          return { ...chapter, content: item.content, wordCount: item.wordCount, isGenerating: false };
+        }
+        const stillRunning = generationJob.status === 'queued' || generationJob.status === 'running';
+        return { ...chapter, isGenerating: stillRunning && item.status === 'running' };
+      })
+    }));
+
+    if (generationJob.status !== 'queued' && generationJob.status !== 'running') {
+      refreshUser();
+    }
+  }, [generationJob]);
+
   // Auto-save function
   const saveCurrentStep = async () => {
     if (!currentBookId) return;
@@ -328,6 +486,9 @@ export default function CreateBook() {
         case 'cover':
           stepData = { coverImageUrl: formData.coverImageUrl };
           break;
+        case 'export':
+          stepData = { bookMatter: formData.bookMatter };
+          break;
       }
       
       await saveProgressMutation.mutateAsync({
@@ -368,7 +529,8 @@ export default function CreateBook() {
         toneStyle: formData.toneStyle,
         mission: formData.mission,
         author: formData.author,
-        numberOfChapters: formData.numberOfChapters
+        numberOfChapters: formData.numberOfChapters,
+        bookId: currentBookId
       };
       generateChaptersMutation.mutate(bookDetails);
     }
@@ -406,11 +568,6 @@ export default function CreateBook() {
     handleNext();
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0] || null;
-    setFormData(prev => ({ ...prev, supportingContent: file }));
-  };
-
   const handleKeywordAdd = (keyword: string) => {
     if (keyword.trim() && !formData.keywords.includes(keyword.trim())) {
       setFormData(prev => ({ 
@@ -455,12 +612,30 @@ export default function CreateBook() {
   };
 
   const deleteChapter = (chapterId: string) => {
+    if (currentBookId) {
+      apiRequest('DELETE', `/api/chapters/${chapterId}`).catch(error => {
+        console.error('Failed to delete chapter:', error);
+      });
+    }
     setFormData(prev => ({
       ...prev,
       chapters: prev.chapters.filter(chapter => chapter.id !== chapterId)
     }));
   };
 
+  const appendToChapter = async (chapterId: string, markdown: string) => {
+    const chapter = formData.chapters.find(c => c.id === chapterId);
+    if (!chapter) return;
+    const content = chapter.content.trim() ? `${chapter.content.trimEnd()}\n\n${markdown}` : markdown;
+    await apiRequest('PUT', `/api/chapters/${chapterId}`, { content });
+    setFormData(prev => ({
+      ...prev,
+      chapters: prev.chapters.map(c =>
+        c.id === chapterId ? { ...c, content, wordCount: calculateWordCount(content) } : c
+      )
+    }));
+  };
+
   const handleTemplateSelect = (templateId: string) => {
     setFormData(prev => ({ ...prev, selectedTemplate: templateId }));
   };
@@ -491,36 +666,88 @@ export default function CreateBook() {
   };
 
   // Export mutations
+  const prepareExport = async () => {
+    setExportIssues(null);
+    // Keep the saved book's front and back matter in step with what is exported
+    if (currentBookId) {
+      await updateBookMutation.mutateAsync({ bookId: currentBookId, updates: { bookMatter: formData.bookMatter } });
+    }
+    return {
+      title: formData.title,
+      subtitle: formData.subtitle,
+      author: formData.author,
+      description: formData.description,
+      chapters: formData.chapters,
+      selectedTemplate: formData.selectedTemplate,
+      coverImageUrl: formData.coverImageUrl,
+      language: formData.language,
+      bookMatter: formData.bookMatter,
+      bookId: currentBookId,
+      options: exportOptions
+    };
+  };
+
+  const handleExportReady = (data: { format: string; downloadUrl: string; fileName: string; issues?: ExportIssue[] }) => {
+    if (data.issues?.length) {
+      setExportIssues({ format: data.format, issues: data.issues });
+    }
+    if (currentBookId) {
+      queryClient.invalidateQueries({ queryKey: ['/api/books', currentBookId, 'exports'] });
+    }
+
+    // Trigger download directly without popup
+    const link = document.createElement('a');
+    link.href = data.downloadUrl;
+    link.download = data.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
   const exportMutation = useMutation({
     mutationFn: async ({ format }: { format: string }) => {
-      const exportData = {
-        title: formData.title,
-        subtitle: formData.subtitle,
-        author: formData.author,
-        description: formData.description,
-        chapters: formData.chapters,
-        selectedTemplate: formData.selectedTemplate,
-        coverImageUrl: formData.coverImageUrl,
-        language: formData.language
-      };
-
+      const exportData = await prepareExport();
       const response = await apiRequest('POST', `/api/export/${format}`, exportData);
       return response.json();
     },
-    onSuccess: (data) => {
-      // Trigger download directly without popup
-      const link = document.createElement('a');
-      link.href = data.downloadUrl;
-      link.download = data.fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+    onSuccess: handleExportReady,
+    onError: (error) => {
+      alert(`Export failed: ${error.message}`);
+    }
+  });
+
+  // Every format plus the cover in one ZIP, with progress streamed from the server
+  const exportBundleMutation = useMutation({
+    mutationFn: async () => {
+      const exportData = await prepareExport();
+      setBundleProgress({ step: null, completed: 0, total: 1 });
+      let result: BundleResult | null = null;
+      let streamError: string | null = null;
+      await apiStream('/api/export/bundle/stream', exportData, (event, payload) => {
+        if (event === 'progress') {
+          setBundleProgress(payload as BundleProgress);
+        } else if (event === 'done') {
+          result = payload as BundleResult;
+        } else if (event === 'error') {
+          streamError = (payload as { error: string }).error;
+        }
+      });
+      if (streamError || !result) {
+        throw new Error(streamError || 'The export ended before the bundle was ready');
+      }
+      return { ...(result as BundleResult), format: 'ZIP' };
     },
+    onSuccess: handleExportReady,
     onError: (error) => {
       alert(`Export failed: ${error.message}`);
+    },
+    onSettled: () => {
+      setBundleProgress(null);
     }
   });
 
+  const isExporting = exportMutation.isPending || exportBundleMutation.isPending;
+
   const handleExport = (format: string) => {
     exportMutation.mutate({ format });
   };
@@ -663,6 +890,18 @@ export default function CreateBook() {
 
   const templateStyle = getTemplateStyle();
 
+  if (routeBookId && isLoadingSavedBook) {
+    return (
+      <div className="min-h-screen bg-background" data-testid="create-book-page">
+        <Navigation />
+        <div className="text-center py-16">
+          <div className="w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading your book...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background" data-testid="create-book-page">
       <Navigation />
@@ -728,9 +967,14 @@ export default function CreateBook() {
               <p className="text-xl text-muted-foreground">
                 Select how you'd like to create your e-book
               </p>
+              {creditCosts && (
+                <p className="text-sm text-muted-foreground mt-2" data-testid="text-create-book-cost">
+                  Starting a book costs {formatCredits(creditCosts.create_book)}; importing a manuscript costs {formatCredits(creditCosts.import_book)}.
+                </p>
+              )}
             </div>
 
-            <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
+            <div className="grid md:grid-cols-3 gap-8 max-w-6xl mx-auto">
               <Card
                 className={`cursor-pointer transition-all hover:shadow-lg border-2 ${
                   formData.method === "ai" ? "border-primary bg-primary/5" : "border-border"
@@ -794,6 +1038,54 @@ export default function CreateBook() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card
+                className={`transition-all border-2 ${
+                  formData.method === "import" ? "border-primary bg-primary/5" : "border-border"
+                } ${importManuscriptMutation.isPending ? "opacity-70" : "cursor-pointer hover:shadow-lg"}`}
+                onClick={() => !importManuscriptMutation.isPending && manuscriptInputRef.current?.click()}
+                data-testid="method-import"
+              >
+                <CardContent className="p-8 text-center">
+                  <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                    {importManuscriptMutation.isPending
+                      ? <RefreshCw className="w-8 h-8 text-blue-600 animate-spin" />
+                      : <Upload className="w-8 h-8 text-blue-600" />}
+                  </div>
+                  <h3 className="text-xl font-semibold mb-4">Import Manuscript</h3>
+                  <p className="text-muted-foreground mb-6">
+                    {importManuscriptMutation.isPending
+                      ? "Reading your manuscript and splitting it into chapters..."
+                      : "Start from a draft you already have. Chapters are split on its headings and its title, author and description are kept."}
+                  </p>
+                  <div className="space-y-2 text-sm text-left">
+                    <div className="flex items-center space-x-2">
+                      <div className="w-1 h-1 bg-blue-600 rounded-full"></div>
+                      <span>Word, Markdown, HTML or EPUB</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <div className="w-1 h-1 bg-blue-600 rounded-full"></div>
+                      <span>Chapters in their original order</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <div className="w-1 h-1 bg-blue-600 rounded-full"></div>
+                      <span>Edit, restyle and export as usual</span>
+                    </div>
+                  </div>
+                  <input
+                    ref={manuscriptInputRef}
+                    type="file"
+                    accept={MANUSCRIPT_TYPES}
+                    className="hidden"
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importManuscriptMutation.mutate(file);
+                    }}
+                    data-testid="input-import-manuscript"
+                  />
+                </CardContent>
+              </Card>
             </div>
           </div>
         )}
@@ -935,6 +1227,8 @@ export default function CreateBook() {
                     </div>
                   </div>
 
+                  {currentBookId && <SupportingDocuments bookId={currentBookId} />}
+
                   {/* Next Step Button */}
                   <div className="pt-6">
                     <Button 
@@ -943,7 +1237,9 @@ export default function CreateBook() {
                       disabled={!formData.title || !formData.description}
                       data-testid="button-next-step"
                     >
-                      Next Step
+                      {formData.chapters.length === 0 && creditCosts
+                        ? `Generate Outline (${formatCredits(creditCosts.generate_outline)})`
+                        : "Next Step"}
                     </Button>
                   </div>
                 </div>
@@ -982,26 +1278,50 @@ export default function CreateBook() {
                 {/* Generate All Chapters Button */}
                 <div className="flex items-center justify-between mb-6">
                   <h2 className="text-2xl font-semibold">Chapter Generation</h2>
-                  <Button
-                    onClick={() => generateAllChaptersMutation.mutate()}
-                    disabled={isGeneratingAll || generateAllChaptersMutation.isPending}
-                    className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white shadow-lg"
-                    data-testid="button-generate-all-chapters"
-                  >
-                    {isGeneratingAll ? (
-                      <>
-                        <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                        Generating All...
-                      </>
-                    ) : (
-                      <>
-                        <Zap className="w-4 h-4 mr-2" />
-                        Generate All Chapters
-                      </>
+                  <div className="flex items-center space-x-2">
+                    {isGeneratingAll && generationJob && (
+                      <Button
+                        variant="outline"
+                        onClick={() => cancelGenerationJobMutation.mutate(generationJob.id)}
+                        disabled={cancelGenerationJobMutation.isPending}
+                        data-testid="button-cancel-generate-all"
+                      >
+                        <Square className="w-4 h-4 mr-2" />
+                        Stop
+                      </Button>
                     )}
-                  </Button>
+                    <Button
+                      onClick={() => startGenerationJobMutation.mutate()}
+                      disabled={isGeneratingAll || regenerateChapterMutation.isPending}
+                      className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white shadow-lg"
+                      data-testid="button-generate-all-chapters"
+                    >
+                      {isGeneratingAll ? (
+                        <>
+                          <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                          {generationJob
+                            ? `Generating ${generationJob.items.filter(i => i.status === 'completed').length}/${generationJob.items.length}...`
+                            : 'Generating All...'}
+                        </>
+                      ) : (
+                        <>
+                          <Zap className="w-4 h-4 mr-2" />
+                          Generate All Chapters
+                          {creditCosts && ` (${formatCredits(creditCosts.generate_book)})`}
+                        </>
+                      )}
+                    </Button>
+                  </div>
                 </div>
 
+                {generationJob?.status === 'failed' && (
+                  <Alert variant="destructive" data-testid="alert-generation-job-failed">
+                    <AlertDescription>
+                      {generationJob.error || 'Some chapters failed to generate.'} Click "Generate All Chapters" to retry the missing ones.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {/* Chapters List */}
                 <div className="space-y-4" data-testid="chapters-list">
                   {formData.chapters.map((chapter, index) => (
@@ -1062,20 +1382,46 @@ export default function CreateBook() {
                             )}
                           </Button>
                           
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => regenerateChapter(chapter.id)}
-                            className="text-primary hover:text-primary/80"
-                            disabled={chapter.isGenerating || generatingChapterId === chapter.id || isGeneratingAll}
-                            data-testid={`button-regenerate-${chapter.id}`}
-                          >
-                            <RefreshCw className={`h-4 w-4 ${
-                              chapter.isGenerating || generatingChapterId === chapter.id 
-                                ? 'animate-spin text-blue-600' 
-                                : ''
-                            }`} />
-                          </Button>
+                          {regenerateChapterMutation.isPending && generatingChapterId === chapter.id ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={cancelChapterGeneration}
+                              className="text-destructive hover:text-destructive/80"
+                              data-testid={`button-cancel-generation-${chapter.id}`}
+                            >
+                              <Square className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => regenerateChapter(chapter.id)}
+                              className="text-primary hover:text-primary/80"
+                              disabled={chapter.isGenerating || generatingChapterId === chapter.id || isGeneratingAll}
+                              title={creditCosts ? `Regenerate (${formatCredits(creditCosts.generate_chapter)})` : "Regenerate"}
+                              data-testid={`button-regenerate-${chapter.id}`}
+                            >
+                              <RefreshCw className={`h-4 w-4 ${
+                                chapter.isGenerating || generatingChapterId === chapter.id 
+                                  ? 'animate-spin text-blue-600' 
+                                  : ''
+                              }`} />
+                            </Button>
+                          )}
+                          
+                          {currentBookId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setHistoryChapterId(chapter.id)}
+                              className="text-primary hover:text-primary/80"
+                              disabled={chapter.isGenerating || generatingChapterId === chapter.id}
+                              data-testid={`button-history-${chapter.id}`}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
                           
                           <Button
                             variant="ghost"
@@ -1091,6 +1437,7 @@ export default function CreateBook() {
 
                       {chapter.isExpanded && (
                         <CardContent className="p-6">
+                          {chapter.brief && <ChapterBrief chapterId={chapter.id} brief={chapter.brief} />}
                           <div 
                             className="prose prose-sm max-w-none" 
                             data-testid={`chapter-content-${chapter.id}`}
@@ -1106,6 +1453,12 @@ export default function CreateBook() {
                             }}
                           >
                             {chapter.content.split('\n\n').map((paragraph, paragraphIndex) => {
+                              const image = paragraph.trim().match(/^!\[(.*)\]\((\S+)\)$/);
+                              if (image) {
+                                return (
+                                  <img key={paragraphIndex} src={image[2]} alt={image[1]} className="max-w-full h-auto mx-auto my-4" />
+                                );
+                              }
                               if (paragraph.trim().startsWith('The ') && paragraph.trim().includes('Changes')) {
                                 return (
                                   <h4 key={paragraphIndex} className="font-bold text-xl mt-6 mb-3" style={{ color: templateStyle.textColor }}>
@@ -1131,12 +1484,40 @@ export default function CreateBook() {
                               Template: {templates.find(t => t.id === formData.selectedTemplate)?.name || "Original Design"}
                             </div>
                           </div>
+                          {currentBookId && !chapter.isGenerating && (
+                            <ChapterCitations bookId={currentBookId} content={chapter.content} />
+                          )}
                         </CardContent>
                       )}
                     </Card>
                   ))}
                 </div>
 
+                {currentBookId && (
+                  <Card>
+                    <CardContent className="p-6">
+                      <BookImages bookId={currentBookId} chapters={formData.chapters} onInsert={appendToChapter} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {historyChapterId && (
+                  <ChapterHistory
+                    chapterId={historyChapterId}
+                    chapterTitle={formData.chapters.find(c => c.id === historyChapterId)?.title || ""}
+                    open={!!historyChapterId}
+                    onOpenChange={(open) => { if (!open) setHistoryChapterId(null); }}
+                    onRestored={(restored) => setFormData(prev => ({
+                      ...prev,
+                      chapters: prev.chapters.map(c =>
+                        c.id === restored.id
+                          ? { ...c, title: restored.title, content: restored.content, wordCount: calculateWordCount(restored.content) }
+                          : c
+                      )
+                    }))}
+                  />
+                )}
+
                 {/* Navigation */}
                 <div className="flex justify-between items-center pt-8 border-t border-border" data-testid="chapters-navigation">
                   <Button 
@@ -1694,6 +2075,121 @@ export default function CreateBook() {
             </div>
 
 
+            {/* Front and back matter */}
+            <BookMatterEditor
+              value={formData.bookMatter}
+              onChange={(bookMatter) => setFormData(prev => ({ ...prev, bookMatter }))}
+            />
+
+            {/* Export Options */}
+            <Card>
+              <CardHeader>
+                <h3 className="text-xl font-semibold flex items-center">
+                  <Settings className="w-5 h-5 mr-2" />
+                  Export Options
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Applied to every format you export below
+                </p>
+              </CardHeader>
+              <CardContent className="grid md:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Front matter</Label>
+                  {([
+                    ["includeCover", "Include cover page"],
+                    ["includeTableOfContents", "Include table of contents"],
+                    ["includePageNumbers", "Include page numbers (PDF and DOCX)"],
+                    ["embedFonts", "Embed fonts (PDF, EPUB and DOCX)"],
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`export-${key}`}
+                        checked={exportOptions[key]}
+                        onCheckedChange={(checked) => setExportOptions(prev => ({ ...prev, [key]: checked === true }))}
+                        data-testid={`checkbox-export-${key}`}
+                      />
+                      <Label htmlFor={`export-${key}`} className="text-sm font-normal">{label}</Label>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="export-chapter-numbering" className="text-sm font-medium">Chapter numbering</Label>
+                    <Select value={exportOptions.chapterNumbering} onValueChange={(value) => setExportOptions(prev => ({ ...prev, chapterNumbering: value as ExportOptions["chapterNumbering"] }))}>
+                      <SelectTrigger id="export-chapter-numbering" className="mt-1" data-testid="select-export-chapter-numbering">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="numeric">Chapter 1</SelectItem>
+                        <SelectItem value="words">Chapter One</SelectItem>
+                        <SelectItem value="roman">Chapter I</SelectItem>
+                        <SelectItem value="none">Title only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="export-image-quality" className="text-sm font-medium">Image quality</Label>
+                    <Select value={exportOptions.imageQuality} onValueChange={(value) => setExportOptions(prev => ({ ...prev, imageQuality: value as ExportOptions["imageQuality"] }))}>
+                      <SelectTrigger id="export-image-quality" className="mt-1" data-testid="select-export-image-quality">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="original">Original (largest files)</SelectItem>
+                        <SelectItem value="high">High (print)</SelectItem>
+                        <SelectItem value="medium">Medium (e-readers)</SelectItem>
+                        <SelectItem value="low">Low (smallest files)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Export All */}
+            <Card className="border-primary/30" data-testid="card-export-all">
+              <CardContent className="p-6">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="flex items-start space-x-3">
+                    <Download className="w-8 h-8 text-primary flex-shrink-0" />
+                    <div>
+                      <h3 className="font-semibold">Export All Formats</h3>
+                      <p className="text-sm text-muted-foreground">
+                        PDF, EPUB, DOCX, Markdown, HTML, the flipbook and the full-resolution cover in one ZIP, with a manifest listing every file.
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    className="bg-primary hover:bg-primary/90 md:w-48"
+                    onClick={() => exportBundleMutation.mutate()}
+                    disabled={isExporting}
+                    data-testid="button-export-all"
+                  >
+                    {exportBundleMutation.isPending ? (
+                      <>
+                        <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                        Exporting...
+                      </>
+                    ) : (
+                      <>
+                        <Download className="w-4 h-4 mr-2" />
+                        Export All (ZIP)
+                      </>
+                    )}
+                  </Button>
+                </div>
+                {bundleProgress && (
+                  <div className="mt-4 space-y-1" data-testid="export-all-progress">
+                    <Progress value={(bundleProgress.completed / bundleProgress.total) * 100} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      {bundleProgress.step
+                        ? `Exporting ${BUNDLE_STEP_LABELS[bundleProgress.step] ?? bundleProgress.step} (${bundleProgress.completed + 1} of ${bundleProgress.total})`
+                        : bundleProgress.completed > 0 ? 'Packaging ZIP...' : 'Starting...'}
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Manuscript Export */}
             <div>
               <h3 className="text-xl font-semibold mb-6">Manuscript Export</h3>
@@ -1709,7 +2205,7 @@ export default function CreateBook() {
                     <Button 
                       className="w-full bg-primary hover:bg-primary/90"
                       onClick={() => handleExport('docx')}
-                      disabled={exportMutation.isPending}
+                      disabled={isExporting}
                       data-testid="button-export-docx"
                     >
                       {exportMutation.isPending && exportMutation.variables?.format === 'docx' ? (
@@ -1735,10 +2231,35 @@ export default function CreateBook() {
                     <p className="text-sm text-muted-foreground text-center mb-4">
                       Perfect for print-ready documents and digital distribution. Maintains exact formatting across all devices and platforms.
                     </p>
+                    <div className="space-y-3 mb-4">
+                      <div>
+                        <Label htmlFor="pdf-trim-size" className="text-sm">Page size</Label>
+                        <Select value={exportOptions.pageSize} onValueChange={(value) => setExportOptions(prev => ({ ...prev, pageSize: value as ExportOptions["pageSize"] }))}>
+                          <SelectTrigger id="pdf-trim-size" className="mt-1" data-testid="select-pdf-trim-size">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="a4">A4 (screen and home printing)</SelectItem>
+                            <SelectItem value="6x9">6 x 9 in paperback</SelectItem>
+                            <SelectItem value="5.5x8.5">5.5 x 8.5 in paperback</SelectItem>
+                            <SelectItem value="5x8">5 x 8 in paperback</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="pdf-bleed"
+                          checked={exportOptions.bleed}
+                          onCheckedChange={(checked) => setExportOptions(prev => ({ ...prev, bleed: checked === true }))}
+                          data-testid="checkbox-pdf-bleed"
+                        />
+                        <Label htmlFor="pdf-bleed" className="text-sm font-normal">Add 0.125 in bleed</Label>
+                      </div>
+                    </div>
                     <Button 
                       className="w-full bg-primary hover:bg-primary/90"
                       onClick={() => handleExport('pdf')}
-                      disabled={exportMutation.isPending}
+                      disabled={isExporting}
                       data-testid="button-export-pdf"
                     >
                       {exportMutation.isPending && exportMutation.variables?.format === 'pdf' ? (
@@ -1767,7 +2288,7 @@ export default function CreateBook() {
                     <Button 
                       className="w-full bg-primary hover:bg-primary/90"
                       onClick={() => handleExport('epub')}
-                      disabled={exportMutation.isPending}
+                      disabled={isExporting}
                       data-testid="button-export-epub"
                     >
                       {exportMutation.isPending && exportMutation.variables?.format === 'epub' ? (
@@ -1798,7 +2319,7 @@ export default function CreateBook() {
                         variant="outline" 
                         className="w-full text-xs"
                         onClick={() => handleExport('markdown')}
-                        disabled={exportMutation.isPending}
+                        disabled={isExporting}
                         data-testid="button-export-markdown"
                       >
                         <Download className="w-3 h-3 mr-1" />
@@ -1808,7 +2329,7 @@ export default function CreateBook() {
                         variant="outline" 
                         className="w-full text-xs"
                         onClick={() => handleExport('html')}
-                        disabled={exportMutation.isPending}
+                        disabled={isExporting}
                         data-testid="button-export-html"
                       >
                         <Download className="w-3 h-3 mr-1" />
@@ -1830,6 +2351,7 @@ export default function CreateBook() {
                     <h4 className="font-semibold mb-2">Interactive Flipbook Preview</h4>
                     <p className="text-sm text-muted-foreground mb-4">
                       Preview your book in an interactive flipbook format. See how readers will experience your content with realistic page-turning effects.
+                      Download it as a ZIP of static files, with page turning, a contents panel and search, to host on any website.
                     </p>
                     <Button 
                       className="bg-purple-600 hover:bg-purple-700 text-white"
@@ -1872,6 +2394,20 @@ export default function CreateBook() {
                       <BookOpen className="w-4 h-4 mr-2" />
                       Open Flipbook Preview
                     </Button>
+                    <Button
+                      variant="outline"
+                      className="ml-2"
+                      onClick={() => handleExport('flipbook')}
+                      disabled={isExporting}
+                      data-testid="button-export-flipbook"
+                    >
+                      {exportMutation.isPending && exportMutation.variables?.format === 'flipbook' ? (
+                        <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Download className="w-4 h-4 mr-2" />
+                      )}
+                      Download Flipbook (ZIP)
+                    </Button>
                   </div>
                 </CardContent>
               </Card>
@@ -1896,6 +2432,28 @@ export default function CreateBook() {
               </Card>
             )}
 
+            {exportIssues && (
+              <Card className="bg-yellow-50 border-yellow-200" data-testid="export-issues">
+                <CardContent className="p-6">
+                  <div className="flex items-start space-x-3">
+                    <AlertTriangle className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+                    <div>
+                      <h3 className="font-semibold text-yellow-800">
+                        {exportIssues.format} exported with {exportIssues.issues.length} warning{exportIssues.issues.length === 1 ? "" : "s"}
+                      </h3>
+                      <ul className="text-sm text-yellow-700 mt-2 space-y-1">
+                        {exportIssues.issues.map((issue, index) => (
+                          <li key={index}>{issue.path ? `${issue.path}: ` : ""}{issue.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {currentBookId && <ExportHistory bookId={currentBookId} />}
+
             {/* Cover Export */}
             <div>
               <h3 className="text-xl font-semibold mb-6">Cover Export</h3>
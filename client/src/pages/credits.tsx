@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BookSummary, CreditAction, CreditHistoryEntry, CreditLedgerKind } from "@shared/schema";
+import Navigation from "@/components/navigation";
+import { CREDIT_ACTION_LABELS } from "@/components/credit-pricing-settings";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Download, History, RefreshCw } from "lucide-react";
+
+interface CreditHistoryResponse {
+  entries: CreditHistoryEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  balance: number;
+  actions: string[];
+}
+
+const PAGE_SIZE = 25;
+const ALL = "all";
+
+// Ledger actions that are not priced operations, including names written before pricing existed
+const OTHER_ACTION_LABELS: Record<string, string> = {
+  signup: "Sign-up credits",
+  admin_adjustment: "Adjustment by support",
+  plan_allowance: "Plan credits",
+  plan_bonus: "Plan bonus",
+  period_reset: "Expired at period end",
+  monthly_allowance: "Monthly credits",
+  monthly_reset: "Expired at month end",
+  generate_chapters: "Generate chapters",
+  regenerate_chapter: "Regenerate chapter",
+};
+
+const KIND_STYLES: Record<CreditLedgerKind, string> = {
+  grant: "bg-green-100 text-green-700",
+  spend: "bg-purple-100 text-purple-700",
+  refund: "bg-blue-100 text-blue-700",
+  expiry: "bg-gray-100 text-gray-700",
+  adjustment: "bg-amber-100 text-amber-700",
+};
+
+function actionLabel(action: string): string {
+  return CREDIT_ACTION_LABELS[action as CreditAction] ?? OTHER_ACTION_LABELS[action] ?? action;
+}
+
+function historyQuery(filters: { action: string; bookId: string }, page?: number): string {
+  const params = new URLSearchParams();
+  if (page !== undefined) {
+    params.set("page", String(page));
+    params.set("pageSize", String(PAGE_SIZE));
+  }
+  if (filters.action !== ALL) params.set("action", filters.action);
+  if (filters.bookId !== ALL) params.set("bookId", filters.bookId);
+  return params.toString();
+}
+
+export default function Credits() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState({ action: ALL, bookId: ALL });
+  const [page, setPage] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data, isLoading } = useQuery<CreditHistoryResponse>({
+    queryKey: [`/api/me/credits?${historyQuery(filters, page)}`],
+    staleTime: 0,
+    placeholderData: previous => previous,
+  });
+
+  const { data: books } = useQuery<BookSummary[]>({
+    queryKey: ["/api/books"],
+  });
+
+  const updateFilter = (key: "action" | "bookId", value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  // The export needs the auth header, so it is fetched here and handed to the browser as a file
+  const downloadStatement = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("GET", `/api/me/credits/export?${historyQuery(filters)}`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `credit-statement-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Export failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Credit History</h1>
+            <p className="text-gray-600 mt-1">
+              Where your credits came from and what they were spent on.
+              {data && <> You have <span className="font-semibold" data-testid="text-credit-balance">{data.balance}</span> credits now.</>}
+            </p>
+          </div>
+          <Button variant="outline" onClick={downloadStatement} disabled={isExporting || !data?.total} data-testid="button-export-credits">
+            {isExporting ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Download CSV
+          </Button>
+        </div>
+
+        <Card data-testid="card-credit-history">
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <CardTitle className="flex items-center space-x-2">
+                <History className="w-5 h-5" />
+                <span>Activity</span>
+              </CardTitle>
+              <div className="flex flex-wrap gap-2">
+                <Select value={filters.action} onValueChange={(value) => updateFilter("action", value)}>
+                  <SelectTrigger className="w-48" data-testid="select-credit-action">
+                    <SelectValue placeholder="All activity" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All activity</SelectItem>
+                    {data?.actions.map(action => (
+                      <SelectItem key={action} value={action}>{actionLabel(action)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={filters.bookId} onValueChange={(value) => updateFilter("bookId", value)}>
+                  <SelectTrigger className="w-56" data-testid="select-credit-book">
+                    <SelectValue placeholder="All books" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All books</SelectItem>
+                    {books?.map(book => (
+                      <SelectItem key={book.id} value={book.id}>{book.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading || !data ? (
+              <p className="text-sm text-muted-foreground">Loading credit history...</p>
+            ) : data.entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No credit activity matches these filters.</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Activity</TableHead>
+                      <TableHead>Book</TableHead>
+                      <TableHead className="text-right">Credits</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.entries.map(entry => (
+                      <TableRow key={entry.id} data-testid={`row-credit-${entry.id}`}>
+                        <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), "MMM d, yyyy HH:mm")}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <span>{actionLabel(entry.action)}</span>
+                            <Badge className={KIND_STYLES[entry.kind]}>{entry.kind}</Badge>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {entry.bookId && entry.bookTitle ? (
+                            <Link href={`/books/${entry.bookId}`} className="text-purple-600 hover:underline">{entry.bookTitle}</Link>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${entry.amount < 0 ? "text-red-600" : "text-green-600"}`}>
+                          {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                        </TableCell>
+                        <TableCell className="text-right">{entry.balanceAfter}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="flex items-center justify-between pt-4">
+                  <p className="text-sm text-muted-foreground" data-testid="text-credit-page">
+                    Page {data.page} of {pageCount} · {data.total} entries
+                  </p>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page <= 1} data-testid="button-credit-prev">
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Previous
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page >= pageCount} data-testid="button-credit-next">
+                      Next
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
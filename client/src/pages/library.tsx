@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BookSummary } from "@shared/schema";
+import Navigation from "@/components/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { BookOpen, Plus, MoreVertical, Copy, Archive, ArchiveRestore, Trash2, ChevronRight } from "lucide-react";
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  generating: "bg-blue-100 text-blue-700",
+  completed: "bg-green-100 text-green-700",
+  published: "bg-purple-100 text-purple-700",
+};
+
+export default function Library() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<"active" | "archived">("active");
+  const [bookToDelete, setBookToDelete] = useState<BookSummary | null>(null);
+
+  const { data: books = [], isLoading } = useQuery<BookSummary[]>({
+    queryKey: ['/api/books'],
+    staleTime: 0,
+  });
+
+  const visibleBooks = books.filter(book => view === "archived" ? !!book.archivedAt : !book.archivedAt);
+  const archivedCount = books.filter(book => !!book.archivedAt).length;
+
+  const duplicateMutation = useMutation({
+    mutationFn: async (bookId: string) => {
+      const response = await apiRequest('POST', `/api/books/${bookId}/duplicate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/books'] });
+      toast({ title: "Book duplicated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to duplicate book", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async ({ bookId, archived }: { bookId: string, archived: boolean }) => {
+      const response = await apiRequest('POST', `/api/books/${bookId}/archive`, { archived });
+      return response.json();
+    },
+    onSuccess: (_book, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/books'] });
+      toast({ title: variables.archived ? "Book archived" : "Book restored" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update book", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (bookId: string) => {
+      const response = await apiRequest('DELETE', `/api/books/${bookId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/books'] });
+      toast({ title: "Book deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete book", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      setBookToDelete(null);
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">My Books</h1>
+            <p className="text-gray-600 mt-1">Pick up where you left off or start something new.</p>
+          </div>
+          <Link href="/create-book">
+            <Button className="bg-purple-600 hover:bg-purple-700" data-testid="button-new-book">
+              <Plus className="w-4 h-4 mr-2" />
+              New Book
+            </Button>
+          </Link>
+        </div>
+
+        <Tabs value={view} onValueChange={(value) => setView(value as "active" | "archived")} className="mb-6">
+          <TabsList>
+            <TabsTrigger value="active" data-testid="tab-active-books">Books</TabsTrigger>
+            <TabsTrigger value="archived" data-testid="tab-archived-books">
+              Archived{archivedCount > 0 ? ` (${archivedCount})` : ""}
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="text-center py-16">
+            <div className="w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading your books...</p>
+          </div>
+        ) : visibleBooks.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <BookOpen className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600 mb-4">
+                {view === "archived" ? "No archived books." : "You haven't started a book yet."}
+              </p>
+              {view === "active" && (
+                <Link href="/create-book">
+                  <Button className="bg-purple-600 hover:bg-purple-700">Create your first book</Button>
+                </Link>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {visibleBooks.map(book => (
+              <Card key={book.id} className="overflow-hidden hover:shadow-md transition-shadow" data-testid={`card-book-${book.id}`}>
+                <div className="flex">
+                  <div className="w-24 h-32 flex-shrink-0 bg-gradient-to-br from-purple-100 to-blue-100 flex items-center justify-center">
+                    {book.coverImageUrl ? (
+                      <img
+                        src={book.coverImageUrl}
+                        alt={book.title ? `Cover of ${book.title}` : "Book cover"}
+                        className="w-full h-full object-cover"
+                        onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                      />
+                    ) : (
+                      <BookOpen className="w-8 h-8 text-purple-400" />
+                    )}
+                  </div>
+                  <CardContent className="flex-1 p-4 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="font-semibold text-gray-900 truncate" title={book.title || undefined}>
+                        {book.title || "Untitled book"}
+                      </h3>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0 flex-shrink-0" data-testid={`button-book-menu-${book.id}`}>
+                            <MoreVertical className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => duplicateMutation.mutate(book.id)}>
+                            <Copy className="mr-2 h-4 w-4" />
+                            Duplicate
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => archiveMutation.mutate({ bookId: book.id, archived: !book.archivedAt })}>
+                            {book.archivedAt ? (
+                              <><ArchiveRestore className="mr-2 h-4 w-4" />Restore</>
+                            ) : (
+                              <><Archive className="mr-2 h-4 w-4" />Archive</>
+                            )}
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem className="text-red-600" onClick={() => setBookToDelete(book)}>
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Badge className={`${STATUS_STYLES[book.status] || STATUS_STYLES.draft} text-xs capitalize`}>
+                        {book.status}
+                      </Badge>
+                      <span className="text-xs text-gray-500">Step {book.currentStep}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {book.chapterCount} chapters · {book.wordCount.toLocaleString()} words
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      Updated {formatDistanceToNow(new Date(book.updatedAt), { addSuffix: true })}
+                    </p>
+                    <Button
+                      variant="link"
+                      className="p-0 h-auto mt-2 text-purple-600"
+                      onClick={() => setLocation(`/books/${book.id}`)}
+                      data-testid={`button-open-book-${book.id}`}
+                    >
+                      Continue
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </CardContent>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!bookToDelete} onOpenChange={(open) => { if (!open) setBookToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this book?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{bookToDelete?.title || "Untitled book"}" and all of its chapters will be permanently deleted. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => bookToDelete && deleteMutation.mutate(bookToDelete.id)}
+              data-testid="button-confirm-delete-book"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
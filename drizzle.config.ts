@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // The pre-ledger credit_usage table is left for scripts/migrate-credit-usage.ts to copy and drop
+  tablesFilter: ["!credit_usage"],
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
@@ -0,0 +1,64 @@
+/**
+ * Moves the history in the old credit_usage table into the credit ledger, then drops the table.
+ *
+ * Usage (once per database, after `npm run db:push` has created credit_ledger):
+ *   npm run db:migrate-credit-usage
+ *
+ * db:push leaves credit_usage alone (see tablesFilter in drizzle.config.ts), so nothing is lost
+ * before this runs. Each usage row becomes a "spend" entry with its original action, book and date;
+ * its id and metadata are kept under metadata.creditUsageId and metadata.details. The old table never
+ * recorded balances, so each entry's balance is worked back from the user's balance when the ledger
+ * started, counting only the charges that followed it. The copy and the drop run in one transaction.
+ */
+
+import { sql } from "drizzle-orm";
+import { db, pool } from "../server/db";
+
+async function main() {
+  const result = await db.transaction(async (tx) => {
+    const exists = await tx.execute(sql`SELECT to_regclass('public.credit_usage') IS NOT NULL AS "exists"`);
+    if (!exists.rows[0]?.exists) return null;
+
+    const copied = await tx.execute(sql`
+      WITH opening AS (
+        SELECT
+          u.id AS user_id,
+          COALESCE(
+            (SELECT l.balance_after - l.amount FROM credit_ledger l WHERE l.user_id = u.id ORDER BY l.created_at, l.id LIMIT 1),
+            u.credits
+          ) AS balance
+        FROM users u
+      )
+      INSERT INTO credit_ledger (user_id, kind, amount, balance_after, action, book_id, metadata, created_at)
+      SELECT
+        cu.user_id,
+        'spend',
+        -cu.credits_used,
+        o.balance + COALESCE(SUM(cu.credits_used) OVER (
+          PARTITION BY cu.user_id ORDER BY cu.created_at DESC, cu.id DESC
+          ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ), 0),
+        cu.action,
+        cu.book_id,
+        jsonb_build_object('creditUsageId', cu.id, 'details', cu.metadata),
+        cu.created_at
+      FROM credit_usage cu
+      JOIN opening o ON o.user_id = cu.user_id
+    `);
+    await tx.execute(sql`DROP TABLE credit_usage`);
+    return copied.rowCount ?? 0;
+  });
+
+  if (result === null) {
+    console.log("✅ No credit_usage table found; nothing to migrate");
+  } else {
+    console.log(`✅ Copied ${result} credit usage row(s) into credit_ledger and dropped credit_usage`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error("❌ Credit usage migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
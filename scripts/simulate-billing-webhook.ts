@@ -0,0 +1,120 @@
+/**
+ * Sends signed Stripe-format events to a running server's billing webhook, for testing
+ * subscriptions without a Stripe account.
+ *
+ * Usage:
+ *   npm run billing:simulate -- created --user <userId> --plan <lite|pro|agency>
+ *   npm run billing:simulate -- renewed --subscription <id> [--period-start <ISO date>]
+ *   npm run billing:simulate -- payment-failed --subscription <id>
+ *   npm run billing:simulate -- cancelled --subscription <id> [--at-period-end]
+ *
+ * Options: --url (defaults to http://localhost:$PORT/api/billing/webhook), --amount in cents.
+ * Events are signed with BILLING_WEBHOOK_SECRET, or the local simulator secret when it is not set.
+ */
+
+import { parseArgs } from "util";
+import {
+  LOCAL_WEBHOOK_SECRET,
+  signedEvent,
+  simulatedEvents,
+  simulatedInvoice,
+  simulatedSubscription,
+  type StripeEvent,
+} from "../server/billingWebhooks";
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    user: { type: "string" },
+    plan: { type: "string" },
+    subscription: { type: "string" },
+    customer: { type: "string", default: "cus_sim_local" },
+    amount: { type: "string", default: "2999" },
+    "period-start": { type: "string" },
+    "at-period-end": { type: "boolean", default: false },
+    url: { type: "string", default: `http://localhost:${process.env.PORT || 5000}/api/billing/webhook` },
+  },
+});
+
+function required(name: "user" | "plan" | "subscription"): string {
+  const value = values[name];
+  if (!value) {
+    console.error(`❌ --${name} is required for "${positionals[0]}"`);
+    process.exit(1);
+  }
+  return value;
+}
+
+const periodStart = values["period-start"] ? Math.floor(new Date(values["period-start"]).getTime() / 1000) : undefined;
+const amount = parseInt(values.amount!, 10);
+
+function events(command: string | undefined): StripeEvent[] {
+  switch (command) {
+    case "created": {
+      const subscription = simulatedSubscription({
+        id: values.subscription,
+        customer: values.customer,
+        userId: required("user"),
+        plan: required("plan"),
+        periodStart,
+      });
+      const invoice = simulatedInvoice({
+        subscription: subscription.id,
+        customer: subscription.customer,
+        paid: true,
+        amount,
+        periodStart: subscription.current_period_start,
+        billingReason: "subscription_create",
+      });
+      return [simulatedEvents.subscriptionCreated(subscription), simulatedEvents.invoicePaid(invoice)];
+    }
+    case "renewed":
+      return [simulatedEvents.invoicePaid(simulatedInvoice({
+        subscription: required("subscription"),
+        customer: values.customer!,
+        paid: true,
+        amount,
+        periodStart,
+      }))];
+    case "payment-failed":
+      return [simulatedEvents.invoicePaymentFailed(simulatedInvoice({
+        subscription: required("subscription"),
+        customer: values.customer!,
+        paid: false,
+        amount,
+        periodStart,
+      }))];
+    case "cancelled": {
+      const subscription = simulatedSubscription({
+        id: required("subscription"),
+        customer: values.customer,
+        plan: values.plan,
+        cancelAtPeriodEnd: values["at-period-end"],
+      });
+      return [values["at-period-end"] ? simulatedEvents.subscriptionUpdated(subscription) : simulatedEvents.subscriptionDeleted(subscription)];
+    }
+    default:
+      console.error("Usage: simulate-billing-webhook <created|renewed|payment-failed|cancelled> [options]");
+      process.exit(1);
+  }
+}
+
+async function main() {
+  const secret = process.env.BILLING_WEBHOOK_SECRET || LOCAL_WEBHOOK_SECRET;
+  for (const stripeEvent of events(positionals[0])) {
+    const { payload, signature } = signedEvent(stripeEvent, secret);
+    const response = await fetch(values.url!, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+      body: payload,
+    });
+    const body = await response.text();
+    console.log(`${response.ok ? "✅" : "❌"} ${stripeEvent.type} (${stripeEvent.data.object.id}) → ${response.status} ${body}`);
+    if (!response.ok) process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error("❌ Failed to send webhook:", error);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { ASSET_URL_PREFIX, type Book, type BookAsset } from "@shared/schema";
+import { storage } from "./storage";
+import { detectImageMediaType, IMAGE_EXTENSIONS } from "./epubValidator";
+
+// Images uploaded to books. The book_assets table describes each image; the bytes live in an
+// asset store under <bookId>/<assetId>.<ext>. Only a local disk store exists today, and nothing
+// outside this module touches the files directly.
+
+export const MAX_ASSET_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export interface IAssetStore {
+  write(key: string, data: Buffer): Promise<void>;
+  // null when nothing is stored under the key
+  read(key: string): Promise<Buffer | null>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalAssetStore implements IAssetStore {
+  constructor(private readonly root: string) {}
+
+  // Keys that would escape the root directory are rejected
+  private filePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid asset storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async write(key: string, data: Buffer): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+}
+
+export const assetStore: IAssetStore = new LocalAssetStore(process.env.ASSET_DIR || path.join(process.cwd(), "uploads", "assets"));
+
+// The URL chapters use to embed an asset
+export function assetUrl(asset: Pick<BookAsset, "id">): string {
+  return `${ASSET_URL_PREFIX}${asset.id}`;
+}
+
+// The asset an image source points at, when it is an asset URL
+export function assetIdFromSource(src: string): string | null {
+  const trimmed = src.trim();
+  if (!trimmed.startsWith(ASSET_URL_PREFIX)) return null;
+  return trimmed.slice(ASSET_URL_PREFIX.length).split(/[/?#]/)[0] || null;
+}
+
+// Bytes of the asset an image source points at; exporters use this instead of fetching the URL
+export async function readAssetSource(src: string): Promise<Buffer | null> {
+  const id = assetIdFromSource(src);
+  const asset = id && await storage.getBookAsset(id);
+  return asset ? assetStore.read(asset.storageKey) : null;
+}
+
+// Store an uploaded image; returns a status and message for the route on failure
+export async function ingestBookAsset(
+  bookId: string,
+  file: { filename: string; buffer: Buffer },
+  altText: string
+): Promise<{ asset?: BookAsset; status?: number; error?: string }> {
+  const mediaType = detectImageMediaType(file.buffer);
+  if (!mediaType) {
+    return { status: 400, error: "Unsupported file type. Upload a JPEG, PNG, GIF, WebP or SVG image." };
+  }
+
+  let dimensions: { width?: number; height?: number };
+  try {
+    dimensions = await sharp(file.buffer).metadata();
+  } catch (error) {
+    console.error("Failed to read uploaded image:", error);
+    return { status: 422, error: "Could not read this image. It may be damaged." };
+  }
+
+  const id = randomUUID();
+  const storageKey = path.posix.join(bookId, `${id}.${IMAGE_EXTENSIONS[mediaType]}`);
+  await assetStore.write(storageKey, file.buffer);
+  try {
+    const asset = await storage.createBookAsset({
+      id,
+      bookId,
+      filename: file.filename,
+      contentType: mediaType,
+      size: file.buffer.length,
+      width: dimensions.width ?? null,
+      height: dimensions.height ?? null,
+      altText,
+      storageKey,
+    });
+    return { asset };
+  } catch (error) {
+    await assetStore.remove(storageKey);
+    throw error;
+  }
+}
+
+// Duplicate a book together with its images. When a file cannot be copied, the copy is removed again.
+export async function duplicateBookWithAssets(bookId: string): Promise<Book | undefined> {
+  const duplicate = await storage.duplicateBook(bookId);
+  if (!duplicate) return undefined;
+
+  try {
+    for (const { from, to } of duplicate.assetFiles) {
+      const data = await assetStore.read(from);
+      if (data) await assetStore.write(to, data);
+    }
+  } catch (error) {
+    await storage.deleteBook(duplicate.book.id);
+    await Promise.all(duplicate.assetFiles.map(({ to }) => assetStore.remove(to)));
+    throw error;
+  }
+  return duplicate.book;
+}
+
+export async function deleteBookAsset(asset: BookAsset): Promise<void> {
+  await storage.deleteBookAsset(asset.id);
+  await assetStore.remove(asset.storageKey);
+}
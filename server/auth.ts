@@ -1,13 +1,16 @@
 import jwt from "jsonwebtoken";
 import { Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
-import { User } from "@shared/schema";
+import { User, type CreditAction } from "@shared/schema";
+import { creditCost } from "./credits";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key-change-in-production";
 const JWT_EXPIRES_IN = "7d";
 
 export interface AuthRequest extends Request {
   user?: User;
+  // Set by requireCredits: what the route's operation costs this user
+  creditCharge?: { action: CreditAction; amount: number };
 }
 
 export function generateToken(userId: string): string {
@@ -23,6 +26,23 @@ export function verifyToken(token: string): { userId: string } | null {
   }
 }
 
+// Short-lived token for a single export download, so a plain link can fetch the file without an auth header
+const DOWNLOAD_TOKEN_EXPIRES_IN = "15m";
+
+export function generateDownloadToken(exportId: string): string {
+  return jwt.sign({ exportId, purpose: "download" }, JWT_SECRET, { expiresIn: DOWNLOAD_TOKEN_EXPIRES_IN });
+}
+
+// The export id the token grants access to; login tokens are not accepted
+export function verifyDownloadToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { exportId?: string; purpose?: string };
+    return decoded.purpose === "download" && decoded.exportId ? decoded.exportId : null;
+  } catch (error) {
+    return null;
+  }
+}
+
 // Middleware to authenticate requests
 export async function authenticateToken(
   req: AuthRequest,
@@ -77,32 +97,33 @@ export function requireAdmin(
   next();
 }
 
-// Middleware to check if user has sufficient credits
-export async function requireCredits(
-  requiredCredits: number = 1
-) {
+// Middleware that prices an action for the user's plan and rejects the request when their balance
+// does not cover it. The route holds the credits with withCredits(req.user, req.creditCharge, ...),
+// which checks the balance again, since it can change while the request runs.
+export function requireCredits(action: CreditAction) {
   return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({ error: "Authentication required" });
       return;
     }
 
-    // Admin users have unlimited credits
-    if (req.user.role === "admin") {
-      next();
-      return;
-    }
+    try {
+      const amount = await creditCost(req.user, action);
+      if (req.user.role !== "admin" && req.user.credits < amount) {
+        res.status(402).json({
+          error: "Insufficient credits",
+          required: amount,
+          available: req.user.credits,
+        });
+        return;
+      }
 
-    if (req.user.credits < requiredCredits) {
-      res.status(402).json({ 
-        error: "Insufficient credits",
-        required: requiredCredits,
-        available: req.user.credits,
-      });
-      return;
+      req.creditCharge = { action, amount };
+      next();
+    } catch (error) {
+      console.error("Credit pricing error:", error);
+      res.status(500).json({ error: "Failed to price this operation" });
     }
-
-    next();
   };
 }
 
@@ -0,0 +1,382 @@
+import type { IncomingMessage } from "http";
+import { z } from "zod";
+import { SUBSCRIPTION_PLANS, type Subscription, type SubscriptionPlan, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { isCurrentSubscription, startSubscriptionCreditPeriod } from "./creditPlans";
+import {
+  LOCAL_WEBHOOK_SECRET,
+  signedEvent,
+  simulatedEvents,
+  simulatedInvoice,
+  simulatedSubscription,
+  verifyWebhookSignature,
+  type StripeEvent,
+  type StripeInvoiceObject,
+  type StripeSubscriptionObject,
+} from "./billingWebhooks";
+
+// Subscriptions are bought and renewed through a billing provider. The provider's webhooks are the
+// only thing that creates or changes subscription rows; users.role and the credit period follow them.
+
+export const BILLING_PROVIDER_IDS = ["stripe", "mock"] as const;
+export type BillingProviderId = typeof BILLING_PROVIDER_IDS[number];
+
+export const BILLING_WEBHOOK_PATH = "/api/billing/webhook";
+
+// express.json keeps the exact bytes of webhook requests here, since the signature covers them
+export type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+export interface CheckoutRequest {
+  user: User;
+  plan: SubscriptionPlan;
+  // The customer from an earlier subscription, so the provider keeps one customer per user
+  customerId?: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface BillingProvider {
+  readonly id: BillingProviderId;
+  isConfigured(): boolean;
+  // Returns the page the user pays on
+  createCheckoutSession(request: CheckoutRequest): Promise<{ url: string }>;
+  // Stops renewal; the subscription stays active until its current period ends
+  cancelAtPeriodEnd(subscription: Subscription): Promise<void>;
+}
+
+function priceIdForPlan(plan: SubscriptionPlan): string | undefined {
+  return process.env[`STRIPE_PRICE_${plan.toUpperCase()}`];
+}
+
+function planForPriceId(priceId: string | undefined): SubscriptionPlan | undefined {
+  return priceId ? SUBSCRIPTION_PLANS.find(plan => priceIdForPlan(plan) === priceId) : undefined;
+}
+
+// The parts of Stripe's responses that are read; anything else in them is ignored
+const stripeCheckoutSessionSchema = z.object({
+  id: z.string(),
+  url: z.string().url(),
+});
+
+const stripeSubscriptionSchema = z.object({
+  id: z.string(),
+  cancel_at_period_end: z.boolean(),
+});
+
+export class StripeBillingProvider implements BillingProvider {
+  readonly id = "stripe" as const;
+
+  isConfigured(): boolean {
+    return !!process.env.STRIPE_SECRET_KEY && SUBSCRIPTION_PLANS.every(plan => !!priceIdForPlan(plan));
+  }
+
+  // Stripe's API takes form-encoded bodies, with nested fields written as a[b][c]
+  private async request<T>(path: string, params: Record<string, string>, schema: z.ZodType<T>): Promise<T> {
+    const response = await fetch(`https://api.stripe.com/v1${path}`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${process.env.STRIPE_SECRET_KEY}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Stripe returned ${response.status}: ${text || response.statusText}`);
+    }
+    const parsed = schema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new Error(`Unexpected Stripe response from ${path}: ${parsed.error.errors.map(issue => `${issue.path.join(".")} ${issue.message}`).join("; ")}`);
+    }
+    return parsed.data;
+  }
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<{ url: string }> {
+    const session = await this.request("/checkout/sessions", {
+      "mode": "subscription",
+      "line_items[0][price]": priceIdForPlan(request.plan)!,
+      "line_items[0][quantity]": "1",
+      "success_url": request.successUrl,
+      "cancel_url": request.cancelUrl,
+      "client_reference_id": request.user.id,
+      // Copied onto the subscription, so its webhooks say whose it is
+      "subscription_data[metadata][userId]": request.user.id,
+      "subscription_data[metadata][plan]": request.plan,
+      ...(request.customerId ? { "customer": request.customerId } : { "customer_email": request.user.email }),
+    }, stripeCheckoutSessionSchema);
+    return { url: session.url };
+  }
+
+  async cancelAtPeriodEnd(subscription: Subscription): Promise<void> {
+    await this.request(`/subscriptions/${encodeURIComponent(subscription.subscriptionId!)}`, {
+      "cancel_at_period_end": "true",
+    }, stripeSubscriptionSchema);
+  }
+}
+
+const MOCK_PLAN_PRICES: Record<SubscriptionPlan, number> = { lite: 2999, pro: 5999, agency: 24900 };
+
+// Offline stand-in: checkout succeeds straight away and each action is reported through the webhook
+// handler as signed simulated events, the way Stripe would report it
+export class MockBillingProvider implements BillingProvider {
+  readonly id = "mock" as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private async deliver(stripeEvent: StripeEvent): Promise<void> {
+    const secret = webhookSecret()!;
+    const { payload, signature } = signedEvent(stripeEvent, secret);
+    const result = await handleBillingWebhook(Buffer.from(payload), signature);
+    if (result.error) throw new Error(result.error);
+  }
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<{ url: string }> {
+    const subscription = simulatedSubscription({
+      userId: request.user.id,
+      plan: request.plan,
+      customer: request.customerId ?? undefined,
+    });
+    await this.deliver(simulatedEvents.subscriptionCreated(subscription));
+    await this.deliver(simulatedEvents.invoicePaid(simulatedInvoice({
+      subscription: subscription.id,
+      customer: subscription.customer,
+      paid: true,
+      amount: MOCK_PLAN_PRICES[request.plan],
+      periodStart: subscription.current_period_start,
+      billingReason: "subscription_create",
+    })));
+    return { url: request.successUrl };
+  }
+
+  async cancelAtPeriodEnd(subscription: Subscription): Promise<void> {
+    await this.deliver(simulatedEvents.subscriptionUpdated(simulatedSubscription({
+      id: subscription.subscriptionId!,
+      customer: subscription.customerId ?? undefined,
+      plan: subscription.plan,
+      priceId: subscription.priceId ?? undefined,
+      periodStart: subscription.currentPeriodStart ? Math.floor(subscription.currentPeriodStart.getTime() / 1000) : undefined,
+      cancelAtPeriodEnd: true,
+    })));
+  }
+}
+
+const providers: Record<BillingProviderId, BillingProvider> = {
+  stripe: new StripeBillingProvider(),
+  mock: new MockBillingProvider(),
+};
+
+// Mock billing signs webhooks with a secret anyone can read, so production never runs it
+function isMockBilling(): boolean {
+  return process.env.BILLING_PROVIDER === "mock" && process.env.NODE_ENV !== "production";
+}
+
+// BILLING_PROVIDER=mock runs checkout offline outside production; anything else uses Stripe
+export function getBillingProvider(): BillingProvider {
+  return providers[isMockBilling() ? "mock" : "stripe"];
+}
+
+// The local secret is only accepted in mock mode; with Stripe, an unset secret disables the webhook
+function webhookSecret(): string | undefined {
+  if (process.env.BILLING_WEBHOOK_SECRET) return process.env.BILLING_WEBHOOK_SECRET;
+  return isMockBilling() ? LOCAL_WEBHOOK_SECRET : undefined;
+}
+
+// Start paying for a plan; returns a status and message for the route on failure
+export async function startCheckout(
+  user: User,
+  plan: SubscriptionPlan,
+  appUrl: string
+): Promise<{ url?: string; status?: number; error?: string }> {
+  const provider = getBillingProvider();
+  if (!provider.isConfigured()) {
+    return { status: 503, error: "Billing is not configured on this server." };
+  }
+
+  const current = await storage.getUserSubscription(user.id);
+  if (isCurrentSubscription(current)) {
+    return { status: 409, error: "You already have a subscription. Manage it from the billing page." };
+  }
+
+  const { url } = await provider.createCheckoutSession({
+    user,
+    plan,
+    customerId: current?.customerId,
+    successUrl: `${appUrl}/billing?checkout=success`,
+    cancelUrl: `${appUrl}/billing?checkout=cancelled`,
+  });
+  return { url };
+}
+
+export async function cancelSubscription(user: User): Promise<{ subscription?: Subscription; status?: number; error?: string }> {
+  const current = await storage.getUserSubscription(user.id);
+  if (!current?.subscriptionId || !isCurrentSubscription(current)) {
+    return { status: 404, error: "You have no active subscription." };
+  }
+  if (current.cancelAtPeriodEnd) {
+    return { subscription: current };
+  }
+
+  await getBillingProvider().cancelAtPeriodEnd(current);
+  // The webhook confirms this too, but the billing page should show it without waiting
+  const subscription = await storage.updateSubscriptionByExternalId(current.subscriptionId, { cancelAtPeriodEnd: true });
+  return { subscription };
+}
+
+// Webhook handling
+
+function toDate(seconds: number | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+function subscriptionStatus(status: string): string {
+  if (status === "active" || status === "trialing") return "active";
+  if (status === "canceled" || status === "incomplete_expired") return "cancelled";
+  return "past_due"; // past_due, unpaid, incomplete
+}
+
+function invoiceSubscriptionId(invoice: StripeInvoiceObject): string | undefined {
+  return invoice.subscription ?? invoice.parent?.subscription_details?.subscription ?? undefined;
+}
+
+// Subscribers get the subscribed role for as long as their subscription is current. Admins keep theirs.
+async function syncUserRole(userId: string): Promise<void> {
+  const user = await storage.getUser(userId);
+  if (!user || user.role === "admin") return;
+  const role = isCurrentSubscription(await storage.getUserSubscription(userId)) ? "subscribed" : "free";
+  if (user.role !== role) {
+    await storage.updateUser(userId, { role });
+  }
+}
+
+async function syncSubscription(object: StripeSubscriptionObject): Promise<void> {
+  const existing = await storage.getSubscriptionByExternalId(object.id);
+  const userId = existing?.userId ?? object.metadata?.userId;
+  if (!userId) {
+    console.warn(`Ignoring billing webhook for subscription ${object.id}: it names no user`);
+    return;
+  }
+
+  const item = object.items?.data[0];
+  const priceId = item?.price?.id;
+  const metadataPlan = SUBSCRIPTION_PLANS.find(plan => plan === object.metadata?.plan);
+  const plan = planForPriceId(priceId) ?? metadataPlan ?? existing?.plan;
+  if (!plan) {
+    throw new Error(`Subscription ${object.id} has no known plan (price ${priceId})`);
+  }
+
+  const fields = {
+    plan,
+    status: subscriptionStatus(object.status),
+    priceId: priceId ?? existing?.priceId ?? null,
+    customerId: object.customer,
+    cancelAtPeriodEnd: object.cancel_at_period_end ?? false,
+  };
+  if (existing) {
+    // The period only moves forward when its invoice is paid, so unpaid periods never grant credits
+    await storage.updateSubscriptionByExternalId(object.id, fields);
+  } else {
+    await storage.createSubscription({
+      ...fields,
+      userId,
+      subscriptionId: object.id,
+      currentPeriodStart: toDate(object.current_period_start ?? item?.current_period_start),
+      currentPeriodEnd: toDate(object.current_period_end ?? item?.current_period_end),
+    });
+  }
+
+  await syncUserRole(userId);
+  await startSubscriptionCreditPeriod(userId);
+}
+
+async function endSubscription(object: StripeSubscriptionObject): Promise<void> {
+  const subscription = await storage.updateSubscriptionByExternalId(object.id, { status: "cancelled", cancelAtPeriodEnd: false });
+  if (subscription) {
+    await syncUserRole(subscription.userId);
+  }
+}
+
+async function recordInvoice(object: StripeInvoiceObject, paid: boolean): Promise<void> {
+  const externalSubscriptionId = invoiceSubscriptionId(object);
+  if (!externalSubscriptionId) return; // one-off invoices are not part of a plan
+
+  const subscription = await storage.getSubscriptionByExternalId(externalSubscriptionId);
+  if (!subscription) {
+    // Stripe does not guarantee event order; failing makes it retry after the subscription event has arrived
+    throw new Error(`Invoice ${object.id} is for unknown subscription ${externalSubscriptionId}`);
+  }
+
+  const period = object.lines?.data[0]?.period;
+  await storage.upsertInvoice({
+    userId: subscription.userId,
+    subscriptionId: subscription.id,
+    externalId: object.id,
+    status: paid ? "paid" : "failed",
+    amount: paid ? object.amount_paid : object.amount_due,
+    currency: object.currency,
+    periodStart: toDate(period?.start),
+    periodEnd: toDate(period?.end),
+    hostedUrl: object.hosted_invoice_url ?? null,
+  });
+
+  if (subscription.status !== "cancelled") {
+    const periodStart = toDate(period?.start);
+    const renewed = periodStart && (!subscription.currentPeriodStart || periodStart > subscription.currentPeriodStart);
+    await storage.updateSubscriptionByExternalId(externalSubscriptionId, {
+      status: paid ? "active" : "past_due",
+      ...(paid && renewed ? { currentPeriodStart: periodStart, currentPeriodEnd: toDate(period?.end) } : {}),
+    });
+  }
+
+  await syncUserRole(subscription.userId);
+  if (paid) {
+    await startSubscriptionCreditPeriod(subscription.userId);
+  }
+}
+
+async function handleBillingEvent(stripeEvent: StripeEvent): Promise<void> {
+  const object = stripeEvent.data.object;
+  switch (stripeEvent.type) {
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+      return syncSubscription(object as StripeSubscriptionObject);
+    case "customer.subscription.deleted":
+      return endSubscription(object as StripeSubscriptionObject);
+    case "invoice.paid":
+      return recordInvoice(object as StripeInvoiceObject, true);
+    case "invoice.payment_failed":
+      return recordInvoice(object as StripeInvoiceObject, false);
+    default:
+      // Other events the endpoint is subscribed to are acknowledged and ignored
+      return;
+  }
+}
+
+// Verify and apply a webhook request; returns a status and message for the route when it is rejected
+export async function handleBillingWebhook(
+  payload: Buffer | undefined,
+  signatureHeader: string | undefined
+): Promise<{ status?: number; error?: string }> {
+  const secret = webhookSecret();
+  if (!secret) {
+    return { status: 503, error: "Billing webhooks are not configured" };
+  }
+  if (!payload || !verifyWebhookSignature(payload, signatureHeader, secret)) {
+    return { status: 400, error: "Invalid webhook signature" };
+  }
+
+  let stripeEvent: StripeEvent;
+  try {
+    stripeEvent = JSON.parse(payload.toString("utf-8"));
+  } catch {
+    return { status: 400, error: "Invalid webhook payload" };
+  }
+  if (!stripeEvent?.type || !stripeEvent.data?.object) {
+    return { status: 400, error: "Invalid webhook payload" };
+  }
+
+  await handleBillingEvent(stripeEvent);
+  return {};
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { signWebhookPayload, verifyWebhookSignature } from "./billingWebhooks";
+
+const SECRET = "whsec_test";
+const PAYLOAD = JSON.stringify({ id: "evt_1", type: "invoice.paid" });
+
+function verify(header: string | undefined, options: { payload?: string; secret?: string; now?: number } = {}) {
+  return verifyWebhookSignature(Buffer.from(options.payload ?? PAYLOAD), header, options.secret ?? SECRET, options.now);
+}
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a payload signed with the secret", () => {
+    expect(verify(signWebhookPayload(PAYLOAD, SECRET))).toBe(true);
+  });
+
+  it("rejects a missing header, a changed payload and another secret", () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET);
+
+    expect(verify(undefined)).toBe(false);
+    expect(verify(header, { payload: PAYLOAD.replace("invoice.paid", "invoice.voided") })).toBe(false);
+    expect(verify(header, { secret: "whsec_other" })).toBe(false);
+    expect(verify(header.replace(/v1=.*/, "v1=not-hex"))).toBe(false);
+  });
+
+  it("rejects signatures older or newer than the tolerance", () => {
+    const signedAt = 1_700_000_000;
+    const header = signWebhookPayload(PAYLOAD, SECRET, signedAt);
+
+    expect(verify(header, { now: (signedAt + 4 * 60) * 1000 })).toBe(true);
+    expect(verify(header, { now: (signedAt + 6 * 60) * 1000 })).toBe(false);
+    expect(verify(header, { now: (signedAt - 6 * 60) * 1000 })).toBe(false);
+  });
+
+  it("accepts any matching v1 while a secret is being rotated", () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const current = signWebhookPayload(PAYLOAD, SECRET, timestamp);
+    const previous = signWebhookPayload(PAYLOAD, "whsec_previous", timestamp).replace(/^t=\d+,/, "");
+
+    expect(verify(`${previous},${current.replace(/^t=\d+,/, "")},t=${timestamp}`)).toBe(true);
+    expect(verify(`t=${timestamp},${previous}`)).toBe(false);
+  });
+});
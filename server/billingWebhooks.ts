@@ -0,0 +1,149 @@
+import crypto from "crypto";
+
+// Webhook events in Stripe's format, the only format the billing webhook reads. Besides checking
+// signatures, this module builds signed events itself, which the mock billing provider and the
+// local simulator (scripts/simulate-billing-webhook.ts) use to drive the same code path offline.
+
+// Older timestamps are rejected so a captured request cannot be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Used by the mock provider and the simulator when BILLING_WEBHOOK_SECRET is not set. The webhook
+// only accepts it in mock mode, which never runs in production.
+export const LOCAL_WEBHOOK_SECRET = "whsec_local_simulator";
+
+export interface StripeSubscriptionObject {
+  object: "subscription";
+  id: string;
+  customer: string;
+  status: string; // active, trialing, past_due, unpaid, incomplete, incomplete_expired, canceled
+  metadata?: Record<string, string>;
+  cancel_at_period_end?: boolean;
+  // Newer API versions report the period on the subscription items instead
+  current_period_start?: number;
+  current_period_end?: number;
+  items?: { data: Array<{ price?: { id: string }; current_period_start?: number; current_period_end?: number }> };
+}
+
+export interface StripeInvoiceObject {
+  object: "invoice";
+  id: string;
+  customer: string;
+  // Newer API versions report the subscription under parent.subscription_details
+  subscription?: string | null;
+  parent?: { subscription_details?: { subscription?: string } } | null;
+  billing_reason?: string;
+  amount_due: number;
+  amount_paid: number;
+  currency: string;
+  hosted_invoice_url?: string | null;
+  lines?: { data: Array<{ period?: { start: number; end: number } }> };
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: StripeSubscriptionObject | StripeInvoiceObject | Record<string, unknown> };
+}
+
+function signature(secret: string, timestamp: number, payload: string | Buffer): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.`).update(payload).digest("hex");
+}
+
+// The Stripe-Signature header for a payload: t=<unix seconds>,v1=<HMAC-SHA256 of "t.payload">
+export function signWebhookPayload(payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${signature(secret, timestamp, payload)}`;
+}
+
+export function verifyWebhookSignature(payload: Buffer, header: string | undefined, secret: string, now: number = Date.now()): boolean {
+  if (!header) return false;
+  const parts = header.split(",").map(part => part.split("=", 2) as [string, string?]);
+  const timestamp = Number(parts.find(([key]) => key === "t")?.[1]);
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signature(secret, timestamp, payload), "hex");
+  // A secret being rotated sends one v1 per secret; any match is enough
+  return parts.some(([key, value]) => {
+    if (key !== "v1" || !value) return false;
+    const candidate = Buffer.from(value, "hex");
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+  });
+}
+
+// Simulated events
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const BILLING_PERIOD_DAYS = 30;
+
+function simulatedId(prefix: string): string {
+  return `${prefix}_sim_${crypto.randomBytes(8).toString("hex")}`;
+}
+
+function event(type: string, object: StripeEvent["data"]["object"]): StripeEvent {
+  return { id: simulatedId("evt"), type, created: Math.floor(Date.now() / 1000), data: { object } };
+}
+
+export function simulatedSubscription(options: {
+  id?: string;
+  customer?: string;
+  userId?: string;
+  plan?: string;
+  priceId?: string;
+  status?: string;
+  periodStart?: number;
+  cancelAtPeriodEnd?: boolean;
+}): StripeSubscriptionObject {
+  const periodStart = options.periodStart ?? Math.floor(Date.now() / 1000);
+  return {
+    object: "subscription",
+    id: options.id ?? simulatedId("sub"),
+    customer: options.customer ?? simulatedId("cus"),
+    status: options.status ?? "active",
+    metadata: {
+      ...(options.userId ? { userId: options.userId } : {}),
+      ...(options.plan ? { plan: options.plan } : {}),
+    },
+    cancel_at_period_end: options.cancelAtPeriodEnd ?? false,
+    current_period_start: periodStart,
+    current_period_end: periodStart + BILLING_PERIOD_DAYS * SECONDS_PER_DAY,
+    items: { data: [{ price: { id: options.priceId ?? `price_sim_${options.plan ?? "plan"}` } }] },
+  };
+}
+
+export function simulatedInvoice(options: {
+  subscription: string;
+  customer: string;
+  paid: boolean;
+  amount: number;
+  currency?: string;
+  periodStart?: number;
+  billingReason?: string;
+}): StripeInvoiceObject {
+  const periodStart = options.periodStart ?? Math.floor(Date.now() / 1000);
+  return {
+    object: "invoice",
+    id: simulatedId("in"),
+    customer: options.customer,
+    subscription: options.subscription,
+    billing_reason: options.billingReason ?? "subscription_cycle",
+    amount_due: options.amount,
+    amount_paid: options.paid ? options.amount : 0,
+    currency: options.currency ?? "usd",
+    hosted_invoice_url: null,
+    lines: { data: [{ period: { start: periodStart, end: periodStart + BILLING_PERIOD_DAYS * SECONDS_PER_DAY } }] },
+  };
+}
+
+export const simulatedEvents = {
+  subscriptionCreated: (subscription: StripeSubscriptionObject) => event("customer.subscription.created", subscription),
+  subscriptionUpdated: (subscription: StripeSubscriptionObject) => event("customer.subscription.updated", subscription),
+  subscriptionDeleted: (subscription: StripeSubscriptionObject) => event("customer.subscription.deleted", { ...subscription, status: "canceled" }),
+  invoicePaid: (invoice: StripeInvoiceObject) => event("invoice.paid", invoice),
+  invoicePaymentFailed: (invoice: StripeInvoiceObject) => event("invoice.payment_failed", invoice),
+};
+
+// A JSON body and the header that signs it, ready to post to the webhook
+export function signedEvent(stripeEvent: StripeEvent, secret: string): { payload: string; signature: string } {
+  const payload = JSON.stringify(stripeEvent);
+  return { payload, signature: signWebhookPayload(payload, secret) };
+}
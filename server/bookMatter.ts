@@ -0,0 +1,49 @@
+import type { BookMatter } from '@shared/schema';
+
+// Front and back matter as the exporters lay it out. Front matter follows the title page and
+// comes before the table of contents; back matter follows the last chapter.
+
+export interface MatterSection {
+  // Used for file names, anchors and CSS classes
+  id: 'copyright' | 'dedication' | 'acknowledgements' | 'about-the-author' | 'call-to-action';
+  title: string;
+  placement: 'front' | 'back';
+  // Copyright and dedication pages are printed without a heading and left out of the table of contents
+  listed: boolean;
+  // EPUB structural semantics (epub:type) of the section
+  epubType: string;
+  // Markdown, rendered like chapter content
+  content: string;
+}
+
+function copyrightContent(copyright: BookMatter['copyright'], author: string): string | null {
+  if (!copyright.year && !copyright.isbn && !copyright.publisher && !copyright.notice) return null;
+  const year = copyright.year || String(new Date().getFullYear());
+  return [
+    `Copyright © ${year} ${author}`,
+    'All rights reserved.',
+    copyright.notice,
+    copyright.isbn && `ISBN ${copyright.isbn}`,
+    copyright.publisher && `Published by ${copyright.publisher}`,
+  ].filter(Boolean).join('\n\n');
+}
+
+function callToActionContent(callToAction: BookMatter['callToAction']): string | null {
+  if (!callToAction.content && !callToAction.linkUrl) return null;
+  const link = callToAction.linkUrl && `[${callToAction.linkLabel || callToAction.linkUrl}](${callToAction.linkUrl})`;
+  return [callToAction.content, link].filter(Boolean).join('\n\n');
+}
+
+// Sections in reading order; blank pages are left out
+export function bookMatterSections(matter: BookMatter | null | undefined, book: { author: string }): MatterSection[] {
+  if (!matter) return [];
+
+  const sections: Array<Omit<MatterSection, 'content'> & { content: string | null }> = [
+    { id: 'copyright', title: 'Copyright', placement: 'front', listed: false, epubType: 'copyright-page', content: copyrightContent(matter.copyright, book.author) },
+    { id: 'dedication', title: 'Dedication', placement: 'front', listed: false, epubType: 'dedication', content: matter.dedication || null },
+    { id: 'acknowledgements', title: 'Acknowledgements', placement: 'back', listed: true, epubType: 'acknowledgments', content: matter.acknowledgements || null },
+    { id: 'about-the-author', title: 'About the Author', placement: 'back', listed: true, epubType: 'backmatter', content: matter.aboutAuthor || null },
+    { id: 'call-to-action', title: matter.callToAction.title || 'Before You Go', placement: 'back', listed: true, epubType: 'backmatter', content: callToActionContent(matter.callToAction) },
+  ];
+  return sections.filter((section): section is MatterSection => section.content !== null);
+}
@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import { chapterBriefSchema, type BookDetails, type Chapter } from "@shared/schema";
+import { storage } from "./storage";
+import { findRelevantPassages } from "./sourceDocuments";
+import { summarizeChapter, type ChapterContext, type ChapterPromptName } from "./anthropic.js";
+import type { PreviousChapterSummary } from "./promptTemplates";
+
+interface PlanChapterInput {
+  bookId?: string | null;
+  chapterId?: unknown;
+  chapterNumber?: number;
+  chapterTitle: string;
+  // Brief sent by the client; only used when the chapter has none saved
+  requestBrief?: unknown;
+  bookDetails: BookDetails;
+}
+
+export interface ChapterGenerationPlan {
+  promptName: ChapterPromptName;
+  context: ChapterContext;
+}
+
+// How many supporting-document passages a chapter prompt gets
+const CHAPTER_SOURCE_PASSAGES = 6;
+
+export function contentHash(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// A chapter that already has saved text gets the "regeneration" prompt; anything else is a first draft.
+// For saved books the prompt also gets the whole outline and summaries of the chapters before this one.
+export async function planChapterGeneration(input: PlanChapterInput): Promise<ChapterGenerationPlan> {
+  const parsedBrief = chapterBriefSchema.safeParse(input.requestBrief);
+  const fallbackBrief = parsedBrief.success ? parsedBrief.data : null;
+  if (!input.bookId) {
+    return { promptName: "chapter", context: { chapterNumber: input.chapterNumber, chapterBrief: fallbackBrief } };
+  }
+
+  const bookChapters = await storage.getBookChapters(input.bookId);
+  const index = bookChapters.findIndex(chapter => chapter.id === input.chapterId);
+  const current = index >= 0 ? bookChapters[index] : undefined;
+  // A chapter that is not saved yet is placed by the number the client sent
+  const position = current ? index : Math.min(Math.max((input.chapterNumber || 1) - 1, 0), bookChapters.length);
+
+  // Stored chapter numbers can have gaps after deletes, so chapters are numbered by position
+  const earlier = bookChapters
+    .slice(0, position)
+    .map((chapter, i) => ({ ...chapter, chapterNumber: i + 1 }))
+    .filter(chapter => chapter.content.trim());
+  const summaries = await Promise.all(earlier.map(chapter => getChapterSummary(chapter, input.bookDetails)));
+  const previousChapters: PreviousChapterSummary[] = earlier
+    .map((chapter, i) => ({ chapterNumber: chapter.chapterNumber, title: chapter.title, summary: summaries[i] }))
+    .filter((chapter): chapter is PreviousChapterSummary => !!chapter.summary);
+
+  const chapterBrief = current?.brief ?? fallbackBrief;
+  const sourceQuery = [
+    input.chapterTitle,
+    chapterBrief?.summary,
+    ...(chapterBrief?.keyPoints || []),
+    ...(chapterBrief?.sections || []),
+  ].filter(Boolean).join(" ");
+  const sourcePassages = await findRelevantPassages(input.bookId, sourceQuery, CHAPTER_SOURCE_PASSAGES);
+
+  return {
+    promptName: current?.content.trim() ? "regeneration" : "chapter",
+    context: {
+      chapterNumber: position + 1,
+      chapterBrief,
+      bookOutline: bookChapters.map((chapter, i) => ({
+        chapterNumber: i + 1,
+        title: chapter.title,
+        summary: chapter.brief?.summary,
+      })),
+      previousChapters,
+      sourcePassages,
+    },
+  };
+}
+
+// Uses the cached summary while it still matches the chapter text, otherwise writes and caches a new one
+async function getChapterSummary(chapter: Chapter, bookDetails: BookDetails): Promise<string | null> {
+  const hash = contentHash(chapter.content);
+  if (chapter.summary && chapter.summaryContentHash === hash) {
+    return chapter.summary;
+  }
+
+  try {
+    const summary = await summarizeChapter(chapter, bookDetails);
+    await storage.updateChapterSummary(chapter.id, summary, hash);
+    return summary;
+  } catch (error) {
+    // Generation should not fail over a missing recap; the planned summary is the next best thing
+    console.error(`Failed to summarize chapter "${chapter.title}":`, error);
+    return chapter.brief?.summary ?? null;
+  }
+}
@@ -0,0 +1,130 @@
+import { SUBSCRIPTION_PLANS, creditPlansSchema, type CreditPlan, type CreditPlans, type Subscription, type SubscriptionPlan, type User } from "@shared/schema";
+import { storage, type CreditPeriodGrant } from "./storage";
+
+// How many credits each plan grants per billing period. Admins edit the plans in adminConfigs; these
+// defaults apply until they do and match the pricing page: yearly credits paid out monthly, with the
+// yearly bonus paid in the first month of each subscription year.
+
+export const CREDIT_PLANS_CONFIG_KEY = "credit_plans";
+
+export const DEFAULT_CREDIT_PLANS: CreditPlans = {
+  free: { name: "Free", periodCredits: 1, bonusCredits: 0, bonusEveryPeriods: 0, maxRollover: 0 },
+  lite: { name: "Lite", periodCredits: 3, bonusCredits: 8, bonusEveryPeriods: 12, maxRollover: 3 },
+  pro: { name: "Pro", periodCredits: 4, bonusCredits: 10, bonusEveryPeriods: 12, maxRollover: 4 },
+  agency: { name: "Agency", periodCredits: 20, bonusCredits: 48, bonusEveryPeriods: 12, maxRollover: 20 },
+};
+
+// Checked often enough that credits arrive within the hour a billing period starts
+const RESET_INTERVAL_MS = 60 * 60 * 1000;
+const AVERAGE_MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+// Read at call time so saved changes apply to the next reset; a broken config falls back to the defaults
+export async function loadCreditPlans(): Promise<CreditPlans> {
+  try {
+    const config = await storage.getAdminConfig(CREDIT_PLANS_CONFIG_KEY);
+    if (!config) return DEFAULT_CREDIT_PLANS;
+    const parsed = creditPlansSchema.safeParse(config.configValue);
+    if (parsed.success) return parsed.data;
+    console.error("Invalid credit plan config, using the default plans:", parsed.error.errors);
+  } catch (error) {
+    console.error("Failed to load credit plans, using the default plans:", error);
+  }
+  return DEFAULT_CREDIT_PLANS;
+}
+
+// A subscription that still counts: paid up, or in the grace period while the provider retries a failed payment
+export function isCurrentSubscription(subscription: Subscription | undefined): boolean {
+  return subscription?.status === "active" || subscription?.status === "past_due";
+}
+
+// The plan a user's credits and prices follow
+export async function currentPlanId(userId: string): Promise<SubscriptionPlan | "free"> {
+  const subscription = await storage.getUserSubscription(userId);
+  const plan = subscription?.plan as SubscriptionPlan | undefined;
+  return isCurrentSubscription(subscription) && plan && SUBSCRIPTION_PLANS.includes(plan) ? plan : "free";
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+// Zero for the first period. Billing periods are monthly, and the period start a provider reports can
+// drift from the signup time by a few seconds or days, so the count is rounded.
+function periodIndex(since: Date, periodStart: Date): number {
+  return Math.max(0, Math.round((periodStart.getTime() - since.getTime()) / AVERAGE_MONTH_MS));
+}
+
+function bonusDue(plan: CreditPlan, index: number): boolean {
+  if (plan.bonusCredits <= 0) return false;
+  return plan.bonusEveryPeriods === 0 ? index === 0 : index % plan.bonusEveryPeriods === 0;
+}
+
+// The credits a user receives for the period that has started
+function creditPeriodGrant(plans: CreditPlans, user: User, subscription: Subscription | undefined, now: Date): CreditPeriodGrant {
+  const planId = subscription && SUBSCRIPTION_PLANS.includes(subscription.plan as SubscriptionPlan)
+    ? subscription.plan as SubscriptionPlan
+    : null;
+
+  let periodStart: Date;
+  let index: number;
+  if (subscription?.currentPeriodStart) {
+    periodStart = subscription.currentPeriodStart;
+    index = periodIndex(subscription.createdAt, periodStart);
+  } else {
+    // Free users are reset a month after their last reset, catching up to the latest month without drifting
+    periodStart = user.creditsResetDate ? addMonths(user.creditsResetDate, 1) : now;
+    while (addMonths(periodStart, 1) <= now) periodStart = addMonths(periodStart, 1);
+    index = periodIndex(user.createdAt, periodStart);
+  }
+
+  const plan = planId ? plans[planId] : plans.free;
+  if (subscription && !planId) {
+    console.error(`Unknown subscription plan "${subscription.plan}" for user ${user.id}, granting the free plan`);
+  }
+  return {
+    plan: planId ?? "free",
+    periodStart,
+    credits: plan.periodCredits,
+    bonusCredits: bonusDue(plan, index) ? plan.bonusCredits : 0,
+    maxRollover: plan.maxRollover,
+  };
+}
+
+export async function resetDueCredits(now: Date = new Date()): Promise<number> {
+  const plans = await loadCreditPlans();
+  const due = await storage.getUsersDueForCreditReset(addMonths(now, -1));
+  let reset = 0;
+  for (const { user, subscription } of due) {
+    try {
+      if (await storage.resetMonthlyCredits(user.id, creditPeriodGrant(plans, user, subscription, now))) {
+        reset++;
+      }
+    } catch (error) {
+      console.error(`❌ Failed to reset credits for user ${user.id}:`, error);
+    }
+  }
+  return reset;
+}
+
+// Grant a subscriber's credits as soon as the billing provider reports a new period, instead of waiting
+// for the scheduler. Does nothing when the period's credits were already granted.
+export async function startSubscriptionCreditPeriod(userId: string): Promise<User | undefined> {
+  const [user, subscription] = await Promise.all([storage.getUser(userId), storage.getUserSubscription(userId)]);
+  if (!user || user.role === "admin" || subscription?.status !== "active" || !subscription.currentPeriodStart) {
+    return undefined;
+  }
+  return storage.resetMonthlyCredits(user.id, creditPeriodGrant(await loadCreditPlans(), user, subscription, new Date()));
+}
+
+export function startCreditResetScheduler(): void {
+  const run = () => resetDueCredits()
+    .then(count => {
+      if (count > 0) console.log(`💳 Started a new credit period for ${count} user(s)`);
+    })
+    .catch(error => console.error("❌ Credit reset failed:", error));
+
+  run();
+  setInterval(run, RESET_INTERVAL_MS).unref();
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { creditLedger, creditReservations, users, type User } from "@shared/schema";
+
+vi.mock("./db", async () => (await import("./testDatabase")).createTestDatabase());
+
+const { db } = await import("./db");
+const { storage } = await import("./storage");
+const { holdCredits, releaseExpiredCreditReservations, withCredits } = await import("./credits");
+
+let userCount = 0;
+
+async function createUser(credits: number, role = "free"): Promise<User> {
+  userCount++;
+  const [user] = await db
+    .insert(users)
+    .values({ username: `user${userCount}`, email: `user${userCount}@example.com`, password: "unused", role, credits: 0 })
+    .returning();
+  return credits > 0 ? (await storage.grantCredits(user.id, credits, "signup"))! : user;
+}
+
+async function balance(userId: string): Promise<number> {
+  return (await storage.getUser(userId))!.credits;
+}
+
+async function ledger(userId: string) {
+  return db.select().from(creditLedger).where(eq(creditLedger.userId, userId)).orderBy(creditLedger.createdAt);
+}
+
+async function reservation(id: string) {
+  const [row] = await db.select().from(creditReservations).where(eq(creditReservations.id, id));
+  return row;
+}
+
+// users.credits must always equal the sum of the user's ledger
+async function expectLedgerMatchesBalance(userId: string) {
+  const entries = await ledger(userId);
+  expect(entries.reduce((total, entry) => total + entry.amount, 0)).toBe(await balance(userId));
+  expect(entries[entries.length - 1]?.balanceAfter ?? 0).toBe(await balance(userId));
+}
+
+describe("withCredits", () => {
+  it("keeps the credits spent when the work succeeds", async () => {
+    const user = await createUser(5);
+
+    const outcome = await withCredits(user, { action: "generate_chapter", amount: 2 }, async () => "written");
+
+    expect(outcome).toEqual({ result: "written" });
+    expect(await balance(user.id)).toBe(3);
+    const spend = (await ledger(user.id)).find(entry => entry.kind === "spend")!;
+    expect(spend.amount).toBe(-2);
+    expect((await reservation(spend.reservationId!)).status).toBe("captured");
+    await expectLedgerMatchesBalance(user.id);
+  });
+
+  it("refunds the credits when the work throws", async () => {
+    const user = await createUser(5);
+
+    await expect(withCredits(user, { action: "generate_chapter", amount: 2 }, async () => {
+      throw new Error("provider down");
+    })).rejects.toThrow("provider down");
+
+    expect(await balance(user.id)).toBe(5);
+    const refund = (await ledger(user.id)).find(entry => entry.kind === "refund")!;
+    expect(refund.amount).toBe(2);
+    expect(refund.metadata).toEqual({ reason: "provider down" });
+    expect((await reservation(refund.reservationId!)).status).toBe("released");
+    await expectLedgerMatchesBalance(user.id);
+  });
+
+  it("does not run the work when the balance does not cover it", async () => {
+    const user = await createUser(1);
+    const work = vi.fn(async () => "written");
+
+    const outcome = await withCredits(user, { action: "generate_chapter", amount: 2 }, work);
+
+    expect(outcome).toEqual({ insufficient: { required: 2, available: 1 } });
+    expect(work).not.toHaveBeenCalled();
+    expect(await balance(user.id)).toBe(1);
+  });
+
+  it("never charges admins", async () => {
+    const admin = await createUser(0, "admin");
+
+    const outcome = await withCredits(admin, { action: "generate_chapter", amount: 3 }, async () => "written");
+
+    expect(outcome).toEqual({ result: "written" });
+    expect(await ledger(admin.id)).toEqual([]);
+  });
+});
+
+describe("credit reservations", () => {
+  it("settles a hold only once", async () => {
+    const user = await createUser(5);
+    const { reservation: held } = await holdCredits(user, { action: "generate_book", amount: 4 });
+
+    expect(await storage.captureCreditReservation(held!.id)).toBeDefined();
+    expect(await storage.releaseCreditReservation(held!.id, "too late")).toBeUndefined();
+    expect(await storage.captureCreditReservation(held!.id)).toBeUndefined();
+
+    expect(await balance(user.id)).toBe(1);
+    await expectLedgerMatchesBalance(user.id);
+  });
+
+  it("cannot hold more than the balance", async () => {
+    const user = await createUser(3);
+
+    expect(await holdCredits(user, { action: "generate_book", amount: 4 })).toEqual({ insufficient: { required: 4, available: 3 } });
+    expect(await ledger(user.id)).toHaveLength(1);
+  });
+
+  it("refunds holds that outlived their expiry", async () => {
+    const user = await createUser(5);
+    const { reservation: held } = await holdCredits(user, { action: "generate_book", amount: 4 });
+
+    expect(await releaseExpiredCreditReservations(new Date())).toBe(0);
+    expect(await releaseExpiredCreditReservations(new Date(held!.expiresAt.getTime() + 1))).toBeGreaterThanOrEqual(1);
+
+    expect((await reservation(held!.id)).status).toBe("released");
+    expect(await balance(user.id)).toBe(5);
+    await expectLedgerMatchesBalance(user.id);
+  });
+
+  it("keeps an extended hold past its original expiry", async () => {
+    const user = await createUser(5);
+    const { reservation: held } = await holdCredits(user, { action: "generate_book", amount: 4 });
+    const later = new Date(held!.expiresAt.getTime() + 60 * 60 * 1000);
+
+    await storage.extendCreditReservation(held!.id, later);
+    await releaseExpiredCreditReservations(new Date(held!.expiresAt.getTime() + 1));
+
+    expect((await reservation(held!.id)).status).toBe("held");
+    expect(await balance(user.id)).toBe(1);
+  });
+});
+
+describe("period resets", () => {
+  const period = (periodStart: Date) => ({ plan: "free", periodStart, credits: 10, bonusCredits: 0, maxRollover: 5 });
+
+  it("does not refund held credits the rollover cap would have expired", async () => {
+    const user = await createUser(10);
+    const { reservation: held } = await holdCredits(user, { action: "generate_book", amount: 4 });
+
+    // 6 left: 5 roll over, 1 expires, and the 4 held have no room left under the cap
+    await storage.resetMonthlyCredits(user.id, period(new Date(Date.now() + 1000)));
+    expect(await balance(user.id)).toBe(15);
+
+    await storage.releaseCreditReservation(held!.id, "job failed");
+    expect(await balance(user.id)).toBe(15);
+    await expectLedgerMatchesBalance(user.id);
+  });
+
+  it("refunds held credits into the room the rollover cap leaves", async () => {
+    const user = await createUser(4);
+    const first = await holdCredits(user, { action: "generate_chapter", amount: 2 });
+    const second = await holdCredits(user, { action: "generate_chapter", amount: 2 });
+
+    // Everything is held, so the cap leaves room for 3 of the 4 held credits, oldest hold first
+    await storage.resetMonthlyCredits(user.id, { ...period(new Date(Date.now() + 1000)), maxRollover: 3 });
+    expect(await balance(user.id)).toBe(10);
+
+    await storage.releaseCreditReservation(first.reservation!.id, "job failed");
+    await storage.releaseCreditReservation(second.reservation!.id, "job failed");
+    expect(await balance(user.id)).toBe(13);
+
+    const refunds = (await ledger(user.id)).filter(entry => entry.kind === "refund");
+    expect(refunds.map(entry => entry.amount)).toEqual([2, 1]);
+    expect(refunds[1].metadata).toEqual({ reason: "job failed", expiredAtPeriodReset: 1 });
+    await expectLedgerMatchesBalance(user.id);
+  });
+
+  it("refunds holds released in the same period in full", async () => {
+    const user = await createUser(10);
+    const { reservation: held } = await holdCredits(user, { action: "generate_book", amount: 4 });
+
+    await storage.releaseCreditReservation(held!.id, "job failed");
+
+    expect(await balance(user.id)).toBe(10);
+  });
+});
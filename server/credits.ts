@@ -0,0 +1,166 @@
+import { CREDIT_ACTIONS, creditPricingSchema, type CreditAction, type CreditHistoryEntry, type CreditPricing, type CreditReservation, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { currentPlanId } from "./creditPlans";
+
+// Operations that cost credits hold them before the work starts, so two requests racing for the
+// last credit cannot both run, and give them back when the work fails.
+
+// Longer than any single AI call; a hold still open after this was left by a server that stopped mid-call
+const RESERVATION_TTL_MS = 30 * 60 * 1000;
+// Background jobs write many chapters in turn, retrying failures, so their holds last much longer
+const BACKGROUND_RESERVATION_TTL_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export const CREDIT_PRICING_CONFIG_KEY = "credit_pricing";
+
+// Every action costs one credit, and a whole-book job five, until an admin saves a pricing table
+export const DEFAULT_CREDIT_PRICING: CreditPricing = {
+  create_book: { cost: 1, plans: {} },
+  import_book: { cost: 1, plans: {} },
+  generate_outline: { cost: 1, plans: {} },
+  generate_chapter: { cost: 1, plans: {} },
+  generate_book: { cost: 5, plans: {} },
+};
+
+// Read at call time so saved prices apply to the next operation; a broken config falls back to the defaults
+export async function loadCreditPricing(): Promise<CreditPricing> {
+  try {
+    const config = await storage.getAdminConfig(CREDIT_PRICING_CONFIG_KEY);
+    if (!config) return DEFAULT_CREDIT_PRICING;
+    // Actions added since the table was saved take their default price
+    const parsed = creditPricingSchema.safeParse({ ...DEFAULT_CREDIT_PRICING, ...(config.configValue as object) });
+    if (parsed.success) return parsed.data;
+    console.error("Invalid credit pricing config, using the default prices:", parsed.error.errors);
+  } catch (error) {
+    console.error("Failed to load credit pricing, using the default prices:", error);
+  }
+  return DEFAULT_CREDIT_PRICING;
+}
+
+// What each action costs this user, on their current plan. Admins are never charged.
+export async function creditCosts(user: User): Promise<Record<CreditAction, number>> {
+  const costs = Object.fromEntries(CREDIT_ACTIONS.map(action => [action, 0])) as Record<CreditAction, number>;
+  if (user.role === "admin") return costs;
+
+  const [pricing, plan] = await Promise.all([loadCreditPricing(), currentPlanId(user.id)]);
+  for (const action of CREDIT_ACTIONS) {
+    costs[action] = pricing[action].plans[plan] ?? pricing[action].cost;
+  }
+  return costs;
+}
+
+export async function creditCost(user: User, action: CreditAction): Promise<number> {
+  return (await creditCosts(user))[action];
+}
+
+export interface InsufficientCredits {
+  required: number;
+  available: number;
+}
+
+// Runs work with the credits held: they stay spent when it succeeds and are refunded when it throws.
+// Admins and free actions are never charged. When the balance does not cover the charge, work does not run.
+export async function withCredits<T>(
+  user: User,
+  charge: { amount: number; action: CreditAction; bookId?: string },
+  work: () => Promise<T>
+): Promise<{ result?: T; insufficient?: InsufficientCredits }> {
+  const amount = charge.amount;
+  if (user.role === "admin" || amount <= 0) {
+    return { result: await work() };
+  }
+
+  const reservation = await storage.reserveCredits({
+    userId: user.id,
+    amount,
+    action: charge.action,
+    bookId: charge.bookId,
+    expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+  });
+  if (!reservation) {
+    const current = await storage.getUser(user.id);
+    return { insufficient: { required: amount, available: current?.credits ?? 0 } };
+  }
+
+  let result: T;
+  try {
+    result = await work();
+  } catch (error) {
+    await storage.releaseCreditReservation(reservation.id, error instanceof Error ? error.message : String(error))
+      .catch(releaseError => console.error("❌ Failed to refund credits:", releaseError));
+    throw error;
+  }
+  await storage.captureCreditReservation(reservation.id);
+  return { result };
+}
+
+// Holds a charge for work that carries on after the request returns, such as a whole-book job. The
+// caller settles the hold when the work ends; one the server never settles is refunded by the sweep.
+// Admins and free actions get no hold.
+export async function holdCredits(
+  user: User,
+  charge: { amount: number; action: CreditAction; bookId?: string }
+): Promise<{ reservation?: CreditReservation; insufficient?: InsufficientCredits }> {
+  if (user.role === "admin" || charge.amount <= 0) return {};
+
+  const reservation = await storage.reserveCredits({
+    userId: user.id,
+    amount: charge.amount,
+    action: charge.action,
+    bookId: charge.bookId,
+    expiresAt: new Date(Date.now() + BACKGROUND_RESERVATION_TTL_MS),
+  });
+  if (!reservation) {
+    const current = await storage.getUser(user.id);
+    return { insufficient: { required: charge.amount, available: current?.credits ?? 0 } };
+  }
+  return { reservation };
+}
+
+// Keeps a background hold alive while its work is still making progress
+export async function renewCreditHold(reservationId: string): Promise<void> {
+  await storage.extendCreditReservation(reservationId, new Date(Date.now() + BACKGROUND_RESERVATION_TTL_MS));
+}
+
+export async function releaseExpiredCreditReservations(now: Date = new Date()): Promise<number> {
+  const expired = await storage.getExpiredCreditReservations(now);
+  let released = 0;
+  for (const reservation of expired) {
+    if (await storage.releaseCreditReservation(reservation.id, "Reservation expired before the operation finished")) {
+      released++;
+    }
+  }
+  return released;
+}
+
+export function startCreditReservationSweep(): void {
+  const run = () => releaseExpiredCreditReservations()
+    .then(count => {
+      if (count > 0) console.log(`💳 Refunded ${count} expired credit reservation(s)`);
+    })
+    .catch(error => console.error("❌ Credit reservation sweep failed:", error));
+
+  run();
+  setInterval(run, SWEEP_INTERVAL_MS).unref();
+}
+
+// Statement exports never hold more rows than this; older history stays on the usage page
+export const MAX_STATEMENT_ROWS = 10000;
+
+// Quotes every text field, and defuses values a spreadsheet would run as a formula (book titles are user input)
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function creditStatementCsv(entries: CreditHistoryEntry[]): string {
+  const rows = entries.map(entry => [
+    csvField(entry.createdAt.toISOString()),
+    csvField(entry.kind),
+    csvField(entry.action),
+    csvField(entry.bookTitle ?? ""),
+    String(entry.amount),
+    String(entry.balanceAfter),
+  ].join(","));
+  return ["Date,Type,Action,Book,Credits,Balance After", ...rows].join("\r\n") + "\r\n";
+}
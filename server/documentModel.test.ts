@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { inlineText, parseMarkdown, renderXhtml } from './documentModel';
+
+describe('renderXhtml', () => {
+  it('renders markdown structure as XHTML', () => {
+    expect(renderXhtml(parseMarkdown('## Start\n\nSome **bold** and *quiet* words.'))).toBe(
+      '<h2>Start</h2>\n<p>Some <strong>bold</strong> and <em>quiet</em> words.</p>'
+    );
+  });
+
+  it('escapes text that only looks like HTML instead of dropping it', () => {
+    const xhtml = renderXhtml(parseMarkdown('For <you> & "them"\n\n<div>raw block</div>'));
+
+    expect(xhtml).toContain('For &lt;you&gt; &amp; &quot;them&quot;');
+    expect(xhtml).toContain('&lt;div&gt;raw block&lt;/div&gt;');
+    expect(xhtml).not.toContain('<div>');
+    expect(xhtml).not.toContain('<you>');
+  });
+
+  it('keeps links only when a reader can follow them safely', () => {
+    const xhtml = renderXhtml(parseMarkdown('[safe](https://example.com) and [unsafe](javascript:alert(1))'));
+
+    expect(xhtml).toContain('href="https://example.com"');
+    expect(xhtml).not.toContain('javascript:');
+    expect(xhtml).toContain('unsafe');
+  });
+});
+
+describe('inlineText', () => {
+  it('keeps inline HTML as plain text', () => {
+    const [paragraph] = parseMarkdown('Press <kbd>Enter</kbd> now');
+
+    expect(paragraph.type === 'paragraph' && inlineText(paragraph.children)).toBe('Press <kbd>Enter</kbd> now');
+  });
+});
@@ -0,0 +1,468 @@
+import { marked, type MarkedToken, type Token } from 'marked';
+import {
+  AlignmentType,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type INumberingOptions,
+  type IStylesOptions,
+} from 'docx';
+
+// Format-neutral model of chapter content. Markdown is parsed into it once and every
+// exporter renders from it, so headings, emphasis and lists come out the same everywhere.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: Inline[] }
+  | { type: 'emphasis'; children: Inline[] }
+  | { type: 'strikethrough'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'table'; align: Array<'left' | 'center' | 'right' | null>; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+export function parseMarkdown(markdown: string): Block[] {
+  return toBlocks(marked.lexer(markdown || ''));
+}
+
+function toBlocks(tokens: Token[]): Block[] {
+  const blocks: Block[] = [];
+  for (const token of tokens as MarkedToken[]) {
+    switch (token.type) {
+      case 'heading':
+        blocks.push({ type: 'heading', level: token.depth, children: toInlines(token.tokens) });
+        break;
+      case 'paragraph':
+        blocks.push({ type: 'paragraph', children: toInlines(token.tokens) });
+        break;
+      case 'text':
+        // Tight list items hold bare text tokens instead of paragraphs
+        blocks.push({ type: 'paragraph', children: token.tokens ? toInlines(token.tokens) : [{ type: 'text', text: token.text }] });
+        break;
+      case 'list':
+        blocks.push({
+          type: 'list',
+          ordered: token.ordered,
+          start: typeof token.start === 'number' ? token.start : 1,
+          items: token.items.map(item => toBlocks(item.tokens)),
+        });
+        break;
+      case 'blockquote':
+        blocks.push({ type: 'blockquote', children: toBlocks(token.tokens) });
+        break;
+      case 'table':
+        blocks.push({
+          type: 'table',
+          align: token.align,
+          header: token.header.map(cell => toInlines(cell.tokens)),
+          rows: token.rows.map(row => row.map(cell => toInlines(cell.tokens))),
+        });
+        break;
+      case 'code':
+        blocks.push({ type: 'code', text: token.text });
+        break;
+      case 'hr':
+        blocks.push({ type: 'rule' });
+        break;
+      case 'html': {
+        // Raw HTML is not trusted into the output, and text like "For <you>" only looks like it,
+        // so it is kept as plain text for the renderers to escape
+        const text = token.text.trim();
+        if (text) blocks.push({ type: 'paragraph', children: [{ type: 'text', text }] });
+        break;
+      }
+    }
+  }
+  return blocks;
+}
+
+function toInlines(tokens: Token[] = []): Inline[] {
+  const inlines: Inline[] = [];
+  for (const token of tokens as MarkedToken[]) {
+    switch (token.type) {
+      case 'text':
+        if (token.tokens && token.tokens.length > 0) {
+          inlines.push(...toInlines(token.tokens));
+        } else {
+          inlines.push({ type: 'text', text: decodeEntities(token.text) });
+        }
+        break;
+      case 'escape':
+        inlines.push({ type: 'text', text: decodeEntities(token.text) });
+        break;
+      case 'strong':
+        inlines.push({ type: 'strong', children: toInlines(token.tokens) });
+        break;
+      case 'em':
+        inlines.push({ type: 'emphasis', children: toInlines(token.tokens) });
+        break;
+      case 'del':
+        inlines.push({ type: 'strikethrough', children: toInlines(token.tokens) });
+        break;
+      case 'codespan':
+        inlines.push({ type: 'code', text: decodeEntities(token.text) });
+        break;
+      case 'link':
+        inlines.push({ type: 'link', href: token.href, children: toInlines(token.tokens) });
+        break;
+      case 'image':
+        inlines.push({ type: 'image', src: token.href, alt: decodeEntities(token.text) });
+        break;
+      case 'br':
+        inlines.push({ type: 'break' });
+        break;
+      case 'html':
+        inlines.push({ type: 'text', text: token.text });
+        break;
+    }
+  }
+  return inlines;
+}
+
+// marked leaves a few characters entity-encoded in text tokens
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+export function inlineText(inlines: Inline[]): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text':
+      case 'code':
+        return inline.text;
+      case 'image':
+        return inline.alt;
+      case 'break':
+        return ' ';
+      default:
+        return inlineText(inline.children);
+    }
+  }).join('');
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Only links a reader can follow safely survive into the output
+function safeHref(href: string): string | null {
+  return /^(https?:|mailto:|#)/i.test(href.trim()) ? href.trim() : null;
+}
+
+// Every image in the content, in reading order
+export function collectImages(blocks: Block[]): Array<{ src: string; alt: string }> {
+  const images: Array<{ src: string; alt: string }> = [];
+  const visitInlines = (inlines: Inline[]) => inlines.forEach(inline => {
+    if (inline.type === 'image') images.push({ src: inline.src, alt: inline.alt });
+    else if ('children' in inline) visitInlines(inline.children);
+  });
+  const visitBlocks = (list: Block[]) => list.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        visitInlines(block.children);
+        break;
+      case 'list':
+        block.items.forEach(visitBlocks);
+        break;
+      case 'blockquote':
+        visitBlocks(block.children);
+        break;
+      case 'table':
+        block.header.forEach(visitInlines);
+        block.rows.forEach(row => row.forEach(visitInlines));
+        break;
+    }
+  });
+  visitBlocks(blocks);
+  return images;
+}
+
+// Every image source referenced in the content, in order of first appearance
+export function collectImageSources(blocks: Block[]): string[] {
+  return Array.from(new Set(collectImages(blocks).map(image => image.src)));
+}
+
+export interface XhtmlOptions {
+  // Maps an image source to the URL written into the output; null drops the image and keeps its alt text
+  resolveImage?: (src: string) => string | null;
+}
+
+const defaultXhtmlOptions: Required<XhtmlOptions> = {
+  resolveImage: src => /^(https?:|data:image\/)/i.test(src.trim()) ? src.trim() : null,
+};
+
+// XHTML (valid for EPUB content documents and for plain HTML). Chapter titles are <h1>,
+// so content headings start at <h2>.
+export function renderXhtml(blocks: Block[], options: XhtmlOptions = {}): string {
+  const resolved = { ...defaultXhtmlOptions, ...options };
+  return blocks.map(block => renderXhtmlBlock(block, resolved)).join('\n');
+}
+
+function renderXhtmlBlock(block: Block, options: Required<XhtmlOptions>): string {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(Math.max(block.level, 2), 6);
+      return `<h${level}>${renderXhtmlInlines(block.children, options)}</h${level}>`;
+    }
+    case 'paragraph':
+      return `<p>${renderXhtmlInlines(block.children, options)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      const items = block.items.map(item => `<li>${renderXhtml(item, options)}</li>`).join('\n');
+      return `<${tag}${start}>\n${items}\n</${tag}>`;
+    }
+    case 'blockquote':
+      return `<blockquote>\n${renderXhtml(block.children, options)}\n</blockquote>`;
+    case 'table': {
+      const cell = (tag: 'th' | 'td', content: Inline[], index: number) => {
+        const align = block.align[index];
+        return `<${tag}${align ? ` style="text-align: ${align}"` : ''}>${renderXhtmlInlines(content, options)}</${tag}>`;
+      };
+      const header = `<tr>${block.header.map((content, index) => cell('th', content, index)).join('')}</tr>`;
+      const rows = block.rows.map(row => `<tr>${row.map((content, index) => cell('td', content, index)).join('')}</tr>`).join('\n');
+      return `<table>\n<thead>${header}</thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+    }
+    case 'code':
+      return `<pre><code>${escapeXml(block.text)}</code></pre>`;
+    case 'rule':
+      return '<hr/>';
+  }
+}
+
+function renderXhtmlInlines(inlines: Inline[], options: Required<XhtmlOptions>): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text':
+        return escapeXml(inline.text);
+      case 'strong':
+        return `<strong>${renderXhtmlInlines(inline.children, options)}</strong>`;
+      case 'emphasis':
+        return `<em>${renderXhtmlInlines(inline.children, options)}</em>`;
+      case 'strikethrough':
+        return `<del>${renderXhtmlInlines(inline.children, options)}</del>`;
+      case 'code':
+        return `<code>${escapeXml(inline.text)}</code>`;
+      case 'link': {
+        const href = safeHref(inline.href);
+        const text = renderXhtmlInlines(inline.children, options);
+        return href ? `<a href="${escapeXml(href)}">${text}</a>` : text;
+      }
+      case 'image': {
+        const src = options.resolveImage(inline.src);
+        return src ? `<img src="${escapeXml(src)}" alt="${escapeXml(inline.alt)}"/>` : escapeXml(inline.alt);
+      }
+      case 'break':
+        return '<br/>';
+    }
+  }).join('');
+}
+
+// DOCX: pass these to the Document so the paragraph styles and list numbering below resolve
+export const DOCX_NUMBERING: INumberingOptions = {
+  config: [
+    {
+      reference: 'ordered-list',
+      levels: [0, 1, 2].map(level => ({
+        level,
+        format: LevelFormat.DECIMAL,
+        text: `%${level + 1}.`,
+        alignment: AlignmentType.START,
+        style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+      })),
+    },
+  ],
+};
+
+export const DOCX_STYLES: IStylesOptions = {
+  paragraphStyles: [
+    {
+      id: 'BlockQuote',
+      name: 'Block Quote',
+      basedOn: 'Normal',
+      next: 'Normal',
+      run: { italics: true, color: '555555' },
+      paragraph: { indent: { left: 720, right: 720 }, spacing: { before: 120, after: 120 } },
+    },
+    {
+      id: 'CodeBlock',
+      name: 'Code Block',
+      basedOn: 'Normal',
+      next: 'Normal',
+      run: { font: 'Courier New', size: 18 },
+      paragraph: { spacing: { before: 0, after: 0 } },
+    },
+  ],
+};
+
+const DOCX_HEADINGS = [HeadingLevel.HEADING_2, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6];
+
+// An image ready for Word: one of the formats it reads, with the size it is shown at in pixels
+export interface DocxImage {
+  type: 'jpg' | 'png' | 'gif' | 'bmp';
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface DocxOptions {
+  // Images keyed by their source; anything missing is replaced by its alt text
+  images?: ReadonlyMap<string, DocxImage>;
+}
+
+interface DocxContext {
+  listLevel: number;
+  quote: boolean;
+  // Every ordered list gets its own numbering instance so it restarts at 1
+  nextListInstance: { value: number };
+  images: ReadonlyMap<string, DocxImage>;
+}
+
+// Chapter titles are Heading 1, so content headings start at Heading 2
+export function renderDocx(blocks: Block[], options: DocxOptions = {}): Array<Paragraph | Table> {
+  return renderDocxBlocks(blocks, { listLevel: -1, quote: false, nextListInstance: { value: 1 }, images: options.images ?? new Map() });
+}
+
+function renderDocxBlocks(blocks: Block[], context: DocxContext): Array<Paragraph | Table> {
+  return blocks.flatMap(block => renderDocxBlock(block, context));
+}
+
+function renderDocxBlock(block: Block, context: DocxContext): Array<Paragraph | Table> {
+  switch (block.type) {
+    case 'heading':
+      return [new Paragraph({
+        heading: DOCX_HEADINGS[Math.min(block.level, 6) - 1],
+        children: renderDocxInlines(block.children, {}, context.images),
+      })];
+    case 'paragraph':
+      return [new Paragraph({
+        style: context.quote ? 'BlockQuote' : undefined,
+        children: renderDocxInlines(block.children, {}, context.images),
+        spacing: { after: 160 },
+      })];
+    case 'list': {
+      const level = Math.min(context.listLevel + 1, 2);
+      const instance = block.ordered ? context.nextListInstance.value++ : 0;
+      return block.items.flatMap(item => item.flatMap((child, index) => {
+        // The first paragraph of an item carries the bullet or number; the rest are indented under it
+        if (index === 0 && child.type === 'paragraph') {
+          return [new Paragraph({
+            children: renderDocxInlines(child.children, {}, context.images),
+            ...(block.ordered
+              ? { numbering: { reference: 'ordered-list', level, instance } }
+              : { bullet: { level } }),
+          })];
+        }
+        return renderDocxBlock(child, { ...context, listLevel: level });
+      }));
+    }
+    case 'blockquote':
+      return renderDocxBlocks(block.children, { ...context, quote: true });
+    case 'table': {
+      const row = (cells: Inline[][], header: boolean) => new TableRow({
+        tableHeader: header,
+        children: cells.map((content, index) => new TableCell({
+          children: [new Paragraph({
+            alignment: block.align[index] === 'center' ? AlignmentType.CENTER : block.align[index] === 'right' ? AlignmentType.RIGHT : AlignmentType.LEFT,
+            children: renderDocxInlines(content, { bold: header }, context.images),
+          })],
+        })),
+      });
+      return [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [row(block.header, true), ...block.rows.map(cells => row(cells, false))],
+        }),
+        new Paragraph({ text: '' }),
+      ];
+    }
+    case 'code':
+      return block.text.split('\n').map(line => new Paragraph({ style: 'CodeBlock', children: [new TextRun(line)] }));
+    case 'rule':
+      return [new Paragraph({ text: '* * *', alignment: AlignmentType.CENTER })];
+  }
+}
+
+interface RunFormat {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  code?: boolean;
+}
+
+function renderDocxInlines(inlines: Inline[], format: RunFormat, images: ReadonlyMap<string, DocxImage>): Array<TextRun | ExternalHyperlink | ImageRun> {
+  return inlines.flatMap((inline): Array<TextRun | ExternalHyperlink | ImageRun> => {
+    const run = (text: string, extra: RunFormat = {}) => {
+      const style = { ...format, ...extra };
+      return new TextRun({
+        text,
+        bold: style.bold,
+        italics: style.italics,
+        strike: style.strike,
+        font: style.code ? 'Courier New' : undefined,
+      });
+    };
+
+    switch (inline.type) {
+      case 'text':
+        return [run(inline.text)];
+      case 'strong':
+        return renderDocxInlines(inline.children, { ...format, bold: true }, images);
+      case 'emphasis':
+        return renderDocxInlines(inline.children, { ...format, italics: true }, images);
+      case 'strikethrough':
+        return renderDocxInlines(inline.children, { ...format, strike: true }, images);
+      case 'code':
+        return [run(inline.text, { code: true })];
+      case 'image': {
+        const image = images.get(inline.src);
+        if (!image) return inline.alt ? [run(inline.alt, { italics: true })] : [];
+        return [new ImageRun({
+          type: image.type,
+          data: image.data,
+          transformation: { width: image.width, height: image.height },
+          altText: { name: inline.alt || 'Image', description: inline.alt, title: inline.alt },
+        })];
+      }
+      case 'break':
+        return [new TextRun({ text: '', break: 1 })];
+      case 'link': {
+        const href = safeHref(inline.href);
+        if (!href || href.startsWith('#')) {
+          return renderDocxInlines(inline.children, format, images);
+        }
+        return [new ExternalHyperlink({
+          link: href,
+          children: [new TextRun({ text: inlineText(inline.children), style: 'Hyperlink', bold: format.bold, italics: format.italics })],
+        })];
+      }
+    }
+  });
+}
@@ -0,0 +1,70 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { detectImageMediaType, validateEpub } from './epubValidator';
+
+// Books without uploaded images never reach storage, which needs a database to load
+vi.mock('./storage', () => ({ storage: {} }));
+
+const { exportToEPUB } = await import('./exportGenerator');
+
+let outputDir: string;
+
+beforeAll(async () => {
+  outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'epub-test-'));
+});
+
+afterAll(async () => {
+  await fs.rm(outputDir, { recursive: true, force: true });
+});
+
+async function exportedEpub(): Promise<Buffer> {
+  const { fileName, issues } = await exportToEPUB({
+    id: '5f2b8a3e-9c41-4d7a-8e0f-1b2c3d4e5f60',
+    title: 'Tom & <Jerry>',
+    author: 'A. "Quoted" Author',
+    description: 'A book',
+    chapters: [
+      { id: 'one', title: 'One <first>', content: 'Some **text** with <angle> brackets.' },
+      { id: 'two', title: 'Two', content: '## Part\n\n- a list\n- of items' },
+    ],
+    selectedTemplate: 'original',
+  }, undefined, outputDir);
+  expect(issues).toEqual([]);
+  return fs.readFile(path.join(outputDir, fileName!));
+}
+
+describe('validateEpub', () => {
+  it('finds nothing wrong with an exported book, even with markup-like text', async () => {
+    expect(await validateEpub(await exportedEpub())).toEqual([]);
+  });
+
+  it('rejects a file that is not a ZIP archive', async () => {
+    expect(await validateEpub(Buffer.from('not an epub'))).toContainEqual(
+      { severity: 'error', message: 'The file is not a readable ZIP archive' }
+    );
+  });
+
+  it('reports a compressed mimetype entry and a chapter that is not well-formed', async () => {
+    const zip = await JSZip.loadAsync(await exportedEpub());
+    const chapterPath = Object.keys(zip.files).find(name => name.endsWith('.xhtml') && name.includes('chapter'))!;
+    zip.file(chapterPath, (await zip.file(chapterPath)!.async('string')).replace('</body>', '<p>unclosed</body>'));
+    const broken = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    const issues = await validateEpub(broken);
+
+    expect(issues).toContainEqual({ severity: 'error', path: 'mimetype', message: 'The mimetype file must be stored without compression' });
+    expect(issues.some(issue => issue.path === chapterPath && issue.message.startsWith('Not well-formed XML'))).toBe(true);
+  });
+});
+
+describe('detectImageMediaType', () => {
+  it('reads the media type from the bytes, not the name', () => {
+    expect(detectImageMediaType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectImageMediaType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(detectImageMediaType(Buffer.from('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('image/svg+xml');
+    expect(detectImageMediaType(Buffer.from('<html><body>not an image</body></html>'))).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import type { ExportIssue } from '@shared/schema';
+
+// Structural checks modelled on what epubcheck rejects most often, run on the finished file
+// so problems are reported before anyone downloads it.
+
+const EPUB_MIMETYPE = 'application/epub+zip';
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+const EXTENSION_MEDIA_TYPES: Record<string, string> = {
+  '.xhtml': 'application/xhtml+xml',
+  '.css': 'text/css',
+  '.ncx': 'application/x-dtbncx+xml',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+// Media type from the file's own bytes; servers and file names are not reliable about it
+export function detectImageMediaType(data: Uint8Array): string | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.length >= 8 && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'image/png';
+  const head = Buffer.from(data.subarray(0, 256)).toString('latin1');
+  if (head.startsWith('GIF87a') || head.startsWith('GIF89a')) return 'image/gif';
+  if (head.startsWith('RIFF') && head.slice(8, 12) === 'WEBP') return 'image/webp';
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(head)) return 'image/svg+xml';
+  return null;
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: false,
+  isArray: name => ['item', 'itemref', 'rootfile', 'dc:identifier', 'dc:title', 'dc:language', 'meta'].includes(name),
+});
+
+function wellFormed(xml: string, filePath: string, issues: ExportIssue[]): boolean {
+  const result = XMLValidator.validate(xml);
+  if (result !== true) {
+    issues.push({ severity: 'error', path: filePath, message: `Not well-formed XML (line ${result.err.line}): ${result.err.msg}` });
+    return false;
+  }
+  return true;
+}
+
+function textOf(node: unknown): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'object') return String((node as Record<string, unknown>)['#text'] ?? '');
+  return String(node);
+}
+
+// Reads the first local file header directly: the mimetype entry must come first and be stored uncompressed
+function checkMimetypeEntry(buffer: Buffer, issues: ExportIssue[]) {
+  const isLocalHeader = buffer.length > 30 && buffer.readUInt32LE(0) === 0x04034b50;
+  const nameLength = isLocalHeader ? buffer.readUInt16LE(26) : 0;
+  const extraLength = isLocalHeader ? buffer.readUInt16LE(28) : 0;
+  const name = isLocalHeader ? buffer.toString('latin1', 30, 30 + nameLength) : '';
+  if (name !== 'mimetype') {
+    issues.push({ severity: 'error', path: 'mimetype', message: 'The mimetype file must be the first entry in the archive' });
+    return;
+  }
+  if (buffer.readUInt16LE(8) !== 0) {
+    issues.push({ severity: 'error', path: 'mimetype', message: 'The mimetype file must be stored without compression' });
+  }
+  if (extraLength !== 0) {
+    issues.push({ severity: 'warning', path: 'mimetype', message: 'The mimetype entry should not carry extra header fields' });
+  }
+  const contentStart = 30 + nameLength + extraLength;
+  const content = buffer.toString('latin1', contentStart, contentStart + buffer.readUInt32LE(18));
+  if (content !== EPUB_MIMETYPE) {
+    issues.push({ severity: 'error', path: 'mimetype', message: `The mimetype file must contain exactly "${EPUB_MIMETYPE}"` });
+  }
+}
+
+export async function validateEpub(buffer: Buffer): Promise<ExportIssue[]> {
+  const issues: ExportIssue[] = [];
+  checkMimetypeEntry(buffer, issues);
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error) {
+    issues.push({ severity: 'error', message: 'The file is not a readable ZIP archive' });
+    return issues;
+  }
+  const files = Object.values(zip.files).filter(file => !file.dir).map(file => file.name);
+  const read = (name: string) => zip.file(name)!.async('string');
+
+  // Container
+  const containerPath = 'META-INF/container.xml';
+  if (!zip.file(containerPath)) {
+    issues.push({ severity: 'error', path: containerPath, message: 'Missing container.xml' });
+    return issues;
+  }
+  const containerXml = await read(containerPath);
+  if (!wellFormed(containerXml, containerPath, issues)) return issues;
+  const rootfiles = parser.parse(containerXml)?.container?.rootfiles?.rootfile || [];
+  const opfPath: string | undefined = rootfiles[0]?.['@_full-path'];
+  if (!opfPath || !zip.file(opfPath)) {
+    issues.push({ severity: 'error', path: containerPath, message: 'container.xml does not point to a package document in the archive' });
+    return issues;
+  }
+
+  // Package document
+  const opfXml = await read(opfPath);
+  if (!wellFormed(opfXml, opfPath, issues)) return issues;
+  const pkg = parser.parse(opfXml)?.package;
+  if (!pkg) {
+    issues.push({ severity: 'error', path: opfPath, message: 'The package document has no <package> root element' });
+    return issues;
+  }
+  if (pkg['@_version'] !== '3.0') {
+    issues.push({ severity: 'error', path: opfPath, message: `Package version is "${pkg['@_version']}", expected "3.0"` });
+  }
+
+  const metadata = pkg.metadata || {};
+  const identifiers: unknown[] = metadata['dc:identifier'] || [];
+  const uniqueIdentifier = pkg['@_unique-identifier'];
+  const primaryIdentifier = identifiers.find(identifier => (identifier as Record<string, unknown>)?.['@_id'] === uniqueIdentifier);
+  if (!primaryIdentifier || !textOf(primaryIdentifier).trim()) {
+    issues.push({ severity: 'error', path: opfPath, message: 'unique-identifier does not match a non-empty dc:identifier' });
+  } else if (!/^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(textOf(primaryIdentifier).trim())) {
+    issues.push({ severity: 'warning', path: opfPath, message: 'The book identifier is not a UUID URN' });
+  }
+  if (!(metadata['dc:title'] || []).some((title: unknown) => textOf(title).trim())) {
+    issues.push({ severity: 'error', path: opfPath, message: 'Missing dc:title' });
+  }
+  const language = textOf((metadata['dc:language'] || [])[0]).trim();
+  if (!language) {
+    issues.push({ severity: 'error', path: opfPath, message: 'Missing dc:language' });
+  } else if (!/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(language)) {
+    issues.push({ severity: 'error', path: opfPath, message: `dc:language "${language}" is not a BCP 47 language tag` });
+  }
+  const modified = (metadata.meta || []).find((meta: Record<string, unknown>) => meta['@_property'] === 'dcterms:modified');
+  if (!modified || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(textOf(modified).trim())) {
+    issues.push({ severity: 'error', path: opfPath, message: 'Missing or malformed dcterms:modified (expected CCYY-MM-DDThh:mm:ssZ)' });
+  }
+
+  // Manifest
+  const opfDir = path.posix.dirname(opfPath) === '.' ? '' : `${path.posix.dirname(opfPath)}/`;
+  const items: Array<Record<string, string>> = pkg.manifest?.item || [];
+  const itemsById = new Map<string, Record<string, string>>();
+  const manifestPaths = new Set<string>();
+  for (const item of items) {
+    const id = item['@_id'];
+    const href = item['@_href'];
+    const mediaType = item['@_media-type'];
+    if (!id || !href || !mediaType) {
+      issues.push({ severity: 'error', path: opfPath, message: 'A manifest item is missing id, href or media-type' });
+      continue;
+    }
+    if (itemsById.has(id)) {
+      issues.push({ severity: 'error', path: opfPath, message: `Duplicate manifest id "${id}"` });
+    }
+    itemsById.set(id, item);
+
+    const filePath = path.posix.normalize(opfDir + decodeURI(href));
+    manifestPaths.add(filePath);
+    const file = zip.file(filePath);
+    if (!file) {
+      issues.push({ severity: 'error', path: opfPath, message: `Manifest item "${id}" points to missing file ${href}` });
+      continue;
+    }
+
+    if (mediaType.startsWith('image/')) {
+      const actual = detectImageMediaType(await file.async('uint8array'));
+      if (!actual) {
+        issues.push({ severity: 'error', path: filePath, message: 'Image is not a format EPUB readers support (JPEG, PNG, GIF, WebP or SVG)' });
+      } else if (actual !== mediaType) {
+        issues.push({ severity: 'error', path: filePath, message: `Declared as ${mediaType} but the file is ${actual}` });
+      }
+    } else {
+      const expected = EXTENSION_MEDIA_TYPES[path.posix.extname(filePath).toLowerCase()];
+      if (expected && expected !== mediaType) {
+        issues.push({ severity: 'error', path: opfPath, message: `Manifest item "${id}" is declared as ${mediaType}, expected ${expected}` });
+      }
+    }
+  }
+
+  const navItems = items.filter(item => (item['@_properties'] || '').split(/\s+/).includes('nav'));
+  if (navItems.length !== 1) {
+    issues.push({ severity: 'error', path: opfPath, message: `Expected exactly one manifest item with properties="nav", found ${navItems.length}` });
+  }
+  const coverItems = items.filter(item => (item['@_properties'] || '').split(/\s+/).includes('cover-image'));
+  if (coverItems.length > 1) {
+    issues.push({ severity: 'error', path: opfPath, message: 'More than one cover-image item' });
+  }
+  for (const cover of coverItems) {
+    if (!IMAGE_MEDIA_TYPES.includes(cover['@_media-type'])) {
+      issues.push({ severity: 'error', path: opfPath, message: 'The cover-image item is not an image' });
+    }
+  }
+
+  for (const file of files) {
+    if (file === 'mimetype' || file.startsWith('META-INF/') || file === opfPath) continue;
+    if (!manifestPaths.has(file)) {
+      issues.push({ severity: 'error', path: file, message: 'File is in the archive but not declared in the manifest' });
+    }
+  }
+
+  // Spine
+  const itemrefs: Array<Record<string, string>> = pkg.spine?.itemref || [];
+  if (itemrefs.length === 0) {
+    issues.push({ severity: 'error', path: opfPath, message: 'The spine is empty' });
+  }
+  for (const itemref of itemrefs) {
+    const item = itemsById.get(itemref['@_idref']);
+    if (!item) {
+      issues.push({ severity: 'error', path: opfPath, message: `Spine references unknown manifest id "${itemref['@_idref']}"` });
+    } else if (item['@_media-type'] !== 'application/xhtml+xml') {
+      issues.push({ severity: 'error', path: opfPath, message: `Spine item "${itemref['@_idref']}" is not an XHTML content document` });
+    }
+  }
+  const ncxId = pkg.spine?.['@_toc'];
+  if (ncxId && itemsById.get(ncxId)?.['@_media-type'] !== 'application/x-dtbncx+xml') {
+    issues.push({ severity: 'error', path: opfPath, message: `Spine toc="${ncxId}" does not reference an NCX item` });
+  }
+
+  // Content documents
+  for (const item of items) {
+    const mediaType = item['@_media-type'];
+    if (mediaType !== 'application/xhtml+xml' && mediaType !== 'application/x-dtbncx+xml') continue;
+    const filePath = path.posix.normalize(opfDir + decodeURI(item['@_href'] || ''));
+    if (!zip.file(filePath)) continue;
+
+    const xml = await read(filePath);
+    if (!wellFormed(xml, filePath, issues) || mediaType !== 'application/xhtml+xml') continue;
+
+    const html = parser.parse(xml)?.html;
+    if (!html || html['@_xmlns'] !== XHTML_NAMESPACE) {
+      issues.push({ severity: 'error', path: filePath, message: 'Root element must be <html> in the XHTML namespace' });
+    }
+    if (navItems.includes(item) && !/<nav[^>]*epub:type="toc"/.test(xml)) {
+      issues.push({ severity: 'error', path: filePath, message: 'The navigation document has no <nav epub:type="toc">' });
+    }
+
+    const fileDir = path.posix.dirname(filePath);
+    for (const match of Array.from(xml.matchAll(/\s(?:href|src)="([^"]*)"/g))) {
+      const target = match[1].replace(/&amp;/g, '&');
+      if (!target || /^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#')) continue;
+      const targetPath = path.posix.normalize(`${fileDir}/${decodeURI(target.split('#')[0])}`);
+      if (!zip.file(targetPath)) {
+        issues.push({ severity: 'error', path: filePath, message: `Link to missing resource ${target}` });
+      } else if (!manifestPaths.has(targetPath)) {
+        issues.push({ severity: 'error', path: filePath, message: `Link to ${target}, which is not in the manifest` });
+      }
+    }
+    if (/<img\s[^>]*src="https?:/i.test(xml)) {
+      issues.push({ severity: 'warning', path: filePath, message: 'References a remote image; most readers will not display it offline' });
+    }
+  }
+
+  return issues;
+}
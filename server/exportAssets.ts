@@ -0,0 +1,216 @@
+import fs from 'fs/promises';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { createRequire } from 'module';
+import sharp from 'sharp';
+import type { ExportImageQuality } from '@shared/schema';
+import { detectImageMediaType } from './epubValidator';
+import { assetIdFromSource, readAssetSource } from './assetStore';
+import type { DocxImage } from './documentModel';
+
+// Fonts and images that exporters embed in the files they write
+
+const require = createRequire(import.meta.url);
+
+export interface FontFace {
+  fileName: string;
+  weight: 'normal' | 'bold';
+  style: 'normal' | 'italic';
+  data: Buffer;
+}
+
+export interface FontFamily {
+  name: string;
+  generic: 'serif' | 'sans-serif';
+  faces: FontFace[];
+}
+
+// DejaVu is freely redistributable and covers far more scripts than the standard PDF fonts
+const FONT_FILES = {
+  serif: { name: 'DejaVu Serif', files: ['DejaVuSerif.ttf', 'DejaVuSerif-Bold.ttf', 'DejaVuSerif-Italic.ttf', 'DejaVuSerif-BoldItalic.ttf'] },
+  'sans-serif': { name: 'DejaVu Sans', files: ['DejaVuSans.ttf', 'DejaVuSans-Bold.ttf', 'DejaVuSans-Oblique.ttf', 'DejaVuSans-BoldOblique.ttf'] },
+} as const;
+
+const fontCache = new Map<string, Promise<FontFamily>>();
+
+export function loadFontFamily(generic: 'serif' | 'sans-serif'): Promise<FontFamily> {
+  if (!fontCache.has(generic)) {
+    const { name, files } = FONT_FILES[generic];
+    fontCache.set(generic, Promise.all(files.map(async (fileName, index) => ({
+      fileName,
+      weight: index % 2 === 1 ? 'bold' as const : 'normal' as const,
+      style: index >= 2 ? 'italic' as const : 'normal' as const,
+      data: await fs.readFile(require.resolve(`dejavu-fonts-ttf/ttf/${fileName}`)),
+    }))).then(faces => ({ name, generic, faces })));
+  }
+  return fontCache.get(generic)!;
+}
+
+// Template font stacks are plain CSS generics; anything that is not sans-serif is set in the serif family
+export function genericFamily(fontFamily: string): 'serif' | 'sans-serif' {
+  return fontFamily.includes('sans-serif') ? 'sans-serif' : 'serif';
+}
+
+// Longest edge in pixels and JPEG quality for each setting; "original" leaves images untouched
+const IMAGE_QUALITY_SETTINGS: Record<Exclude<ExportImageQuality, 'original'>, { maxDimension: number; jpegQuality: number }> = {
+  high: { maxDimension: 2400, jpegQuality: 90 },
+  medium: { maxDimension: 1600, jpegQuality: 78 },
+  low: { maxDimension: 1000, jpegQuality: 65 },
+};
+
+export interface EmbeddedImage {
+  data: Buffer;
+  mediaType: string;
+}
+
+// Remote images come from URLs written into chapters, so a user could aim the server at its own
+// network (cloud metadata, localhost services, private ranges). Those addresses are refused, and
+// downloads are limited in redirects, size, time and content type.
+const MAX_REMOTE_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_IMAGE_REDIRECTS = 3;
+const REMOTE_IMAGE_TIMEOUT_MS = 15000;
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+// Checked at connect time, so a hostname cannot pass a check and then resolve somewhere else
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) return callback(new Error(`${hostname} resolves to a non-public address (${blocked.address})`), '');
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function downloadImage(url: URL, redirectsLeft: number = MAX_IMAGE_REDIRECTS): Promise<Buffer | null> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return Promise.reject(new Error(`Unsupported image URL scheme ${url.protocol}`));
+  }
+  // IP literals connect without a lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    return Promise.reject(new Error(`${host} is not a public address`));
+  }
+
+  const get = url.protocol === 'https:' ? https.get : http.get;
+  return new Promise((resolve, reject) => {
+    const request = get(url, { lookup: publicOnlyLookup, timeout: REMOTE_IMAGE_TIMEOUT_MS }, response => {
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        if (redirectsLeft <= 0) return reject(new Error('Too many redirects'));
+        try {
+          resolve(downloadImage(new URL(location, url), redirectsLeft - 1));
+        } catch (error) {
+          reject(error);
+        }
+        return;
+      }
+
+      const contentLength = Number(response.headers['content-length'] || 0);
+      if (status !== 200 || !response.headers['content-type']?.startsWith('image/') || contentLength > MAX_REMOTE_IMAGE_BYTES) {
+        response.resume();
+        return resolve(null);
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_REMOTE_IMAGE_BYTES) {
+          request.destroy(new Error(`Image is larger than ${MAX_REMOTE_IMAGE_BYTES} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+    });
+    request.on('timeout', () => request.destroy(new Error('Timed out downloading image')));
+    request.on('error', reject);
+  });
+}
+
+// Downloads an image for embedding and scales it to the requested quality. Images uploaded to the
+// book are read from the asset store and data: URLs are decoded; only public http(s) hosts are
+// fetched. Anything that is not a recognisable image format is skipped.
+export async function fetchImage(url: string, quality: ExportImageQuality): Promise<EmbeddedImage | null> {
+  let image: EmbeddedImage;
+  try {
+    let data: Buffer | null;
+    if (assetIdFromSource(url)) {
+      data = await readAssetSource(url);
+    } else if (url.trim().startsWith('data:')) {
+      const response = await fetch(url.trim());
+      data = response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+    } else {
+      data = await downloadImage(new URL(url.trim()));
+    }
+  if (!data) return null;
+    const mediaType = detectImageMediaType(data);
+    if (!mediaType) return null;
+    image = { data, mediaType };
+  } catch (error) {
+    console.warn(`Failed to fetch image ${url.slice(0, 100)} for export:`, error);
+    return null;
+  }
+
+  // SVG and GIF (which may be animated) are embedded as they are
+  if (quality === 'original' || image.mediaType === 'image/svg+xml' || image.mediaType === 'image/gif') {
+    return image;
+  }
+
+  try {
+    const settings = IMAGE_QUALITY_SETTINGS[quality];
+    const source = sharp(image.data);
+    const { hasAlpha } = await source.metadata();
+    const resized = source.rotate().resize({ width: settings.maxDimension, height: settings.maxDimension, fit: 'inside', withoutEnlargement: true });
+    // Transparency needs PNG; everything else is re-encoded as JPEG
+    const data = hasAlpha
+      ? await resized.png({ compressionLevel: 9 }).toBuffer()
+      : await resized.jpeg({ quality: settings.jpegQuality, mozjpeg: true }).toBuffer();
+    // Never make a file bigger than the one we were given
+    if (data.length >= image.data.length) return image;
+    return { data, mediaType: hasAlpha ? 'image/png' : 'image/jpeg' };
+  } catch (error) {
+    console.warn('Failed to resize image for export, embedding the original:', error);
+    return image;
+  }
+}
+
+// Word reads JPEG, PNG and GIF; other formats are converted to PNG. Images wider than the text
+// column are scaled down to it.
+export async function toDocxImage(image: EmbeddedImage, maxWidth: number): Promise<DocxImage | null> {
+  try {
+    const native = image.mediaType === 'image/jpeg' ? 'jpg' : image.mediaType === 'image/png' ? 'png' : image.mediaType === 'image/gif' ? 'gif' : null;
+    const data = native ? image.data : await sharp(image.data).png().toBuffer();
+    const { width, height } = await sharp(data).metadata();
+    if (!width || !height) return null;
+    const scale = Math.min(1, maxWidth / width);
+    return { type: native ?? 'png', data, width: Math.round(width * scale), height: Math.round(height * scale) };
+  } catch (error) {
+    console.warn('Failed to prepare image for DOCX, using its alt text:', error);
+    return null;
+  }
+}
+
+export function imageDataUrl(image: EmbeddedImage): string {
+  return `data:${image.mediaType};base64,${image.data.toString('base64')}`;
+}
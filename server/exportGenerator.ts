@@ -1,24 +1,24 @@
 import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
 import path from 'path';
 import puppeteer from 'puppeteer';
 import archiver from 'archiver';
-import { marked } from 'marked';
 import JSZip from 'jszip';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType } from 'docx';
-
-interface CustomTheme {
-  backgroundColor: string;
-  textColor: string;
-  fontSize: string;
-  fontFamily: string;
-  lineHeight: string;
-  marginBottom: string;
-  accentColor: string;
-}
+import { Document, Packer, Paragraph, Table, TextRun, HeadingLevel, AlignmentType, Footer, PageNumber } from 'docx';
+import { createHash } from 'crypto';
+import { parseMarkdown, renderXhtml, renderDocx, collectImageSources, escapeXml, DOCX_NUMBERING, DOCX_STYLES, type Block, type DocxImage } from './documentModel';
+import { validateEpub, IMAGE_EXTENSIONS } from './epubValidator';
+import { resolvePrintProfile, printPageCss, planSectionFolios, countPdfPages, assemblePrintPdf, type PrintProfile, type PrintSection } from './printLayout';
+import { fetchImage, imageDataUrl, toDocxImage, loadFontFamily, genericFamily, type EmbeddedImage, type FontFamily } from './exportAssets';
+import { bookMatterSections, type MatterSection } from './bookMatter';
+import { flipbookDocument, flipbookContentsList, FLIPBOOK_CSS, FLIPBOOK_SCRIPT, type FlipbookSection } from './flipbook';
+import { exportOptionsSchema, type BookMatter, type ChapterNumberingStyle, type CustomTheme, type ExportIssue, type ExportOptions } from '@shared/schema';
 
-interface BookData {
+export interface BookData {
+  // Saved book id; gives the EPUB its stable identifier
+  id?: string;
   title: string;
-  subtitle?: string;
+  subtitle?: string | null;
   author: string;
   description: string;
   chapters: Array<{
@@ -27,26 +27,135 @@ interface BookData {
     content: string;
   }>;
   selectedTemplate: string;
-  customTheme?: CustomTheme;
-  coverImageUrl?: string;
-  language: string;
+  customTheme?: CustomTheme | null;
+  coverImageUrl?: string | null;
+  language?: string | null;
+  bookMatter?: BookMatter | null;
 }
 
-interface ExportOptions {
-  includeCover: boolean;
-  includeTableOfContents: boolean;
-  includePageNumbers: boolean;
-}
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = exportOptionsSchema.parse({});
 
+// Exporters write here unless the caller gives each export its own directory
 const EXPORT_DIR = path.join(process.cwd(), 'exports');
 
+// Width of the DOCX text column in pixels (6.25 inches at 96 DPI)
+const DOCX_IMAGE_MAX_WIDTH = 600;
+
 // Ensure export directory exists
-async function ensureExportDir() {
+async function ensureExportDir(outputDir: string) {
   try {
-    await fs.access(EXPORT_DIR);
+    await fs.access(outputDir);
   } catch {
-    await fs.mkdir(EXPORT_DIR, { recursive: true });
+    await fs.mkdir(outputDir, { recursive: true });
+  }
+}
+
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  italian: 'it',
+  portuguese: 'pt',
+};
+
+// BCP 47 tag for a stored language such as "English (EN)", "Spanish" or "pt-BR"
+function languageCode(language?: string | null): string {
+  const value = (language || '').trim();
+  const bracketed = value.match(/\(([a-z]{2,3}(?:-[a-z0-9]{2,8})*)\)/i);
+  if (bracketed) return bracketed[1].toLowerCase();
+  if (/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(value)) {
+    const [primary, ...rest] = value.split('-');
+    return [primary.toLowerCase(), ...rest].join('-');
+  }
+  return LANGUAGE_CODES[value.toLowerCase()] || 'en';
+}
+
+// Saved books are identified by their id; unsaved ones by a name-based UUID so re-exports keep the same identity
+function bookUuid(bookData: BookData): string {
+  if (bookData.id && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookData.id)) {
+    return bookData.id.toLowerCase();
+  }
+  const hash = createHash('sha1').update(`${bookData.title}\n${bookData.author}`).digest('hex');
+  const variant = ((parseInt(hash[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-${variant}${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+}
+
+const NUMBER_WORDS = ['Zero', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS_WORDS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function numberInWords(value: number): string {
+  if (value < 20) return NUMBER_WORDS[value];
+  if (value < 100) return TENS_WORDS[Math.floor(value / 10)] + (value % 10 ? `-${NUMBER_WORDS[value % 10]}` : '');
+  return String(value);
+}
+
+function romanNumeral(value: number): string {
+  const numerals: Array<[number, string]> = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let remaining = value;
+  return numerals.reduce((result, [amount, numeral]) => {
+    const count = Math.floor(remaining / amount);
+    remaining -= count * amount;
+    return result + numeral.repeat(count);
+  }, '');
+}
+
+// "Chapter 3", "Chapter Three" or "Chapter III"; null when chapters are not numbered
+function chapterLabel(index: number, style: ChapterNumberingStyle): string | null {
+  switch (style) {
+    case 'numeric':
+      return `Chapter ${index + 1}`;
+    case 'words':
+      return `Chapter ${numberInWords(index + 1)}`;
+    case 'roman':
+      return `Chapter ${romanNumeral(index + 1)}`;
+    case 'none':
+      return null;
+  }
+}
+
+function chapterHeading(title: string, index: number, style: ChapterNumberingStyle): string {
+  const label = chapterLabel(index, style);
+  return label ? `${label}: ${title}` : title;
+}
+
+// The anchor Markdown renderers (GitHub and most others) give a heading
+function markdownAnchor(heading: string): string {
+  return heading.toLowerCase().replace(/[^\w\- ]/g, '').replace(/ /g, '-');
+}
+
+// Fetches every image a set of sources points at; the map only holds the ones that could be embedded
+async function embedImages(sources: string[], options: ExportOptions) {
+  const images = new Map<string, EmbeddedImage>();
+  for (const src of Array.from(new Set(sources))) {
+    const image = await fetchImage(src, options.imageQuality);
+    if (image) images.set(src, image);
   }
+  return images;
+}
+
+// Every image the chapters and the front and back matter show, embedded at the chosen quality
+function embedBookImages(bookData: BookData, options: ExportOptions) {
+  const contents = [...bookData.chapters, ...bookMatterSections(bookData.bookMatter, bookData)].map(section => section.content);
+  return embedImages(contents.flatMap(content => collectImageSources(parseMarkdown(content))), options);
+}
+
+// Where HTML output loads an image from: embedded images become data URLs, other web images stay
+// linked, and anything else (an uploaded image that could not be read) is replaced by its alt text
+function inlineImageResolver(images: Map<string, EmbeddedImage>): (src: string) => string | null {
+  return src => images.has(src) ? imageDataUrl(images.get(src)!) : /^https?:/i.test(src.trim()) ? src.trim() : null;
+}
+
+// @font-face rules for an embedded family, with font files referenced through urlFor
+function fontFaceCss(family: FontFamily, urlFor: (face: FontFamily['faces'][number]) => string): string {
+  return family.faces.map(face => `
+@font-face {
+  font-family: "${family.name}";
+  font-weight: ${face.weight};
+  font-style: ${face.style};
+  src: url("${urlFor(face)}");
+}`).join('\n');
 }
 
 // Helper function to remove duplicate chapter titles from content
@@ -109,7 +218,7 @@ function removeDuplicateChapterTitle(content: string, chapterTitle: string): str
 }
 
 // Template styles mapping with custom theme support
-const getTemplateStyles = (templateId: string, customTheme?: CustomTheme) => {
+const getTemplateStyles = (templateId: string, customTheme?: CustomTheme | null) => {
   const templates = {
     original: {
       fontFamily: 'serif',
@@ -179,16 +288,16 @@ const getTemplateStyles = (templateId: string, customTheme?: CustomTheme) => {
 };
 
 // Generate HTML content
-function generateHTMLContent(bookData: BookData, options: ExportOptions = { includeCover: true, includeTableOfContents: true, includePageNumbers: true }): string {
+function generateHTMLContent(bookData: BookData, options: ExportOptions, imageSource: (src: string) => string | null): string {
   const template = getTemplateStyles(bookData.selectedTemplate, bookData.customTheme);
   
   let html = `
 <!DOCTYPE html>
-<html lang="${bookData.language || 'en'}">
+<html lang="${languageCode(bookData.language)}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${bookData.title}</title>
+    <title>${escapeXml(bookData.title)}</title>
     <style>
         body {
             font-family: ${template.fontFamily};
@@ -273,12 +382,42 @@ function generateHTMLContent(bookData: BookData, options: ExportOptions = { incl
             margin-bottom: 1.5rem;
         }
         
-        .chapter-content h4 {
+        .chapter-content h2, .chapter-content h3, .chapter-content h4 {
             font-size: 1.25rem;
             font-weight: bold;
             margin: 2rem 0 1rem 0;
         }
         
+        .chapter-content blockquote {
+            margin: 1.5rem 2rem;
+            font-style: italic;
+        }
+        
+        .chapter-content table {
+            border-collapse: collapse;
+            margin-bottom: 1.5rem;
+        }
+        
+        .chapter-content th, .chapter-content td {
+            border: 1px solid #ccc;
+            padding: 0.4rem 0.75rem;
+        }
+        
+        .matter {
+            page-break-before: always;
+            margin-bottom: 3rem;
+        }
+        
+        .matter-copyright {
+            font-size: 0.85em;
+        }
+        
+        .matter-dedication {
+            text-align: center;
+            font-style: italic;
+            margin: 6rem 0;
+        }
+        
         @media print {
             body { margin: 0; }
             .page-break { page-break-before: always; }
@@ -292,14 +431,26 @@ function generateHTMLContent(bookData: BookData, options: ExportOptions = { incl
   if (options.includeCover) {
     html += `
     <div class="cover-page">
-        ${bookData.coverImageUrl ? `<img src="${bookData.coverImageUrl}" alt="Book Cover" class="cover-image">` : ''}
-        <h1 class="cover-title">${bookData.title}</h1>
-        ${bookData.subtitle ? `<h2 class="cover-subtitle">${bookData.subtitle}</h2>` : ''}
-        <p class="cover-author">by ${bookData.author}</p>
-        <div class="description" style="font-style: italic; margin: 2em 0; padding: 1em; background-color: rgba(0,0,0,0.05); border-radius: 4px;">${bookData.description}</div>
+        ${bookData.coverImageUrl ? `<img src="${escapeXml(bookData.coverImageUrl)}" alt="Book Cover" class="cover-image">` : ''}
+        <h1 class="cover-title">${escapeXml(bookData.title)}</h1>
+        ${bookData.subtitle ? `<h2 class="cover-subtitle">${escapeXml(bookData.subtitle)}</h2>` : ''}
+        <p class="cover-author">by ${escapeXml(bookData.author)}</p>
+        <div class="description" style="font-style: italic; margin: 2em 0; padding: 1em; background-color: rgba(0,0,0,0.05); border-radius: 4px;">${escapeXml(bookData.description)}</div>
     </div>`;
   }
 
+  const matter = bookMatterSections(bookData.bookMatter, bookData);
+  const renderMatter = (section: MatterSection) => `
+    <div class="matter matter-${section.id}" id="${section.id}">
+        ${section.listed ? `<h1 class="chapter-title">${escapeXml(section.title)}</h1>` : ''}
+        <div class="chapter-content">${renderXhtml(parseMarkdown(section.content), { resolveImage: imageSource })}</div>
+    </div>`;
+
+  // Front matter
+  matter.filter(section => section.placement === 'front').forEach(section => {
+    html += renderMatter(section);
+  });
+
   // Table of contents
   if (options.includeTableOfContents) {
     html += `
@@ -309,8 +460,13 @@ function generateHTMLContent(bookData: BookData, options: ExportOptions = { incl
     bookData.chapters.forEach((chapter, index) => {
       html += `
         <div class="toc-item">
-            <span>Chapter ${index + 1}: ${chapter.title}</span>
-            <span>${index + 3}</span>
+            <span>${escapeXml(chapterHeading(chapter.title, index, options.chapterNumbering))}</span>
+        </div>`;
+    });
+    matter.filter(section => section.placement === 'back' && section.listed).forEach(section => {
+      html += `
+        <div class="toc-item">
+            <span>${escapeXml(section.title)}</span>
         </div>`;
     });
     
@@ -321,28 +477,23 @@ function generateHTMLContent(bookData: BookData, options: ExportOptions = { incl
   bookData.chapters.forEach((chapter, index) => {
     html += `
     <div class="chapter">
-        <h1 class="chapter-title">Chapter ${index + 1}: ${chapter.title}</h1>
+        <h1 class="chapter-title">${escapeXml(chapterHeading(chapter.title, index, options.chapterNumbering))}</h1>
         <div class="chapter-content">`;
     
     // Process chapter content (remove duplicate title)
     const cleanContent = removeDuplicateChapterTitle(chapter.content, chapter.title);
-    const paragraphs = cleanContent.split('\n\n');
-    paragraphs.forEach(paragraph => {
-      const trimmed = paragraph.trim();
-      if (trimmed) {
-        if (trimmed.startsWith('The ') && trimmed.includes('Changes')) {
-          html += `<h4>${trimmed}</h4>`;
-        } else {
-          html += `<p>${trimmed}</p>`;
-        }
-      }
-    });
+    html += renderXhtml(parseMarkdown(cleanContent), { resolveImage: imageSource });
     
     html += `
         </div>
     </div>`;
   });
 
+  // Back matter
+  matter.filter(section => section.placement === 'back').forEach(section => {
+    html += renderMatter(section);
+  });
+
   html += `
 </body>
 </html>`;
@@ -351,11 +502,11 @@ function generateHTMLContent(bookData: BookData, options: ExportOptions = { incl
 }
 
 // Export as PDF
-export async function exportToPDF(bookData: BookData, options?: ExportOptions): Promise<string> {
-  await ensureExportDir();
+export async function exportToPDF(bookData: BookData, options: ExportOptions = DEFAULT_EXPORT_OPTIONS, outputDir: string = EXPORT_DIR): Promise<string> {
+  await ensureExportDir(outputDir);
   
   const fileName = `${bookData.title.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
-  const filePath = path.join(EXPORT_DIR, fileName);
+  const filePath = path.join(outputDir, fileName);
   
   try {
     // Try Puppeteer with enhanced configuration for different environments
@@ -365,7 +516,7 @@ export async function exportToPDF(bookData: BookData, options?: ExportOptions):
     
     try {
       // Fallback: Generate HTML and provide conversion instructions
-      return await generateHTMLForPDFConversion(bookData, options);
+      return await generateHTMLForPDFConversion(bookData, options, outputDir);
     } catch (fallbackError: any) {
       console.error('All PDF generation methods failed:', fallbackError?.message || fallbackError);
       throw new Error(`PDF generation failed. Puppeteer error: ${puppeteerError?.message || puppeteerError}. Fallback error: ${fallbackError?.message || fallbackError}`);
@@ -373,8 +524,26 @@ export async function exportToPDF(bookData: BookData, options?: ExportOptions):
   }
 }
 
-async function generatePDFWithPuppeteer(bookData: BookData, filePath: string, options?: ExportOptions): Promise<string> {
-  const htmlContent = generateHTMLContent(bookData, options);
+async function generatePDFWithPuppeteer(bookData: BookData, filePath: string, options: ExportOptions): Promise<string> {
+  const profile = resolvePrintProfile(options.pageSize, options.bleed);
+  const template = getTemplateStyles(bookData.selectedTemplate, bookData.customTheme);
+  const font = options.embedFonts ? await loadFontFamily(genericFamily(template.fontFamily)) : null;
+  
+  // Images are fetched and scaled to the chosen quality up front, then inlined into the pages
+  const chapterBlocks = bookData.chapters.map(chapter => parseMarkdown(removeDuplicateChapterTitle(chapter.content, chapter.title)));
+  const matter = bookMatterSections(bookData.bookMatter, bookData).map(section => ({ section, blocks: parseMarkdown(section.content) }));
+  const images = await embedImages([
+    ...(options.includeCover && profile.trimSize === 'a4' && bookData.coverImageUrl ? [bookData.coverImageUrl] : []),
+    ...chapterBlocks.flatMap(collectImageSources),
+    ...matter.flatMap(({ blocks }) => collectImageSources(blocks)),
+  ], options);
+  const context: PrintContext = {
+    bookData,
+    profile,
+    options,
+    font,
+    imageSource: inlineImageResolver(images),
+  };
   
   // Enhanced Puppeteer configuration for different environments
   const puppeteerOptions = {
@@ -452,30 +621,66 @@ async function generatePDFWithPuppeteer(bookData: BookData, filePath: string, op
   try {
     const page = await browser.newPage();
     
-    // Set viewport and user agent for better compatibility
-    await page.setViewport({ width: 1200, height: 1600, deviceScaleFactor: 2 });
+    // Set user agent for better compatibility
     await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
     
-    await page.setContent(htmlContent, { 
-      waitUntil: 'networkidle0',
-      timeout: 30000 
-    });
+    // Each section is printed on its own so the layout step knows where every chapter starts
+    const renderSection = async (body: string) => {
+      await page.setContent(generatePrintSectionHTML(context, body), { 
+        waitUntil: 'networkidle0',
+        timeout: 30000 
+      });
+      await page.evaluate('document.fonts.ready.then(() => true)');
+      return page.pdf({ preferCSSPageSize: true, printBackground: true, timeout: 60000 });
+    };
+    
+    const frontMatter: PrintSection[] = [];
+    if (options.includeCover) {
+      frontMatter.push({ pdf: await renderSection(generatePrintTitlePage(context)) });
+    }
+    for (const { section, blocks } of matter.filter(({ section }) => section.placement === 'front')) {
+      // The copyright page goes on the back of the title page
+      const followsPrevious = section.id === 'copyright' && frontMatter.length > 0;
+      frontMatter.push({ pdf: await renderSection(generatePrintMatter(context, section, blocks)), followsPrevious });
+    }
     
-    // Wait a bit more for any async content
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    // Chapters and back matter, each with the title its table of contents entry shows
+    const body: Array<PrintSection & { contentsTitle: string | null }> = [];
+    for (let index = 0; index < bookData.chapters.length; index++) {
+      const chapter = bookData.chapters[index];
+      body.push({
+        pdf: await renderSection(generatePrintChapter(context, chapterBlocks[index], index)),
+        runningTitle: chapter.title,
+        contentsTitle: chapterHeading(chapter.title, index, options.chapterNumbering),
+      });
+    }
+    for (const { section, blocks } of matter.filter(({ section }) => section.placement === 'back')) {
+      body.push({
+        pdf: await renderSection(generatePrintMatter(context, section, blocks)),
+        runningTitle: section.title,
+        contentsTitle: section.listed ? section.title : null,
+      });
+    }
     
-    await page.pdf({
-      path: filePath,
-      format: 'A4',
-      printBackground: true,
-      margin: {
-        top: '1in',
-        bottom: '1in',
-        left: '1in',
-        right: '1in'
-      },
-      timeout: 60000
+    if (options.includeTableOfContents) {
+      const contents = (folios: number[]) => body
+        .map((section, index) => ({ title: section.contentsTitle, folio: folios[index] }))
+        .filter((entry): entry is { title: string; folio: number } => entry.title !== null);
+      // Laid out first with placeholder numbers to learn how many pages the contents take
+      const placeholder = await renderSection(generatePrintTableOfContents(contents(body.map(() => 999))));
+      const sections = [...frontMatter, { pdf: placeholder }, ...body];
+      const layout = await Promise.all(sections.map(async section => ({ pageCount: await countPdfPages(section.pdf), followsPrevious: section.followsPrevious })));
+      const folios = planSectionFolios(layout, frontMatter.length + 1, profile.facingPages).slice(frontMatter.length + 1);
+      frontMatter.push({ pdf: await renderSection(generatePrintTableOfContents(contents(folios))) });
+    }
+    
+    const pdf = await assemblePrintPdf([...frontMatter, ...body], profile, {
+      bookTitle: bookData.title,
+      includePageNumbers: options.includePageNumbers,
+      serif: genericFamily(template.fontFamily) === 'serif',
+      font,
     });
+    await fs.writeFile(filePath, pdf);
   } finally {
     await browser.close();
   }
@@ -483,18 +688,225 @@ async function generatePDFWithPuppeteer(bookData: BookData, filePath: string, op
   return path.basename(filePath);
 }
 
-async function generateHTMLForPDFConversion(bookData: BookData, options?: ExportOptions): Promise<string> {
+interface PrintContext {
+  bookData: BookData;
+  profile: PrintProfile;
+  options: ExportOptions;
+  // Embedded into every section when font embedding is on
+  font: FontFamily | null;
+  // URL an image is printed from: a data URL for images embedded at the chosen quality; null prints the alt text
+  imageSource: (src: string) => string | null;
+}
+
+// A standalone document for one printed section, sized by the print profile
+function generatePrintSectionHTML(context: PrintContext, body: string): string {
+  const { bookData, profile, font } = context;
+  const template = getTemplateStyles(bookData.selectedTemplate, bookData.customTheme);
+  
+  return `<!DOCTYPE html>
+<html lang="${languageCode(bookData.language)}">
+<head>
+    <meta charset="UTF-8">
+    <title>${escapeXml(bookData.title)}</title>
+    <style>${printPageCss(profile)}
+        ${font ? fontFaceCss(font, face => `data:font/ttf;base64,${face.data.toString('base64')}`) : ''}
+        
+        body {
+            font-family: ${font ? `"${font.name}", ${template.fontFamily}` : template.fontFamily};
+            font-size: ${profile.fontSize};
+            line-height: ${template.lineHeight};
+            color: ${template.color};
+            margin: 0;
+            hyphens: auto;
+        }
+        
+        .title-page {
+            text-align: center;
+            padding-top: 25%;
+        }
+        
+        .title-page h1 {
+            font-size: 2.4em;
+            line-height: 1.2;
+            margin: 0 0 0.4em 0;
+        }
+        
+        .title-page .subtitle {
+            font-size: 1.3em;
+            font-style: italic;
+            margin-bottom: 3em;
+        }
+        
+        .title-page .author {
+            font-size: 1.2em;
+        }
+        
+        .title-page img {
+            max-width: 60%;
+            max-height: 45vh;
+            margin-top: 2em;
+        }
+        
+        .toc h1 {
+            font-size: 1.6em;
+            text-align: center;
+            margin: 0 0 1.5em 0;
+        }
+        
+        .toc ol {
+            list-style: none;
+            padding: 0;
+            margin: 0;
+        }
+        
+        .toc li {
+            display: flex;
+            align-items: baseline;
+            margin-bottom: 0.6em;
+        }
+        
+        .toc .toc-leader {
+            flex: 1;
+            border-bottom: 1px dotted currentColor;
+            margin: 0 0.4em;
+        }
+        
+        .chapter-title {
+            font-size: 1.7em;
+            line-height: 1.25;
+            text-align: center;
+            margin: 20% 0 1.5em 0;
+        }
+        
+        .chapter-number {
+            display: block;
+            font-size: 0.55em;
+            font-weight: normal;
+            letter-spacing: 0.15em;
+            text-transform: uppercase;
+            margin-bottom: 0.6em;
+        }
+        
+        h2, h3, h4, h5, h6 {
+            line-height: 1.3;
+            margin: 1.4em 0 0.6em 0;
+            break-after: avoid;
+        }
+        
+        h2 { font-size: 1.3em; }
+        h3 { font-size: 1.15em; }
+        h4, h5, h6 { font-size: 1em; }
+        
+        p {
+            margin: 0 0 0.7em 0;
+            text-align: justify;
+            orphans: 2;
+            widows: 2;
+        }
+        
+        ul, ol {
+            margin: 0 0 0.7em 0;
+            padding-left: 1.5em;
+        }
+        
+        blockquote {
+            margin: 1em 1.5em;
+            font-style: italic;
+        }
+        
+        table {
+            border-collapse: collapse;
+            margin: 0 0 1em 0;
+            break-inside: avoid;
+        }
+        
+        th, td {
+            border: 0.5pt solid #999;
+            padding: 0.3em 0.5em;
+        }
+        
+        pre {
+            font-size: 0.85em;
+            white-space: pre-wrap;
+        }
+        
+        img {
+            max-width: 100%;
+        }
+        
+        .matter-copyright {
+            font-size: 0.85em;
+            padding-top: 50%;
+        }
+        
+        .matter-copyright p {
+            text-align: left;
+        }
+        
+        .matter-dedication {
+            font-style: italic;
+            padding-top: 30%;
+        }
+        
+        .matter-dedication p {
+            text-align: center;
+        }
+    </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function generatePrintTitlePage({ bookData, profile, imageSource }: PrintContext): string {
+  // Paperback interiors go to the printer without the cover, which is uploaded separately
+  const cover = profile.trimSize === 'a4' && bookData.coverImageUrl ? imageSource(bookData.coverImageUrl) : null;
+  return `<section class="title-page">
+    <h1>${escapeXml(bookData.title)}</h1>
+    ${bookData.subtitle ? `<div class="subtitle">${escapeXml(bookData.subtitle)}</div>` : ''}
+    <div class="author">${escapeXml(bookData.author)}</div>
+    ${cover ? `<img src="${escapeXml(cover)}" alt="Book Cover"/>` : ''}
+</section>`;
+}
+
+function generatePrintTableOfContents(entries: Array<{ title: string; folio: number }>): string {
+  return `<nav class="toc">
+    <h1>Contents</h1>
+    <ol>
+${entries.map(entry => `        <li><span>${escapeXml(entry.title)}</span><span class="toc-leader"></span><span>${entry.folio}</span></li>`).join('\n')}
+    </ol>
+</nav>`;
+}
+
+function generatePrintChapter({ bookData, options, imageSource }: PrintContext, blocks: Block[], index: number): string {
+  const label = chapterLabel(index, options.chapterNumbering);
+  return `<section class="chapter">
+    <h1 class="chapter-title">${label ? `<span class="chapter-number">${label}</span>` : ''}${escapeXml(bookData.chapters[index].title)}</h1>
+${renderXhtml(blocks, { resolveImage: imageSource })}
+</section>`;
+}
+
+function generatePrintMatter({ imageSource }: PrintContext, section: MatterSection, blocks: Block[]): string {
+  return `<section class="matter matter-${section.id}">
+    ${section.listed ? `<h1 class="chapter-title">${escapeXml(section.title)}</h1>` : ''}
+${renderXhtml(blocks, { resolveImage: imageSource })}
+</section>`;
+}
+
+async function generateHTMLForPDFConversion(bookData: BookData, options: ExportOptions, outputDir: string): Promise<string> {
   // Generate HTML file that can be opened in browser and printed to PDF
   const fileName = `${bookData.title.replace(/[^a-zA-Z0-9]/g, '_')}_printable.html`;
-  const filePath = path.join(EXPORT_DIR, fileName);
+  const filePath = path.join(outputDir, fileName);
   
-  const htmlContent = generatePrintableHTMLContent(bookData, options);
+  const images = await embedBookImages(bookData, options);
+  const htmlContent = generatePrintableHTMLContent(bookData, resolvePrintProfile(options.pageSize, options.bleed), options, inlineImageResolver(images));
   await fs.writeFile(filePath, htmlContent, 'utf-8');
   
   return fileName;
 }
 
-function generatePrintableHTMLContent(bookData: BookData, options?: ExportOptions): string {
+function generatePrintableHTMLContent(bookData: BookData, profile: PrintProfile, options: ExportOptions, imageSource: (src: string) => string | null): string {
   const template = getTemplateStyles(bookData.selectedTemplate, bookData.customTheme);
   
   return `<!DOCTYPE html>
@@ -502,10 +914,10 @@ function generatePrintableHTMLContent(bookData: BookData, options?: ExportOption
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${bookData.title}</title>
+    <title>${escapeXml(bookData.title)}</title>
     <style>
-        @media print {
-            body { margin: 0; }
+        @media print {${printPageCss(profile)}
+            body { margin: 0; padding: 0; max-width: none; }
             .page-break { page-break-before: always; }
             .no-print { display: none; }
         }
@@ -613,6 +1025,19 @@ function generatePrintableHTMLContent(bookData: BookData, options?: ExportOption
             background-color: rgba(0,0,0,0.05);
             border-radius: 4px;
         }
+        
+        .matter {
+            margin-bottom: 3em;
+        }
+        
+        .matter-copyright {
+            font-size: 0.85em;
+        }
+        
+        .matter-dedication {
+            text-align: center;
+            font-style: italic;
+        }
     </style>
 </head>
 <body>
@@ -624,8 +1049,8 @@ function generatePrintableHTMLContent(bookData: BookData, options?: ExportOption
             <li><strong>Choose "Save as PDF"</strong> as your printer destination</li>
             <li><strong>Adjust settings:</strong>
                 <ul>
-                    <li>Paper size: A4 or Letter</li>
-                    <li>Margins: Default or Custom (1 inch all sides)</li>
+                    <li>Paper size: ${profile.label}${profile.bleed ? ` plus ${profile.bleed} inch bleed` : ''}</li>
+                    <li>Margins: Default (set by this page)</li>
                     <li>Scale: 100% (Fit to page if needed)</li>
                     <li>✅ Include background graphics</li>
                 </ul>
@@ -635,38 +1060,53 @@ function generatePrintableHTMLContent(bookData: BookData, options?: ExportOption
         <p><em>This instruction box will not appear in the printed version.</em></p>
     </div>
 
-    ${generateHTMLBookContent(bookData, options)}
+    ${generateHTMLBookContent(bookData, options, imageSource)}
 </body>
 </html>`;
 }
 
-function generateHTMLBookContent(bookData: BookData, options?: ExportOptions): string {
+function generateHTMLBookContent(bookData: BookData, options: ExportOptions, imageSource: (src: string) => string | null): string {
   let content = '';
   
   // Cover page
-  if (options?.includeCover !== false) {
+  if (options.includeCover) {
     content += `
     <div class="page-break">
-        <h1>${bookData.title}</h1>
-        ${bookData.subtitle ? `<div class="subtitle">${bookData.subtitle}</div>` : ''}
-        <div class="author">by ${bookData.author}</div>
+        <h1>${escapeXml(bookData.title)}</h1>
+        ${bookData.subtitle ? `<div class="subtitle">${escapeXml(bookData.subtitle)}</div>` : ''}
+        <div class="author">by ${escapeXml(bookData.author)}</div>
         ${bookData.coverImageUrl ? `
         <div class="cover-image">
-            <img src="${bookData.coverImageUrl}" alt="Book Cover" />
+            <img src="${escapeXml(bookData.coverImageUrl)}" alt="Book Cover" />
         </div>
         ` : ''}
-        <div class="description">${bookData.description}</div>
+        <div class="description">${escapeXml(bookData.description)}</div>
     </div>`;
   }
   
+  const matter = bookMatterSections(bookData.bookMatter, bookData);
+  const renderMatter = (section: MatterSection) => `
+    <div class="matter matter-${section.id} page-break">
+        ${section.listed ? `<h2 class="chapter-title">${escapeXml(section.title)}</h2>` : ''}
+        <div class="chapter-content">${renderXhtml(parseMarkdown(section.content), { resolveImage: imageSource })}</div>
+    </div>`;
+  
+  // Front matter
+  content += matter.filter(section => section.placement === 'front').map(renderMatter).join('');
+  
   // Table of contents
-  if (options?.includeTableOfContents !== false) {
+  if (options.includeTableOfContents) {
     content += `
     <div class="table-of-contents page-break">
         <h2>Table of Contents</h2>
         ${bookData.chapters.map((chapter, index) => `
         <div class="toc-item">
-            Chapter ${index + 1}: ${chapter.title}
+            ${escapeXml(chapterHeading(chapter.title, index, options.chapterNumbering))}
+        </div>
+        `).join('')}
+        ${matter.filter(section => section.placement === 'back' && section.listed).map(section => `
+        <div class="toc-item">
+            ${escapeXml(section.title)}
         </div>
         `).join('')}
     </div>`;
@@ -676,33 +1116,38 @@ function generateHTMLBookContent(bookData: BookData, options?: ExportOptions): s
   bookData.chapters.forEach((chapter, index) => {
     content += `
     <div class="chapter ${index > 0 ? 'page-break' : ''}">
-        <h2 class="chapter-title">Chapter ${index + 1}: ${chapter.title}</h2>
-        <div class="chapter-content">${marked(chapter.content)}</div>
+        <h2 class="chapter-title">${escapeXml(chapterHeading(chapter.title, index, options.chapterNumbering))}</h2>
+        <div class="chapter-content">${renderXhtml(parseMarkdown(chapter.content), { resolveImage: imageSource })}</div>
     </div>`;
   });
   
+  // Back matter
+  content += matter.filter(section => section.placement === 'back').map(renderMatter).join('');
+  
   return content;
 }
 
 // Export as HTML
-export async function exportToHTML(bookData: BookData, options?: ExportOptions): Promise<string> {
-  await ensureExportDir();
+export async function exportToHTML(bookData: BookData, options: ExportOptions = DEFAULT_EXPORT_OPTIONS, outputDir: string = EXPORT_DIR): Promise<string> {
+  await ensureExportDir(outputDir);
   
   const fileName = `${bookData.title.replace(/[^a-zA-Z0-9]/g, '_')}.html`;
-  const filePath = path.join(EXPORT_DIR, fileName);
+  const filePath = path.join(outputDir, fileName);
   
-  const htmlContent = generateHTMLContent(bookData, options);
+  // Images are inlined so the file stands on its own
+  const images = await embedBookImages(bookData, options);
+  const htmlContent = generateHTMLContent(bookData, options, inlineImageResolver(images));
   await fs.writeFile(filePath, htmlContent, 'utf-8');
   
   return fileName;
 }
 
 // Export as Markdown
-export async function exportToMarkdown(bookData: BookData): Promise<string> {
-  await ensureExportDir();
+export async function exportToMarkdown(bookData: BookData, options: ExportOptions = DEFAULT_EXPORT_OPTIONS, outputDir: string = EXPORT_DIR): Promise<string> {
+  await ensureExportDir(outputDir);
   
   const fileName = `${bookData.title.replace(/[^a-zA-Z0-9]/g, '_')}.md`;
-  const filePath = path.join(EXPORT_DIR, fileName);
+  const filePath = path.join(outputDir, fileName);
   
   let markdown = `# ${bookData.title}\n\n`;
   
@@ -710,111 +1155,176 @@ export async function exportToMarkdown(bookData: BookData): Promise<string> {
     markdown += `## ${bookData.subtitle}\n\n`;
   }
   
-  markdown += `**Author:** ${bookData.author}\n\n`;
-  markdown += `**Description:** ${bookData.description}\n\n`;
+  // The title page: author and description
+  if (options.includeCover) {
+    markdown += `**Author:** ${bookData.author}\n\n`;
+    markdown += `**Description:** ${bookData.description}\n\n`;
+  }
   markdown += `---\n\n`;
   
-  // Table of contents
-  markdown += `## Table of Contents\n\n`;
-  bookData.chapters.forEach((chapter, index) => {
-    markdown += `${index + 1}. [${chapter.title}](#chapter-${index + 1}-${chapter.title.toLowerCase().replace(/[^a-z0-9]/g, '-')})\n`;
-  });
-  markdown += `\n---\n\n`;
+  const matter = bookMatterSections(bookData.bookMatter, bookData);
+  const renderMatter = (section: MatterSection) =>
+    `${section.listed ? `## ${section.title}\n\n` : ''}${section.content}\n\n---\n\n`;
+  
+  // Front matter
+  markdown += matter.filter(section => section.placement === 'front').map(renderMatter).join('');
+  
+  // Table of contents, linking to the anchors Markdown renderers give headings
+  if (options.includeTableOfContents) {
+    markdown += `## Table of Contents\n\n`;
+    bookData.chapters.forEach((chapter, index) => {
+      const heading = chapterHeading(chapter.title, index, options.chapterNumbering);
+      markdown += `${index + 1}. [${chapter.title}](#${markdownAnchor(heading)})\n`;
+    });
+    matter.filter(section => section.placement === 'back' && section.listed).forEach((section, index) => {
+      markdown += `${bookData.chapters.length + index + 1}. [${section.title}](#${markdownAnchor(section.title)})\n`;
+    });
+    markdown += `\n---\n\n`;
+  }
   
   // Chapters
   bookData.chapters.forEach((chapter, index) => {
-    markdown += `## Chapter ${index + 1}: ${chapter.title}\n\n`;
+    markdown += `## ${chapterHeading(chapter.title, index, options.chapterNumbering)}\n\n`;
     
-    // Process chapter content (remove duplicate title)
+    // Chapter content is already Markdown; only the duplicate title is removed
     const cleanContent = removeDuplicateChapterTitle(chapter.content, chapter.title);
-    const paragraphs = cleanContent.split('\n\n');
-    paragraphs.forEach(paragraph => {
-      const trimmed = paragraph.trim();
-      if (trimmed) {
-        if (trimmed.startsWith('The ') && trimmed.includes('Changes')) {
-          markdown += `### ${trimmed}\n\n`;
-        } else {
-          markdown += `${trimmed}\n\n`;
-        }
-      }
-    });
+    if (cleanContent.trim()) {
+      markdown += `${cleanContent.trim()}\n\n`;
+    }
     
     markdown += `---\n\n`;
   });
   
+  // Back matter
+  markdown += matter.filter(section => section.placement === 'back').map(renderMatter).join('');
+  
   await fs.writeFile(filePath, markdown, 'utf-8');
   return fileName;
 }
 
-// Export as EPUB
-export async function exportToEPUB(bookData: BookData, options?: ExportOptions): Promise<string> {
-  await ensureExportDir();
+// Export as EPUB 3. The finished archive is run through the structural validator and is only
+// written when it has no errors; warnings are returned alongside the file name.
+export async function exportToEPUB(bookData: BookData, options: ExportOptions = DEFAULT_EXPORT_OPTIONS, outputDir: string = EXPORT_DIR): Promise<{ fileName?: string; issues: ExportIssue[] }> {
+  await ensureExportDir(outputDir);
   
   const fileName = `${bookData.title.replace(/[^a-zA-Z0-9]/g, '_')}.epub`;
-  const filePath = path.join(EXPORT_DIR, fileName);
+  const filePath = path.join(outputDir, fileName);
+  
+  const identifier = `urn:uuid:${bookUuid(bookData)}`;
+  const language = languageCode(bookData.language);
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const title = escapeXml(bookData.title);
+  const author = escapeXml(bookData.author);
+  const { includeCover, includeTableOfContents } = options;
   
   const zip = new JSZip();
   
-  // EPUB structure
-  zip.file('mimetype', 'application/epub+zip');
+  // The mimetype entry has to come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
   
-  // META-INF
-  const metaInf = zip.folder('META-INF');
-  metaInf?.file('container.xml', `<?xml version="1.0"?>
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
 <container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
   <rootfiles>
     <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
   </rootfiles>
 </container>`);
 
-  // OEBPS
-  const oebps = zip.folder('OEBPS');
-  
-  // Content.opf with cover image support
-  let contentOpf = `<?xml version="1.0" encoding="UTF-8"?>
-<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="BookId" version="2.0">
-  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">
-    <dc:title>${bookData.title}</dc:title>
-    <dc:creator opf:role="aut">${bookData.author}</dc:creator>
-    <dc:language>${bookData.language || 'en'}</dc:language>
-    <dc:identifier id="BookId">${Date.now()}</dc:identifier>
-    <dc:description>${bookData.description}</dc:description>
-    ${bookData.coverImageUrl ? '<meta name="cover" content="cover-image"/>' : ''}
-  </metadata>
-  <manifest>
-    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
-    <item id="style" href="style.css" media-type="text/css"/>
-    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
-    <item id="toc" href="toc.xhtml" media-type="application/xhtml+xml"/>
-    ${bookData.coverImageUrl ? '<item id="cover-image" href="cover.jpg" media-type="image/jpeg"/>' : ''}`;
+  const oebps = zip.folder('OEBPS')!;
+  
+  // Images are embedded in the package with the media type their bytes declare
+  const images: Array<{ id: string; href: string; mediaType: string; cover?: boolean }> = [];
+  const embedImage = async (url: string, name: string) => {
+    const image = await fetchImage(url, options.imageQuality);
+    if (!image) return null;
+    const href = `images/${name}.${IMAGE_EXTENSIONS[image.mediaType]}`;
+    oebps.file(href, image.data);
+    return { href, mediaType: image.mediaType };
+  };
+  
+  let coverHref: string | null = null;
+  if (includeCover && bookData.coverImageUrl) {
+    const cover = await embedImage(bookData.coverImageUrl, 'cover');
+    if (cover) {
+      coverHref = cover.href;
+      images.push({ id: 'cover-image', ...cover, cover: true });
+    }
+  }
+  
+  const chapterBlocks = bookData.chapters.map(chapter => parseMarkdown(removeDuplicateChapterTitle(chapter.content, chapter.title)));
+  const matter = bookMatterSections(bookData.bookMatter, bookData).map(section => ({ section, blocks: parseMarkdown(section.content) }));
+  const frontMatter = matter.filter(({ section }) => section.placement === 'front');
+  const backMatter = matter.filter(({ section }) => section.placement === 'back');
+  const imageHrefs = new Map<string, string>();
+  for (const src of Array.from(new Set([...chapterBlocks, ...matter.map(({ blocks }) => blocks)].flatMap(collectImageSources)))) {
+    const image = await embedImage(src, `image-${imageHrefs.size + 1}`);
+    if (image) {
+      imageHrefs.set(src, image.href);
+      images.push({ id: `image-${imageHrefs.size}`, ...image });
+    }
+  }
+  
+  const chapterTitle = (chapter: { title: string }, index: number) => escapeXml(chapterHeading(chapter.title, index, options.chapterNumbering));
+  
+  // Fonts are shipped inside the package so the book looks the same on every reader
+  const template = getTemplateStyles(bookData.selectedTemplate, bookData.customTheme);
+  const font = options.embedFonts ? await loadFontFamily(genericFamily(template.fontFamily)) : null;
+  const fonts = (font?.faces ?? []).map((face, index) => ({ id: `font-${index + 1}`, href: `fonts/${face.fileName}` }));
+  font?.faces.forEach((face, index) => oebps.file(fonts[index].href, face.data));
+  const xhtmlDocument = (documentTitle: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <title>${documentTitle}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
 
-  bookData.chapters.forEach((chapter, index) => {
-    contentOpf += `
-    <item id="chapter${index + 1}" href="chapter${index + 1}.xhtml" media-type="application/xhtml+xml"/>`;
-  });
+  // Package document
+  const manifest = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>`,
+    `<item id="style" href="style.css" media-type="text/css"/>`,
+    ...(includeCover ? [`<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>`] : []),
+    ...images.map(image => `<item id="${image.id}" href="${image.href}" media-type="${image.mediaType}"${image.cover ? ' properties="cover-image"' : ''}/>`),
+    ...fonts.map(entry => `<item id="${entry.id}" href="${entry.href}" media-type="font/ttf"/>`),
+    ...bookData.chapters.map((chapter, index) => `<item id="chapter${index + 1}" href="chapter${index + 1}.xhtml" media-type="application/xhtml+xml"/>`),
+    ...matter.map(({ section }) => `<item id="${section.id}" href="${section.id}.xhtml" media-type="application/xhtml+xml"/>`),
+  ];
+  const spine = [
+    ...(includeCover ? [`<itemref idref="cover"/>`] : []),
+    ...frontMatter.map(({ section }) => `<itemref idref="${section.id}"/>`),
+    `<itemref idref="nav"${includeTableOfContents ? '' : ' linear="no"'}/>`,
+    ...bookData.chapters.map((chapter, index) => `<itemref idref="chapter${index + 1}"/>`),
+    ...backMatter.map(({ section }) => `<itemref idref="${section.id}"/>`),
+  ];
 
-  contentOpf += `
+  oebps.file('content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${title}</dc:title>
+    <dc:creator id="creator">${author}</dc:creator>
+    <meta refines="#creator" property="role" scheme="marc:relators">aut</meta>
+    <dc:language>${language}</dc:language>
+    ${bookData.description ? `<dc:description>${escapeXml(bookData.description)}</dc:description>` : ''}
+    <meta property="dcterms:modified">${modified}</meta>
+    ${coverHref ? '<meta name="cover" content="cover-image"/>' : ''}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
   </manifest>
   <spine toc="ncx">
-    <itemref idref="cover"/>
-    <itemref idref="toc"/>`;
-
-  bookData.chapters.forEach((chapter, index) => {
-    contentOpf += `
-    <itemref idref="chapter${index + 1}"/>`;
-  });
-
-  contentOpf += `
+    ${spine.join('\n    ')}
   </spine>
-</package>`;
-
-  oebps?.file('content.opf', contentOpf);
+</package>`);
 
   // Style.css
-  const template = getTemplateStyles(bookData.selectedTemplate, bookData.customTheme);
-  const css = `
+  const css = `${font ? fontFaceCss(font, face => `fonts/${face.fileName}`) : ''}
 body {
-  font-family: ${template.fontFamily};
+  font-family: ${font ? `"${font.name}", ${template.fontFamily}` : template.fontFamily};
   font-size: ${template.fontSize};
   line-height: ${template.lineHeight};
   color: ${template.color};
@@ -834,16 +1344,62 @@ h2 {
   margin: 1.5em 0 1em 0;
 }
 
+h3, h4, h5, h6 {
+  font-size: 1.2em;
+  font-weight: bold;
+  margin: 1.2em 0 0.8em 0;
+}
+
 p {
   margin-bottom: 1em;
   text-align: justify;
 }
 
+ul, ol {
+  margin: 0 0 1em 1.5em;
+}
+
+blockquote {
+  margin: 1em 2em;
+  font-style: italic;
+}
+
+table {
+  border-collapse: collapse;
+  margin-bottom: 1em;
+}
+
+th, td {
+  border: 1px solid #999;
+  padding: 0.3em 0.6em;
+}
+
+pre {
+  font-family: monospace;
+  font-size: 0.85em;
+  white-space: pre-wrap;
+}
+
+img {
+  max-width: 100%;
+}
+
+nav ol {
+  list-style: none;
+  margin-left: 0;
+}
+
 .cover {
   text-align: center;
   page-break-after: always;
 }
 
+.cover-image {
+  max-width: 100%;
+  max-height: 60vh;
+  margin-bottom: 2em;
+}
+
 .cover-title {
   font-size: 2.5em;
   font-weight: bold;
@@ -854,160 +1410,141 @@ p {
   font-size: 1.2em;
   margin-top: 2em;
 }
-`;
 
-  oebps?.file('style.css', css);
+.cover-description {
+  font-style: italic;
+  margin: 2em auto;
+  max-width: 30em;
+}
 
-  // Cover page with image
-  const coverXhtml = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.1//EN" "http://www.w3.org/TR/xhtml11/DTD/xhtml11.dtd">
-<html xmlns="http://www.w3.org/1999/xhtml">
-<head>
-  <title>${bookData.title}</title>
-  <link rel="stylesheet" type="text/css" href="style.css"/>
-</head>
-<body>
-  <div class="cover">
-    ${bookData.coverImageUrl ? `<img src="cover.jpg" alt="Book Cover" style="max-width: 300px; height: auto; margin-bottom: 2em; border-radius: 8px; box-shadow: 0 4px 8px rgba(0,0,0,0.1);"/>` : ''}
-    <h1 class="cover-title">${bookData.title}</h1>
-    ${bookData.subtitle ? `<h2>${bookData.subtitle}</h2>` : ''}
-    <p class="cover-author">by ${bookData.author}</p>
-    <div style="font-style: italic; margin: 2em 0; padding: 1em; background-color: rgba(0,0,0,0.05); border-radius: 4px; max-width: 500px; margin-left: auto; margin-right: auto;">${bookData.description}</div>
-  </div>
-</body>
-</html>`;
+.matter-copyright {
+  font-size: 0.85em;
+}
 
-  oebps?.file('cover.xhtml', coverXhtml);
+.matter-copyright p {
+  text-align: left;
+}
 
-  // Table of contents
-  let tocXhtml = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.1//EN" "http://www.w3.org/TR/xhtml11/DTD/xhtml11.dtd">
-<html xmlns="http://www.w3.org/1999/xhtml">
-<head>
-  <title>Table of Contents</title>
-  <link rel="stylesheet" type="text/css" href="style.css"/>
-</head>
-<body>
-  <h1>Table of Contents</h1>`;
+.matter-dedication {
+  font-style: italic;
+  margin-top: 30%;
+}
 
-  bookData.chapters.forEach((chapter, index) => {
-    tocXhtml += `
-  <p><a href="chapter${index + 1}.xhtml">Chapter ${index + 1}: ${chapter.title}</a></p>`;
-  });
+.matter-dedication p {
+  text-align: center;
+}
+`;
 
-  tocXhtml += `
-</body>
-</html>`;
+  oebps.file('style.css', css);
+
+  // Cover page
+  if (includeCover) {
+    oebps.file('cover.xhtml', xhtmlDocument(title, `  <section class="cover" epub:type="cover">
+    ${coverHref ? `<img class="cover-image" src="${coverHref}" alt="${escapeXml(`Cover of ${bookData.title}`)}"/>` : ''}
+    <h1 class="cover-title">${title}</h1>
+    ${bookData.subtitle ? `<h2>${escapeXml(bookData.subtitle)}</h2>` : ''}
+    <p class="cover-author">by ${author}</p>
+    ${bookData.description ? `<p class="cover-description">${escapeXml(bookData.description)}</p>` : ''}
+  </section>`));
+  }
 
-  oebps?.file('toc.xhtml', tocXhtml);
+  // Navigation document, which doubles as the visible table of contents
+  const listedBackMatter = backMatter.filter(({ section }) => section.listed);
+  const navEntries = [
+    ...bookData.chapters.map((chapter, index) => `      <li><a href="chapter${index + 1}.xhtml">${chapterTitle(chapter, index)}</a></li>`),
+    ...listedBackMatter.map(({ section }) => `      <li><a href="${section.id}.xhtml">${escapeXml(section.title)}</a></li>`),
+  ];
+  oebps.file('nav.xhtml', xhtmlDocument('Table of Contents', `  <nav epub:type="toc" id="toc">
+    <h1>Table of Contents</h1>
+    <ol>
+${navEntries.join('\n')}
+    </ol>
+  </nav>
+  <nav epub:type="landmarks" hidden="hidden">
+    <ol>
+      ${includeCover ? '<li><a epub:type="cover" href="cover.xhtml">Cover</a></li>' : ''}
+      <li><a epub:type="toc" href="nav.xhtml">Table of Contents</a></li>
+      ${bookData.chapters.length > 0 ? '<li><a epub:type="bodymatter" href="chapter1.xhtml">Start of Content</a></li>' : ''}
+    </ol>
+  </nav>`));
 
   // Chapter files
   bookData.chapters.forEach((chapter, index) => {
-    let chapterXhtml = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.1//EN" "http://www.w3.org/TR/xhtml11/DTD/xhtml11.dtd">
-<html xmlns="http://www.w3.org/1999/xhtml">
-<head>
-  <title>${chapter.title}</title>
-  <link rel="stylesheet" type="text/css" href="style.css"/>
-</head>
-<body>
-  <h1>Chapter ${index + 1}: ${chapter.title}</h1>`;
-
-    // Process chapter content (remove duplicate title)
-    const cleanContent = removeDuplicateChapterTitle(chapter.content, chapter.title);
-    const paragraphs = cleanContent.split('\n\n');
-    paragraphs.forEach(paragraph => {
-      const trimmed = paragraph.trim();
-      if (trimmed) {
-        if (trimmed.startsWith('The ') && trimmed.includes('Changes')) {
-          chapterXhtml += `  <h2>${trimmed}</h2>`;
-        } else {
-          chapterXhtml += `  <p>${trimmed}</p>`;
-        }
-      }
-    });
-
-    chapterXhtml += `
-</body>
-</html>`;
-
-    oebps?.file(`chapter${index + 1}.xhtml`, chapterXhtml);
+    const content = renderXhtml(chapterBlocks[index], { resolveImage: src => imageHrefs.get(src) ?? null });
+    oebps.file(`chapter${index + 1}.xhtml`, xhtmlDocument(escapeXml(chapter.title), `  <section epub:type="chapter">
+  <h1>${chapterTitle(chapter, index)}</h1>
+${content}
+  </section>`));
+  });
+  
+  // Front and back matter files
+  matter.forEach(({ section, blocks }) => {
+    const content = renderXhtml(blocks, { resolveImage: src => imageHrefs.get(src) ?? null });
+    oebps.file(`${section.id}.xhtml`, xhtmlDocument(escapeXml(section.title), `  <section epub:type="${section.epubType}" class="matter-${section.id}">
+  ${section.listed ? `<h1>${escapeXml(section.title)}</h1>` : ''}
+${content}
+  </section>`));
   });
 
-  // NCX file
-  let ncx = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE ncx PUBLIC "-//NISO//DTD ncx 2005-1//EN" "http://www.daisy.org/z3986/2005/ncx-2005-1.dtd">
-<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  // NCX, kept for EPUB 2 reading systems
+  const navPoints = [
+    ...(includeCover ? [{ id: 'cover', label: 'Cover', src: 'cover.xhtml' }] : []),
+    { id: 'toc', label: 'Table of Contents', src: 'nav.xhtml' },
+    ...bookData.chapters.map((chapter, index) => ({ id: `chapter${index + 1}`, label: chapterTitle(chapter, index), src: `chapter${index + 1}.xhtml` })),
+    ...listedBackMatter.map(({ section }) => ({ id: section.id, label: escapeXml(section.title), src: `${section.id}.xhtml` })),
+  ];
+  oebps.file('toc.ncx', `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${language}">
   <head>
-    <meta name="dtb:uid" content="${Date.now()}"/>
+    <meta name="dtb:uid" content="${identifier}"/>
     <meta name="dtb:depth" content="1"/>
     <meta name="dtb:totalPageCount" content="0"/>
     <meta name="dtb:maxPageNumber" content="0"/>
   </head>
   <docTitle>
-    <text>${bookData.title}</text>
+    <text>${title}</text>
   </docTitle>
   <navMap>
-    <navPoint id="cover" playOrder="1">
-      <navLabel>
-        <text>Cover</text>
-      </navLabel>
-      <content src="cover.xhtml"/>
-    </navPoint>
-    <navPoint id="toc" playOrder="2">
-      <navLabel>
-        <text>Table of Contents</text>
-      </navLabel>
-      <content src="toc.xhtml"/>
-    </navPoint>`;
-
-  bookData.chapters.forEach((chapter, index) => {
-    ncx += `
-    <navPoint id="chapter${index + 1}" playOrder="${index + 3}">
+${navPoints.map((point, index) => `    <navPoint id="nav-${point.id}" playOrder="${index + 1}">
       <navLabel>
-        <text>Chapter ${index + 1}: ${chapter.title}</text>
+        <text>${point.label}</text>
       </navLabel>
-      <content src="chapter${index + 1}.xhtml"/>
-    </navPoint>`;
-  });
-
-  ncx += `
+      <content src="${point.src}"/>
+    </navPoint>`).join('\n')}
   </navMap>
-</ncx>`;
-
-  oebps?.file('toc.ncx', ncx);
-
-  // Download and add cover image if present
-  if (bookData.coverImageUrl) {
-    try {
-      const imageResponse = await fetch(bookData.coverImageUrl);
-      if (imageResponse.ok) {
-        const imageBuffer = await imageResponse.arrayBuffer();
-        oebps?.file('cover.jpg', imageBuffer);
-      }
-    } catch (error) {
-      console.warn('Failed to fetch cover image for EPUB:', error);
-    }
-  }
+</ncx>`);
 
   // Generate ZIP
-  const content = await zip.generateAsync({ type: 'nodebuffer' });
-  await fs.writeFile(filePath, content);
+  const content = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+  const issues = await validateEpub(content);
+  if (issues.some(issue => issue.severity === 'error')) {
+    console.warn(`EPUB for "${bookData.title}" failed validation:`, issues);
+    return { issues };
+  }
   
-  return fileName;
+  await fs.writeFile(filePath, content);
+  return { fileName, issues };
 }
 
 // Export as DOCX
-export async function exportToDOCX(bookData: BookData, options?: ExportOptions): Promise<string> {
-  await ensureExportDir();
+export async function exportToDOCX(bookData: BookData, options: ExportOptions = DEFAULT_EXPORT_OPTIONS, outputDir: string = EXPORT_DIR): Promise<string> {
+  await ensureExportDir(outputDir);
   
   const fileName = `${bookData.title.replace(/[^a-zA-Z0-9]/g, '_')}.docx`;
-  const filePath = path.join(EXPORT_DIR, fileName);
+  const filePath = path.join(outputDir, fileName);
   
-  const paragraphs: Paragraph[] = [];
+  const paragraphs: Array<Paragraph | Table> = [];
+  
+  // Images are converted to formats Word reads and scaled to the text column
+  const docxImages = new Map<string, DocxImage>();
+  for (const [src, image] of Array.from(await embedBookImages(bookData, options))) {
+    const docxImage = await toDocxImage(image, DOCX_IMAGE_MAX_WIDTH);
+    if (docxImage) docxImages.set(src, docxImage);
+  }
+  const renderContent = (markdown: string) => renderDocx(parseMarkdown(markdown), { images: docxImages });
   
   // Cover page
-  if (options?.includeCover) {
+  if (options.includeCover) {
     paragraphs.push(
       new Paragraph({
         children: [
@@ -1051,8 +1588,30 @@ export async function exportToDOCX(bookData: BookData, options?: ExportOptions):
     paragraphs.push(new Paragraph({ text: "", pageBreakBefore: true }));
   }
   
+  const matter = bookMatterSections(bookData.bookMatter, bookData);
+  const matterHeading = (section: MatterSection, pageBreakBefore: boolean) => new Paragraph({
+    children: [
+      new TextRun({
+        text: section.title,
+        bold: true,
+        size: 28,
+      }),
+    ],
+    heading: HeadingLevel.HEADING_1,
+    pageBreakBefore,
+  });
+  
+  // Front matter, one page each
+  matter.filter(section => section.placement === 'front').forEach(section => {
+    if (section.listed) {
+      paragraphs.push(matterHeading(section, false));
+    }
+    paragraphs.push(...renderContent(section.content));
+    paragraphs.push(new Paragraph({ text: "", pageBreakBefore: true }));
+  });
+  
   // Table of contents
-  if (options?.includeTableOfContents) {
+  if (options.includeTableOfContents) {
     paragraphs.push(
       new Paragraph({
         children: [
@@ -1071,7 +1630,19 @@ export async function exportToDOCX(bookData: BookData, options?: ExportOptions):
         new Paragraph({
           children: [
             new TextRun({
-              text: `Chapter ${index + 1}: ${chapter.title}`,
+              text: chapterHeading(chapter.title, index, options.chapterNumbering),
+              size: 20,
+            }),
+          ],
+        })
+      );
+    });
+    matter.filter(section => section.placement === 'back' && section.listed).forEach(section => {
+      paragraphs.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: section.title,
               size: 20,
             }),
           ],
@@ -1088,7 +1659,7 @@ export async function exportToDOCX(bookData: BookData, options?: ExportOptions):
       new Paragraph({
         children: [
           new TextRun({
-            text: `Chapter ${index + 1}: ${chapter.title}`,
+            text: chapterHeading(chapter.title, index, options.chapterNumbering),
             bold: true,
             size: 28,
           }),
@@ -1099,43 +1670,40 @@ export async function exportToDOCX(bookData: BookData, options?: ExportOptions):
     );
     
     const cleanContent = removeDuplicateChapterTitle(chapter.content, chapter.title);
-    const chapterParagraphs = cleanContent.split('\n\n');
-    chapterParagraphs.forEach(paragraph => {
-      const trimmed = paragraph.trim();
-      if (trimmed) {
-        if (trimmed.startsWith('The ') && trimmed.includes('Changes')) {
-          paragraphs.push(
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: trimmed,
-                  bold: true,
-                  size: 24,
-                }),
-              ],
-              heading: HeadingLevel.HEADING_2,
-            })
-          );
-        } else {
-          paragraphs.push(
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: trimmed,
-                  size: 20,
-                }),
-              ],
-            })
-          );
-        }
-      }
-    });
+    paragraphs.push(...renderContent(cleanContent));
+  });
+  
+  // Back matter
+  matter.filter(section => section.placement === 'back').forEach(section => {
+    if (section.listed) {
+      paragraphs.push(matterHeading(section, true));
+    } else {
+      paragraphs.push(new Paragraph({ text: "", pageBreakBefore: true }));
+    }
+    paragraphs.push(...renderContent(section.content));
   });
   
+  // Word only embeds the regular face; bold and italic are synthesised from it
+  const template = getTemplateStyles(bookData.selectedTemplate, bookData.customTheme);
+  const font = options.embedFonts ? await loadFontFamily(genericFamily(template.fontFamily)) : null;
+  
   const doc = new Document({
+    styles: font ? { ...DOCX_STYLES, default: { document: { run: { font: font.name } } } } : DOCX_STYLES,
+    numbering: DOCX_NUMBERING,
+    fonts: font ? [{ name: font.name, data: font.faces[0].data }] : [],
     sections: [
       {
         properties: {},
+        footers: options.includePageNumbers ? {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                children: [new TextRun({ children: [PageNumber.CURRENT] })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+          }),
+        } : undefined,
         children: paragraphs,
       },
     ],
@@ -1145,4 +1713,203 @@ export async function exportToDOCX(bookData: BookData, options?: ExportOptions):
   await fs.writeFile(filePath, buffer);
   
   return fileName;
-}
\ No newline at end of file
+}
+
+// Export as an interactive flipbook: a folder of static files that pages the book in the browser,
+// zipped for download. It opens from disk or from any static web server.
+export async function exportToFlipbook(bookData: BookData, options: ExportOptions = DEFAULT_EXPORT_OPTIONS, outputDir: string = EXPORT_DIR): Promise<string> {
+  await ensureExportDir(outputDir);
+  
+  const baseName = `${bookData.title.replace(/[^a-zA-Z0-9]/g, '_')}_flipbook`;
+  const fileName = `${baseName}.zip`;
+  const zip = new JSZip();
+  const site = zip.folder(baseName)!;
+  
+  // Images are shipped as files next to index.html; web images that could not be fetched stay linked
+  const images = await embedBookImages(bookData, options);
+  const imageHrefs = new Map<string, string>();
+  images.forEach((image, src) => {
+    const href = `images/image-${imageHrefs.size + 1}.${IMAGE_EXTENSIONS[image.mediaType]}`;
+    site.file(href, image.data);
+    imageHrefs.set(src, href);
+  });
+  const imageSource = (src: string) => imageHrefs.get(src) ?? (/^https?:/i.test(src.trim()) ? src.trim() : null);
+  const render = (content: string) => renderXhtml(parseMarkdown(content), { resolveImage: imageSource });
+  
+  const sections: FlipbookSection[] = [];
+  if (options.includeCover) {
+    const cover = bookData.coverImageUrl ? await fetchImage(bookData.coverImageUrl, options.imageQuality) : null;
+    if (cover) {
+      const href = `images/cover.${IMAGE_EXTENSIONS[cover.mediaType]}`;
+      site.file(href, cover.data);
+      sections.push({ id: 'cover', kind: 'cover', html: `<img class="fb-cover-image" src="${href}" alt="${escapeXml(bookData.title)}"/>` });
+    } else {
+      sections.push({ id: 'cover', kind: 'cover', html: [
+        `<h1 class="fb-cover-title">${escapeXml(bookData.title)}</h1>`,
+        bookData.subtitle ? `<p class="fb-cover-subtitle">${escapeXml(bookData.subtitle)}</p>` : '',
+        `<p class="fb-cover-author">${escapeXml(bookData.author)}</p>`,
+      ].join('\n') });
+    }
+  }
+  
+  const matter = bookMatterSections(bookData.bookMatter, bookData);
+  const matterSection = (section: MatterSection): FlipbookSection => ({
+    id: section.id,
+    kind: 'matter',
+    title: section.listed ? section.title : undefined,
+    html: `${section.listed ? `<h1>${escapeXml(section.title)}</h1>\n` : ''}${render(section.content)}`,
+  });
+  const chapters = bookData.chapters.map((chapter, index): FlipbookSection => {
+    const heading = chapterHeading(chapter.title, index, options.chapterNumbering);
+    return {
+      id: `chapter-${index + 1}`,
+      kind: 'chapter',
+      title: heading,
+      html: `<h1>${escapeXml(heading)}</h1>\n${render(removeDuplicateChapterTitle(chapter.content, chapter.title))}`,
+    };
+  });
+  const backMatter = matter.filter(section => section.placement === 'back').map(matterSection);
+  
+  sections.push(...matter.filter(section => section.placement === 'front').map(matterSection));
+  if (options.includeTableOfContents) {
+    sections.push({ id: 'contents', kind: 'contents', html: `<h1>Contents</h1>\n${flipbookContentsList([...chapters, ...backMatter])}` });
+  }
+  sections.push(...chapters, ...backMatter);
+  
+  // The theme is its own stylesheet, so a host can restyle the book without touching the reader
+  const template = getTemplateStyles(bookData.selectedTemplate, bookData.customTheme);
+  const font = options.embedFonts ? await loadFontFamily(genericFamily(template.fontFamily)) : null;
+  font?.faces.forEach(face => site.file(`fonts/${face.fileName}`, face.data));
+  site.file('theme.css', `${font ? fontFaceCss(font, face => `fonts/${face.fileName}`) : ''}
+:root {
+  --fb-font: ${font ? `"${font.name}", ${template.fontFamily}` : template.fontFamily};
+  --fb-font-size: ${template.fontSize};
+  --fb-line-height: ${template.lineHeight};
+  --fb-text: ${template.color};
+  --fb-background: ${template.backgroundColor};
+  --fb-accent: ${template.accentColor};
+}
+`);
+  site.file('flipbook.css', FLIPBOOK_CSS);
+  site.file('flipbook.js', FLIPBOOK_SCRIPT);
+  site.file('index.html', flipbookDocument({ title: bookData.title, author: bookData.author, language: languageCode(bookData.language) }, sections));
+  
+  const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  await fs.writeFile(path.join(outputDir, fileName), buffer);
+  
+  return fileName;
+}
+
+// Export every format and the cover in one pass, packaged as a single ZIP
+export const BUNDLE_STEPS = ['pdf', 'epub', 'docx', 'markdown', 'html', 'flipbook', 'cover'] as const;
+export type BundleStep = typeof BUNDLE_STEPS[number];
+
+export interface BundleProgress {
+  // The step about to run, or null while the ZIP is being written
+  step: BundleStep | null;
+  completed: number;
+  total: number;
+}
+
+interface BundleManifestEntry {
+  format: BundleStep;
+  path?: string;
+  size?: number;
+  sha256?: string;
+  // Why the format is missing from the bundle
+  error?: string;
+}
+
+export async function exportToBundle(
+  bookData: BookData,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+  outputDir: string = EXPORT_DIR,
+  onProgress?: (progress: BundleProgress) => void,
+): Promise<{ fileName: string; issues: ExportIssue[] }> {
+  await ensureExportDir(outputDir);
+  
+  const baseName = bookData.title.replace(/[^a-zA-Z0-9]/g, '_');
+  const fileName = `${baseName}_bundle.zip`;
+  const partsDir = path.join(outputDir, 'parts');
+  const issues: ExportIssue[] = [];
+  
+  // The cover at full resolution, as uploaded
+  const exportCover = async () => {
+    if (!bookData.coverImageUrl) throw new Error('The book has no cover image');
+    const cover = await fetchImage(bookData.coverImageUrl, 'original');
+    if (!cover) throw new Error('The cover image could not be downloaded');
+    await ensureExportDir(partsDir);
+    const coverName = `${baseName}_cover.${IMAGE_EXTENSIONS[cover.mediaType]}`;
+    await fs.writeFile(path.join(partsDir, coverName), cover.data);
+    return coverName;
+  };
+  
+  const steps: Record<BundleStep, () => Promise<string | undefined>> = {
+    pdf: () => exportToPDF(bookData, options, partsDir),
+    epub: async () => {
+      const result = await exportToEPUB(bookData, options, partsDir);
+      issues.push(...result.issues);
+      if (!result.fileName) throw new Error('The EPUB did not pass validation');
+      return result.fileName;
+    },
+    docx: () => exportToDOCX(bookData, options, partsDir),
+    markdown: () => exportToMarkdown(bookData, options, partsDir),
+    html: () => exportToHTML(bookData, options, partsDir),
+    flipbook: () => exportToFlipbook(bookData, options, partsDir),
+    cover: exportCover,
+  };
+  
+  // A format that fails is noted in the manifest; the rest of the bundle still goes out
+  const entries: BundleManifestEntry[] = [];
+  for (let index = 0; index < BUNDLE_STEPS.length; index++) {
+    const format = BUNDLE_STEPS[index];
+    onProgress?.({ step: format, completed: index, total: BUNDLE_STEPS.length });
+    try {
+      const partName = await steps[format]();
+      const data = await fs.readFile(path.join(partsDir, partName!));
+      entries.push({ format, path: partName, size: data.length, sha256: createHash('sha256').update(data).digest('hex') });
+    } catch (error) {
+      console.warn(`Bundle export of ${format} failed for "${bookData.title}":`, error);
+      entries.push({ format, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  
+  if (!entries.some(entry => entry.path && entry.format !== 'cover')) {
+    await fs.rm(partsDir, { recursive: true, force: true });
+    throw new Error(`No format could be exported: ${entries.map(entry => `${entry.format}: ${entry.error}`).join('; ')}`);
+  }
+  
+  const manifest = {
+    title: bookData.title,
+    subtitle: bookData.subtitle || undefined,
+    author: bookData.author,
+    language: languageCode(bookData.language),
+    identifier: `urn:uuid:${bookUuid(bookData)}`,
+    createdAt: new Date().toISOString(),
+    options,
+    files: entries,
+    issues,
+  };
+  
+  onProgress?.({ step: null, completed: BUNDLE_STEPS.length, total: BUNDLE_STEPS.length });
+  
+  // Already-compressed formats (PDF, EPUB, DOCX, images) gain little from a high compression level
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  const output = createWriteStream(path.join(outputDir, fileName));
+  const written = new Promise<void>((resolve, reject) => {
+    output.on('close', resolve);
+    output.on('error', reject);
+    archive.on('error', reject);
+  });
+  archive.pipe(output);
+  archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+  for (const entry of entries) {
+    if (entry.path) archive.file(path.join(partsDir, entry.path), { name: entry.path });
+  }
+  await archive.finalize();
+  await written;
+  
+  await fs.rm(partsDir, { recursive: true, force: true });
+  
+  return { fileName, issues };
+}
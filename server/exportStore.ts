@@ -0,0 +1,117 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { storage } from "./storage";
+import { generateDownloadToken } from "./auth";
+import type { BookExport, ExportOptions } from "@shared/schema";
+
+// Every export gets its own directory under exports/<userId>/<exportId>/, so two books with the
+// same title (or two exports of one book) never overwrite each other. The exports table records
+// where each file lives; files are removed once they pass the retention period.
+
+const EXPORT_ROOT = path.join(process.cwd(), "exports");
+
+const RETENTION_DAYS = Number(process.env.EXPORT_RETENTION_DAYS) || 30;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".html": "text/html",
+  ".md": "text/markdown",
+  ".epub": "application/epub+zip",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".zip": "application/zip",
+};
+
+interface StoreExportInput {
+  userId: string;
+  bookId?: string | null;
+  format: string;
+  options?: ExportOptions;
+}
+
+// Absolute path of a stored file; keys that would escape the exports directory are rejected
+export function exportFilePath(storageKey: string): string {
+  const filePath = path.resolve(EXPORT_ROOT, storageKey);
+  if (!filePath.startsWith(EXPORT_ROOT + path.sep)) {
+    throw new Error(`Invalid export storage key: ${storageKey}`);
+  }
+  return filePath;
+}
+
+// Runs an exporter in a fresh directory and records the file it writes. The exporter returns the
+// file name, or nothing when it decided not to produce a file (an EPUB that failed validation).
+export async function storeExport(input: StoreExportInput, write: (outputDir: string) => Promise<string | undefined>): Promise<BookExport | null> {
+  const id = randomUUID();
+  const outputDir = path.join(EXPORT_ROOT, input.userId, id);
+
+  let fileName: string | undefined;
+  try {
+    fileName = await write(outputDir);
+  } catch (error) {
+    await fs.rm(outputDir, { recursive: true, force: true });
+    throw error;
+  }
+  if (!fileName) {
+    await fs.rm(outputDir, { recursive: true, force: true });
+    return null;
+  }
+
+  const storageKey = path.posix.join(input.userId, id, fileName);
+  const data = await fs.readFile(exportFilePath(storageKey));
+  return storage.createBookExport({
+    id,
+    userId: input.userId,
+    bookId: input.bookId ?? null,
+    format: input.format,
+    options: input.options,
+    fileName,
+    storageKey,
+    contentType: CONTENT_TYPES[path.extname(fileName).toLowerCase()] ?? "application/octet-stream",
+    size: data.length,
+    checksum: createHash("sha256").update(data).digest("hex"),
+    expiresAt: new Date(Date.now() + RETENTION_DAYS * 24 * 60 * 60 * 1000),
+  });
+}
+
+// A link that downloads the file without an Authorization header, valid for a few minutes
+export function signedDownloadUrl(bookExport: BookExport): string {
+  return `/api/exports/${bookExport.id}/download?token=${encodeURIComponent(generateDownloadToken(bookExport.id))}`;
+}
+
+// Removes files past their retention date; the rows stay behind as history
+export async function purgeExpiredExports(): Promise<number> {
+  const expired = await storage.getExpiredBookExports(new Date());
+  for (const bookExport of expired) {
+    try {
+      await fs.rm(path.dirname(exportFilePath(bookExport.storageKey)), { recursive: true, force: true });
+      await storage.markBookExportDeleted(bookExport.id);
+    } catch (error) {
+      console.error(`Failed to remove expired export ${bookExport.id}:`, error);
+    }
+  }
+  return expired.length;
+}
+
+// Removes the files of exports whose rows are going away with their book, which retention would never see
+export async function removeExportFiles(exports: BookExport[]): Promise<void> {
+  await Promise.all(exports.map(bookExport =>
+    fs.rm(path.dirname(exportFilePath(bookExport.storageKey)), { recursive: true, force: true })
+  ));
+}
+
+// Removes every file a user exported; their export rows are deleted with the user
+export async function removeUserExportFiles(userId: string): Promise<void> {
+  await fs.rm(exportFilePath(userId), { recursive: true, force: true });
+}
+
+export function startExportCleanup(): void {
+  const run = () => purgeExpiredExports()
+    .then(count => {
+      if (count > 0) console.log(`🧹 Removed ${count} expired export(s)`);
+    })
+    .catch(error => console.error("❌ Export cleanup failed:", error));
+
+  run();
+  setInterval(run, CLEANUP_INTERVAL_MS).unref();
+}
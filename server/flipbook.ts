@@ -0,0 +1,662 @@
+import { escapeXml } from "./documentModel";
+
+// The interactive flipbook export: a static site (index.html plus the stylesheet and script below)
+// that any web server, or the browser straight from disk, can show. The book's sections are
+// rendered into index.html as ordinary HTML; the script cuts them into pages sized to the window
+// and adds page turning, the contents panel and search. Without JavaScript the same HTML reads as
+// one scrolling page.
+
+export type FlipbookSectionKind = "cover" | "matter" | "contents" | "chapter";
+
+export interface FlipbookSection {
+  // Also the section's anchor, so "#chapter-3" links straight to it
+  id: string;
+  kind: FlipbookSectionKind;
+  // Listed in the contents panel when set
+  title?: string;
+  html: string;
+}
+
+// Contents entries link to their sections; the script fills in the page numbers once it has paginated
+export function flipbookContentsList(sections: FlipbookSection[]): string {
+  const entries = sections.filter(section => section.title).map(section => `
+      <li><a href="#${section.id}" data-section="${section.id}">${escapeXml(section.title!)}</a><span class="fb-toc-page" data-section="${section.id}"></span></li>`);
+  return `<ol class="fb-toc-list">${entries.join("")}
+    </ol>`;
+}
+
+export function flipbookDocument(
+  book: { title: string; author: string; language: string },
+  sections: FlipbookSection[]
+): string {
+  const title = escapeXml(book.title);
+  return `<!DOCTYPE html>
+<html lang="${book.language}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="author" content="${escapeXml(book.author)}">
+  <title>${title}</title>
+  <link rel="stylesheet" href="theme.css">
+  <link rel="stylesheet" href="flipbook.css">
+  <script>document.documentElement.className += " fb-js";</script>
+</head>
+<body>
+  <div id="flipbook">
+    <header class="fb-toolbar">
+      <button type="button" class="fb-button" id="fb-toc-toggle" aria-controls="fb-toc" aria-expanded="false">Contents</button>
+      <div class="fb-book-title">${title}</div>
+      <form id="fb-search" role="search">
+        <input type="search" id="fb-search-input" placeholder="Search" aria-label="Search the book" autocomplete="off">
+      </form>
+    </header>
+    <div class="fb-body">
+      <nav id="fb-toc" class="fb-panel" aria-label="Contents" hidden>
+        <h2>Contents</h2>
+        ${flipbookContentsList(sections)}
+      </nav>
+      <div id="fb-results" class="fb-panel" aria-label="Search results" hidden></div>
+      <main class="fb-viewport">
+        <button type="button" class="fb-button fb-turn" id="fb-prev" aria-label="Previous page">&#8249;</button>
+        <div class="fb-stage-area" id="fb-stage-area">
+          <div class="fb-stage" id="fb-stage" role="region" aria-label="Book pages"></div>
+        </div>
+        <button type="button" class="fb-button fb-turn" id="fb-next" aria-label="Next page">&#8250;</button>
+      </main>
+    </div>
+    <footer class="fb-status">
+      <input type="range" id="fb-slider" min="1" max="1" value="1" aria-label="Go to page">
+      <span id="fb-position" aria-live="polite"></span>
+    </footer>
+  </div>
+  <div id="flipbook-source">
+${sections.map(section => `    <section class="fb-section fb-text fb-kind-${section.kind} fb-section-${section.id}" id="${section.id}">
+${section.html}
+    </section>`).join("\n")}
+  </div>
+  <script src="flipbook.js"></script>
+</body>
+</html>
+`;
+}
+
+export const FLIPBOOK_CSS = `*, *::before, *::after { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; }
+body {
+  font-family: var(--fb-font);
+  font-size: var(--fb-font-size);
+  line-height: var(--fb-line-height);
+  color: var(--fb-text);
+  background: #2b2b2e;
+}
+
+/* Without JavaScript the book is one scrolling page */
+#flipbook { display: none; }
+html.fb-js #flipbook { display: flex; }
+html.fb-js #flipbook-source { display: none; }
+#flipbook-source { max-width: 42em; margin: 0 auto; padding: 2em 1.5em; background: var(--fb-background); }
+#flipbook-source .fb-section + .fb-section { margin-top: 3em; padding-top: 3em; border-top: 1px solid rgba(0, 0, 0, 0.1); }
+
+#flipbook { flex-direction: column; height: 100%; }
+.fb-toolbar, .fb-status, .fb-panel { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; font-size: 14px; line-height: 1.4; }
+.fb-toolbar { display: flex; align-items: center; gap: 0.75rem; padding: 0.5rem 1rem; background: #1d1d20; color: #f4f4f5; }
+.fb-book-title { flex: 1; min-width: 0; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; font-weight: 600; }
+.fb-button { font: inherit; color: #f4f4f5; background: transparent; border: 1px solid rgba(255, 255, 255, 0.25); border-radius: 6px; padding: 0.35rem 0.75rem; cursor: pointer; }
+.fb-button:hover:not(:disabled) { background: rgba(255, 255, 255, 0.12); }
+.fb-button:disabled { opacity: 0.3; cursor: default; }
+.fb-button:focus-visible, .fb-panel a:focus-visible, .fb-result:focus-visible, #fb-search-input:focus-visible, #fb-slider:focus-visible {
+  outline: 2px solid var(--fb-accent);
+  outline-offset: 2px;
+}
+#fb-search { margin: 0; }
+#fb-search-input { font: inherit; width: 14rem; max-width: 40vw; padding: 0.35rem 0.6rem; border-radius: 6px; border: 1px solid rgba(255, 255, 255, 0.25); background: rgba(255, 255, 255, 0.08); color: inherit; }
+
+.fb-body { position: relative; flex: 1; display: flex; min-height: 0; }
+.fb-panel { position: absolute; top: 0; bottom: 0; z-index: 2; width: min(22rem, 85vw); overflow-y: auto; padding: 1rem 1.25rem; background: #ffffff; color: #1f2937; box-shadow: 0 0 24px rgba(0, 0, 0, 0.35); }
+.fb-panel[hidden] { display: none; }
+#fb-toc { left: 0; }
+#fb-results { right: 0; }
+.fb-panel h2 { font-size: 1rem; margin: 0 0 0.75rem; }
+.fb-toc-list { list-style: none; margin: 0; padding: 0; }
+.fb-toc-list li { display: flex; gap: 0.5rem; align-items: baseline; padding: 0.3rem 0; border-bottom: 1px dotted rgba(0, 0, 0, 0.2); }
+.fb-toc-list a { flex: 1; color: inherit; text-decoration: none; }
+.fb-toc-list a:hover, .fb-toc-list li.fb-current a { color: var(--fb-accent); }
+.fb-toc-list li.fb-current a { font-weight: 600; }
+.fb-toc-page { font-variant-numeric: tabular-nums; opacity: 0.7; }
+.fb-result { display: block; width: 100%; text-align: left; font: inherit; color: inherit; background: none; border: 0; border-bottom: 1px solid rgba(0, 0, 0, 0.08); padding: 0.5rem 0; cursor: pointer; }
+.fb-result:hover { color: var(--fb-accent); }
+.fb-result-page { display: block; font-size: 12px; opacity: 0.6; }
+
+.fb-viewport { flex: 1; display: flex; align-items: center; gap: 0.5rem; padding: 1rem 0.5rem; min-width: 0; }
+.fb-turn { flex: none; width: 2.75rem; height: 2.75rem; padding: 0; border-radius: 50%; font-size: 1.6rem; line-height: 1; }
+.fb-stage-area { flex: 1; align-self: stretch; display: flex; align-items: center; justify-content: center; min-width: 0; perspective: 2400px; }
+.fb-stage { position: relative; width: var(--fb-stage-width); height: var(--fb-page-height); }
+
+.fb-page {
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: var(--fb-page-width);
+  height: var(--fb-page-height);
+  display: flex;
+  flex-direction: column;
+  padding: 2.5em 2.25em 1.25em;
+  overflow: hidden;
+  background: var(--fb-background);
+  color: var(--fb-text);
+  box-shadow: 0 2px 12px rgba(0, 0, 0, 0.4);
+  visibility: hidden;
+}
+.fb-page.fb-visible { visibility: visible; }
+.fb-spread .fb-page.fb-right { left: var(--fb-page-width); }
+.fb-spread .fb-page.fb-left { box-shadow: inset -14px 0 18px -14px rgba(0, 0, 0, 0.3), 0 2px 12px rgba(0, 0, 0, 0.4); }
+.fb-spread .fb-page.fb-right { box-shadow: inset 14px 0 18px -14px rgba(0, 0, 0, 0.3), 0 2px 12px rgba(0, 0, 0, 0.4); }
+.fb-page-content { flex: 1; min-height: 0; overflow: hidden; }
+.fb-page-content > :first-child { margin-top: 0; }
+.fb-folio { flex: none; padding-top: 0.75em; text-align: center; font-size: 0.75em; opacity: 0.6; }
+
+.fb-page.fb-turn-next { transform-origin: left center; animation: fb-turn-next 0.45s ease-out; }
+.fb-page.fb-turn-prev { transform-origin: right center; animation: fb-turn-prev 0.45s ease-out; }
+@keyframes fb-turn-next { from { transform: rotateY(70deg); opacity: 0.4; } to { transform: none; opacity: 1; } }
+@keyframes fb-turn-prev { from { transform: rotateY(-70deg); opacity: 0.4; } to { transform: none; opacity: 1; } }
+@media (prefers-reduced-motion: reduce) {
+  .fb-page.fb-turn-next, .fb-page.fb-turn-prev { animation: none; }
+}
+
+.fb-status { display: flex; align-items: center; gap: 1rem; padding: 0.4rem 1rem; background: #1d1d20; color: #d4d4d8; }
+#fb-slider { flex: 1; accent-color: var(--fb-accent); }
+#fb-position { white-space: nowrap; font-variant-numeric: tabular-nums; }
+
+/* Book text, in the pages and in the scrolling fallback */
+.fb-text p { margin: 0 0 1em; }
+.fb-text h1 { font-size: 1.8em; line-height: 1.2; margin: 1em 0; }
+.fb-text h2 { font-size: 1.35em; line-height: 1.3; margin: 1.25em 0 0.5em; }
+.fb-text h3 { font-size: 1.15em; line-height: 1.3; margin: 1.25em 0 0.5em; }
+.fb-text h4, .fb-text h5, .fb-text h6 { font-size: 1em; margin: 1.25em 0 0.5em; }
+.fb-text img { display: block; max-width: 100%; max-height: calc(var(--fb-page-height, 100vh) * 0.7); height: auto; margin: 1em auto; }
+.fb-text blockquote { margin: 1em 1.5em; font-style: italic; }
+.fb-text pre { white-space: pre-wrap; font-size: 0.85em; padding: 0.75em; background: rgba(0, 0, 0, 0.05); }
+.fb-text table { border-collapse: collapse; margin: 1em 0; font-size: 0.9em; }
+.fb-text th, .fb-text td { border: 1px solid rgba(0, 0, 0, 0.2); padding: 0.3em 0.5em; }
+.fb-text a { color: var(--fb-accent); }
+.fb-text mark.fb-match { background: #fde047; color: inherit; }
+.fb-text .fb-continued { text-indent: 0; }
+.fb-text li.fb-continued { list-style-type: none; }
+.fb-text .fb-oversized { overflow: hidden; }
+
+.fb-kind-chapter > h1:first-child { margin-top: 1.5em; color: var(--fb-accent); }
+.fb-page.fb-kind-cover { padding: 0; }
+.fb-page.fb-kind-cover .fb-folio { display: none; }
+.fb-kind-cover { text-align: center; }
+.fb-page.fb-kind-cover .fb-page-content { display: flex; flex-direction: column; justify-content: center; }
+.fb-page .fb-cover-image { max-height: var(--fb-page-height); width: 100%; object-fit: contain; margin: 0; }
+.fb-cover-title { font-size: 2.2em; line-height: 1.2; margin: 0 1em 0.5em; }
+.fb-cover-subtitle { font-size: 1.3em; margin: 0 1em 1.5em; opacity: 0.8; }
+.fb-cover-author { font-size: 1.1em; }
+.fb-section-dedication { text-align: center; font-style: italic; }
+.fb-page.fb-section-dedication .fb-page-content { display: flex; flex-direction: column; justify-content: center; }
+.fb-section-copyright { font-size: 0.85em; }
+
+@media (max-width: 600px) {
+  .fb-turn { display: none; }
+  .fb-viewport { padding: 0.5rem; }
+  #fb-search-input { width: 8rem; }
+  .fb-page { padding: 1.5em 1.25em 0.75em; }
+}
+`;
+
+// Plain browser script with no dependencies, so the exported files need no build step
+export const FLIPBOOK_SCRIPT = String.raw`(function () {
+  'use strict';
+
+  // Width to height of a page, and the narrowest stage that shows two pages side by side
+  var PAGE_RATIO = 0.68;
+  var SPREAD_MIN_WIDTH = 900;
+  var MAX_SEARCH_RESULTS = 100;
+  // Elements a page break may fall inside; anything else moves to the next page whole
+  var SPLITTABLE = /^(P|DIV|BLOCKQUOTE|UL|OL|LI|DL|DD|PRE|EM|STRONG|B|I|A|SPAN|CODE|S|DEL|SUB|SUP|SMALL)$/;
+  var HEADING = /^H[1-6]$/;
+
+  var book = document.getElementById('flipbook');
+  var source = document.getElementById('flipbook-source');
+  var stage = document.getElementById('fb-stage');
+  var stageArea = document.getElementById('fb-stage-area');
+  var prevButton = document.getElementById('fb-prev');
+  var nextButton = document.getElementById('fb-next');
+  var slider = document.getElementById('fb-slider');
+  var position = document.getElementById('fb-position');
+  var toc = document.getElementById('fb-toc');
+  var tocToggle = document.getElementById('fb-toc-toggle');
+  var searchForm = document.getElementById('fb-search');
+  var searchInput = document.getElementById('fb-search-input');
+  var results = document.getElementById('fb-results');
+
+  var pages = [];
+  var sectionStarts = {};
+  var current = 0;
+  var spread = false;
+  var page = null;
+  var query = '';
+
+  // Every top-level block gets an id, so the reader keeps their place when the window is resized
+  Array.prototype.forEach.call(source.querySelectorAll('.fb-section > *'), function (block, index) {
+    block.setAttribute('data-block', String(index));
+  });
+
+  function overflows(content) {
+    return content.scrollHeight > content.clientHeight + 1;
+  }
+
+  function newPage(section) {
+    var element = document.createElement('div');
+    element.className = 'fb-page fb-kind-' + section.kind + ' fb-section-' + section.id;
+    element.setAttribute('aria-label', 'Page ' + (pages.length + 1));
+    var content = document.createElement('div');
+    content.className = 'fb-page-content fb-text fb-kind-' + section.kind;
+    var folio = document.createElement('div');
+    folio.className = 'fb-folio';
+    folio.textContent = String(pages.length + 1);
+    element.appendChild(content);
+    element.appendChild(folio);
+    stage.appendChild(element);
+    page = { element: element, content: content, section: section.id };
+    pages.push(page);
+  }
+
+  // Splits the last words of a text node off until what stays fits on the page
+  function splitText(node, container, content) {
+    var words = node.data.split(/(?=\s)/);
+    var probe = document.createTextNode('');
+    container.appendChild(probe);
+    var low = 0;
+    var high = words.length - 1;
+    while (low < high) {
+      var middle = Math.ceil((low + high) / 2);
+      probe.data = words.slice(0, middle).join('');
+      if (overflows(content)) high = middle - 1;
+      else low = middle;
+    }
+    if (low === 0) {
+      container.removeChild(probe);
+      return;
+    }
+    probe.data = words.slice(0, low).join('');
+    node.data = words.slice(low).join('').replace(/^\s+/, '');
+  }
+
+  // Moves the leading children of rest into container for as long as they fit on the page;
+  // rest keeps whatever has to go on the next one
+  function fillFrom(rest, container, content) {
+    while (rest.firstChild) {
+      var child = rest.firstChild;
+      container.appendChild(child);
+      if (!overflows(content)) continue;
+      rest.insertBefore(child, rest.firstChild);
+      if (child.nodeType === 3) {
+        splitText(child, container, content);
+      } else if (child.nodeType === 1 && SPLITTABLE.test(child.tagName)) {
+        var part = child.cloneNode(false);
+        container.appendChild(part);
+        if (overflows(content)) {
+          container.removeChild(part);
+        } else {
+          fillFrom(child, part, content);
+          if (part.firstChild) continueElement(part, child);
+          else container.removeChild(part);
+        }
+      }
+      return;
+    }
+  }
+
+  // The second half of a split element: no repeated id, no first-line indent and, for a numbered
+  // list, numbering that carries on
+  function continueElement(part, rest) {
+    rest.removeAttribute('id');
+    rest.classList.add('fb-continued');
+    if (rest.tagName === 'OL') {
+      var items = part.children.length;
+      if (rest.firstElementChild && rest.firstElementChild.classList.contains('fb-continued')) items -= 1;
+      rest.setAttribute('start', String((part.start || 1) + items));
+    }
+  }
+
+  function place(block, section) {
+    var content = page.content;
+    content.appendChild(block);
+    if (!overflows(content)) return;
+    content.removeChild(block);
+
+    if (SPLITTABLE.test(block.tagName)) {
+      var part = block.cloneNode(false);
+      content.appendChild(part);
+      if (!overflows(content)) fillFrom(block, part, content);
+      if (part.firstChild) {
+        continueElement(part, block);
+        if (!block.firstChild) return;
+      } else {
+        content.removeChild(part);
+      }
+    }
+
+    if (content.firstChild) {
+      // A heading stays with the text that follows it
+      var carried = null;
+      var last = content.lastElementChild;
+      if (last && last !== content.firstElementChild && HEADING.test(last.tagName)) {
+        carried = content.removeChild(last);
+      }
+      newPage(section);
+      if (carried) page.content.appendChild(carried);
+      place(block, section);
+      return;
+    }
+
+    // Nothing fits on an empty page (a very large table, say), so it gets the page to itself
+    block.classList.add('fb-oversized');
+    content.appendChild(block);
+  }
+
+  function sizePages() {
+    var width = stageArea.clientWidth;
+    var height = Math.max(stageArea.clientHeight, 240);
+    spread = width >= SPREAD_MIN_WIDTH && width > height * PAGE_RATIO * 2;
+    var pageWidth = Math.floor(Math.min(height * PAGE_RATIO, spread ? width / 2 : width));
+    book.classList.toggle('fb-spread', spread);
+    book.style.setProperty('--fb-page-width', pageWidth + 'px');
+    book.style.setProperty('--fb-page-height', height + 'px');
+    book.style.setProperty('--fb-stage-width', (spread ? pageWidth * 2 : pageWidth) + 'px');
+  }
+
+  function paginate() {
+    var anchor = pages[current] && pages[current].content.querySelector('[data-block]');
+    var anchorBlock = anchor ? anchor.getAttribute('data-block') : null;
+
+    sizePages();
+    stage.innerHTML = '';
+    pages = [];
+    sectionStarts = {};
+
+    Array.prototype.forEach.call(source.querySelectorAll('.fb-section'), function (element) {
+      var section = { id: element.id, kind: (element.className.match(/fb-kind-(\w+)/) || [])[1] || 'chapter' };
+      newPage(section);
+      sectionStarts[section.id] = pages.length - 1;
+      Array.prototype.forEach.call(element.children, function (block) {
+        place(block.cloneNode(true), section);
+      });
+    });
+
+    Array.prototype.forEach.call(document.querySelectorAll('.fb-toc-page'), function (label) {
+      var start = sectionStarts[label.getAttribute('data-section')];
+      label.textContent = start === undefined ? '' : String(start + 1);
+    });
+
+    slider.max = String(pages.length);
+    var target = 0;
+    if (anchorBlock !== null) {
+      for (var index = 0; index < pages.length; index++) {
+        if (pages[index].content.querySelector('[data-block="' + anchorBlock + '"]')) {
+          target = index;
+          break;
+        }
+      }
+    } else {
+      target = pageFromHash() || 0;
+    }
+    show(target, 0);
+  }
+
+  function spreadStart(index) {
+    if (!spread || index === 0) return index;
+    return index % 2 === 1 ? index : index - 1;
+  }
+
+  // The pages on screen: one, or two side by side with the cover alone on the right
+  function visiblePages(start) {
+    if (!spread) return [start];
+    if (start === 0) return [0];
+    return start + 1 < pages.length ? [start, start + 1] : [start];
+  }
+
+  function show(index, direction) {
+    if (!pages.length) return;
+    var start = spreadStart(Math.max(0, Math.min(index, pages.length - 1)));
+    var visible = visiblePages(start);
+    pages.forEach(function (entry, pageIndex) {
+      var shown = visible.indexOf(pageIndex) !== -1;
+      var classes = entry.element.classList;
+      classes.toggle('fb-visible', shown);
+      classes.toggle('fb-left', shown && spread && pageIndex === visible[0] && pageIndex !== 0);
+      classes.toggle('fb-right', shown && spread && (pageIndex === 0 || pageIndex !== visible[0]));
+      classes.remove('fb-turn-next', 'fb-turn-prev');
+      if (shown && direction) {
+        // Restart the animation even when the same page is turned to twice in a row
+        void entry.element.offsetWidth;
+        classes.add(direction > 0 ? 'fb-turn-next' : 'fb-turn-prev');
+      }
+    });
+    current = start;
+
+    var first = visible[0] + 1;
+    var last = visible[visible.length - 1] + 1;
+    position.textContent = (first === last ? 'Page ' + first : 'Pages ' + first + '–' + last) + ' of ' + pages.length;
+    slider.value = String(first);
+    prevButton.disabled = start === 0;
+    nextButton.disabled = last >= pages.length;
+    if (history.replaceState) history.replaceState(null, '', '#page-' + first);
+
+    var currentSection = pages[visible[visible.length - 1]].section;
+    Array.prototype.forEach.call(toc.querySelectorAll('li'), function (item) {
+      var link = item.querySelector('[data-section]');
+      item.classList.toggle('fb-current', !!link && link.getAttribute('data-section') === currentSection);
+    });
+    highlight();
+  }
+
+  function next() {
+    var visible = visiblePages(current);
+    if (visible[visible.length - 1] + 1 < pages.length) show(visible[visible.length - 1] + 1, 1);
+  }
+
+  function previous() {
+    if (current > 0) show(current - 1, -1);
+  }
+
+  // The page a "#page-12", section or element anchor points at; null for anything else
+  function pageFromHash() {
+    var hash = decodeURIComponent(location.hash.slice(1));
+    var match = /^page-(\d+)$/.exec(hash);
+    if (match) return Number(match[1]) - 1;
+    if (sectionStarts[hash] !== undefined) return sectionStarts[hash];
+    var element = hash && stage.querySelector('[id="' + hash.replace(/["\\]/g, '\\$&') + '"]');
+    for (var index = 0; element && index < pages.length; index++) {
+      if (pages[index].element.contains(element)) return index;
+    }
+    return null;
+  }
+
+  function goToSection(id) {
+    if (sectionStarts[id] === undefined) return;
+    var target = sectionStarts[id];
+    show(target, target >= current ? 1 : -1);
+  }
+
+  function setPanel(panel, open) {
+    panel.hidden = !open;
+    if (panel === toc) tocToggle.setAttribute('aria-expanded', String(open));
+  }
+
+  // Search
+
+  function clearHighlights() {
+    Array.prototype.forEach.call(stage.querySelectorAll('mark.fb-match'), function (mark) {
+      var parent = mark.parentNode;
+      parent.replaceChild(document.createTextNode(mark.textContent), mark);
+      parent.normalize();
+    });
+  }
+
+  function highlight() {
+    clearHighlights();
+    if (!query) return;
+    var needle = query.toLowerCase();
+    visiblePages(current).forEach(function (index) {
+      var walker = document.createTreeWalker(pages[index].content, NodeFilter.SHOW_TEXT, null);
+      var nodes = [];
+      while (walker.nextNode()) nodes.push(walker.currentNode);
+      nodes.forEach(function (node) {
+        var at = node.data.toLowerCase().indexOf(needle);
+        while (at !== -1) {
+          var match = node.splitText(at);
+          node = match.splitText(needle.length);
+          var mark = document.createElement('mark');
+          mark.className = 'fb-match';
+          match.parentNode.replaceChild(mark, match);
+          mark.appendChild(match);
+          at = node.data.toLowerCase().indexOf(needle);
+        }
+      });
+    });
+  }
+
+  function snippet(text, at, length) {
+    var start = Math.max(0, at - 40);
+    var end = Math.min(text.length, at + length + 60);
+    var element = document.createElement('span');
+    element.appendChild(document.createTextNode((start > 0 ? '…' : '') + text.slice(start, at)));
+    var mark = document.createElement('mark');
+    mark.className = 'fb-match';
+    mark.textContent = text.slice(at, at + length);
+    element.appendChild(mark);
+    element.appendChild(document.createTextNode(text.slice(at + length, end) + (end < text.length ? '…' : '')));
+    return element;
+  }
+
+  function search(text) {
+    query = text.trim();
+    results.innerHTML = '';
+    if (query.length < 2) {
+      query = '';
+      setPanel(results, false);
+      highlight();
+      return;
+    }
+
+    var heading = document.createElement('h2');
+    results.appendChild(heading);
+    var needle = query.toLowerCase();
+    var count = 0;
+    clearHighlights();
+    for (var index = 0; index < pages.length && count < MAX_SEARCH_RESULTS; index++) {
+      var pageText = pages[index].content.textContent.replace(/\s+/g, ' ');
+      var lower = pageText.toLowerCase();
+      var at = lower.indexOf(needle);
+      while (at !== -1 && count < MAX_SEARCH_RESULTS) {
+        var button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'fb-result';
+        button.setAttribute('data-page', String(index));
+        var label = document.createElement('span');
+        label.className = 'fb-result-page';
+        label.textContent = 'Page ' + (index + 1);
+        button.appendChild(label);
+        button.appendChild(snippet(pageText, at, needle.length));
+        results.appendChild(button);
+        count++;
+        at = lower.indexOf(needle, at + needle.length);
+      }
+    }
+    heading.textContent = count === 0 ? 'No matches' : count >= MAX_SEARCH_RESULTS ? 'First ' + count + ' matches' : count + (count === 1 ? ' match' : ' matches');
+    setPanel(toc, false);
+    setPanel(results, true);
+    highlight();
+  }
+
+  // Controls
+
+  prevButton.addEventListener('click', previous);
+  nextButton.addEventListener('click', next);
+  slider.addEventListener('input', function () {
+    var target = Number(slider.value) - 1;
+    show(target, target >= current ? 1 : -1);
+  });
+  tocToggle.addEventListener('click', function () {
+    setPanel(results, false);
+    setPanel(toc, toc.hidden);
+  });
+
+  var searchTimer = null;
+  searchInput.addEventListener('input', function () {
+    clearTimeout(searchTimer);
+    searchTimer = setTimeout(function () { search(searchInput.value); }, 250);
+  });
+  searchForm.addEventListener('submit', function (event) {
+    event.preventDefault();
+    clearTimeout(searchTimer);
+    search(searchInput.value);
+  });
+
+  document.addEventListener('click', function (event) {
+    var link = event.target.closest && event.target.closest('a[data-section]');
+    if (link) {
+      event.preventDefault();
+      setPanel(toc, false);
+      goToSection(link.getAttribute('data-section'));
+      return;
+    }
+    var result = event.target.closest && event.target.closest('.fb-result');
+    if (result) {
+      var target = Number(result.getAttribute('data-page'));
+      show(target, target >= current ? 1 : -1);
+    }
+  });
+
+  document.addEventListener('keydown', function (event) {
+    if (event.key === 'Escape') {
+      setPanel(toc, false);
+      setPanel(results, false);
+      return;
+    }
+    var tag = event.target.tagName;
+    if (tag === 'INPUT' || tag === 'TEXTAREA' || event.altKey || event.ctrlKey || event.metaKey) return;
+    if (event.key === 'ArrowRight' || event.key === 'PageDown' || event.key === ' ') next();
+    else if (event.key === 'ArrowLeft' || event.key === 'PageUp') previous();
+    else if (event.key === 'Home') show(0, -1);
+    else if (event.key === 'End') show(pages.length - 1, 1);
+    else return;
+    event.preventDefault();
+  });
+
+  var touchX = null;
+  stageArea.addEventListener('touchstart', function (event) {
+    touchX = event.touches.length === 1 ? event.touches[0].clientX : null;
+  }, { passive: true });
+  stageArea.addEventListener('touchend', function (event) {
+    if (touchX === null) return;
+    var distance = event.changedTouches[0].clientX - touchX;
+    touchX = null;
+    if (distance < -50) next();
+    else if (distance > 50) previous();
+  });
+
+  window.addEventListener('hashchange', function () {
+    var target = pageFromHash();
+    if (target !== null && visiblePages(current).indexOf(target) === -1) show(target, target >= current ? 1 : -1);
+  });
+
+  var resizeTimer = null;
+  window.addEventListener('resize', function () {
+    clearTimeout(resizeTimer);
+    resizeTimer = setTimeout(paginate, 200);
+  });
+
+  // Pages are measured with the final fonts and image sizes, so wait for both
+  var images = Array.prototype.map.call(source.querySelectorAll('img'), function (image) {
+    return image.complete ? null : new Promise(function (resolve) {
+      image.addEventListener('load', resolve);
+      image.addEventListener('error', resolve);
+    });
+  });
+  Promise.all(images.concat([document.fonts ? document.fonts.ready : null])).then(paginate);
+})();
+`;
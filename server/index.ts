@@ -2,9 +2,18 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeDatabase, closeDatabaseConnection } from "./db";
+import { resumeGenerationJobs } from "./jobQueue";
+import { startExportCleanup } from "./exportStore";
+import { startCreditReservationSweep } from "./credits";
+import { startCreditResetScheduler } from "./creditPlans";
+import { BILLING_WEBHOOK_PATH, type RawBodyRequest } from "./billing";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    if (req.url === BILLING_WEBHOOK_PATH) (req as RawBodyRequest).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -137,6 +146,18 @@ function setupGracefulShutdown(server: any) {
       log(`🎯 App ready for deployment verification`);
     });
 
+    // Pick up background generation jobs interrupted by the last shutdown
+    await resumeGenerationJobs();
+
+    // Remove exported files past their retention period, now and hourly
+    startExportCleanup();
+
+    // Refund credits held by operations the last shutdown interrupted, now and every few minutes
+    startCreditReservationSweep();
+
+    // Grant each user's plan credits when their billing period starts, now and hourly
+    startCreditResetScheduler();
+
     // Setup graceful shutdown
     setupGracefulShutdown(server);
     
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { creditLedger, creditReservations, users, type BookDetails, type Chapter, type User } from "@shared/schema";
+
+const { regenerateChapter } = vi.hoisted(() => ({ regenerateChapter: vi.fn<(title: string) => Promise<string>>() }));
+
+vi.mock("./db", async () => (await import("./testDatabase")).createTestDatabase());
+vi.mock("./anthropic.js", () => ({ regenerateChapter }));
+vi.mock("./chapterContext", () => ({
+  planChapterGeneration: async () => ({ promptName: "chapter", context: {} }),
+}));
+
+const { db } = await import("./db");
+const { storage } = await import("./storage");
+const { releaseExpiredCreditReservations } = await import("./credits");
+const { cancelGenerationJob, enqueueChapterGenerationJob } = await import("./jobQueue");
+
+const BOOK_DETAILS: BookDetails = {
+  title: "A Book",
+  description: "About things",
+  targetAudience: "Readers",
+  toneStyle: "Plain",
+  mission: "Inform",
+  author: "An Author",
+};
+
+// The default prices: the whole book costs 5 credits and a single chapter 1
+const WHOLE_BOOK = { action: "generate_book" as const, amount: 5 };
+
+let userCount = 0;
+
+async function createUser(credits: number): Promise<User> {
+  userCount++;
+  const [user] = await db
+    .insert(users)
+    .values({ username: `writer${userCount}`, email: `writer${userCount}@example.com`, password: "unused", credits: 0 })
+    .returning();
+  return (await storage.grantCredits(user.id, credits, "signup"))!;
+}
+
+async function createBookWithChapters(user: User, titles: string[]): Promise<Chapter[]> {
+  const book = await storage.createBook({ userId: user.id, title: "A Book" });
+  const chapters: Chapter[] = [];
+  for (const [index, title] of titles.entries()) {
+    chapters.push(await storage.createChapter({ bookId: book.id, chapterNumber: index + 1, title, content: "" }));
+  }
+  return chapters;
+}
+
+async function startJob(user: User, chapters: Chapter[]) {
+  const { job } = await enqueueChapterGenerationJob({
+    user,
+    bookId: chapters[0].bookId,
+    bookDetails: BOOK_DETAILS,
+    chapters: chapters.map(chapter => ({ id: chapter.id, title: chapter.title, chapterNumber: chapter.chapterNumber })),
+    charge: WHOLE_BOOK,
+  });
+  return job!;
+}
+
+async function balance(userId: string): Promise<number> {
+  return (await storage.getUser(userId))!.credits;
+}
+
+async function ledgerAmounts(userId: string): Promise<Array<[string, number]>> {
+  const entries = await db.select().from(creditLedger).where(eq(creditLedger.userId, userId)).orderBy(creditLedger.createdAt);
+  return entries.map(entry => [entry.kind, entry.amount]);
+}
+
+// A job is done once it has stopped running and its hold has been settled
+async function waitForJob(jobId: string, status: string) {
+  await vi.waitFor(async () => {
+    const job = await storage.getGenerationJob(jobId);
+    expect(job?.status).toBe(status);
+    expect(job?.reservationId).toBeNull();
+  }, { timeout: 10000, interval: 20 });
+}
+
+// A chapter whose text arrives only when the test says so
+function deferredChapter() {
+  let finish!: (content: string) => void;
+  let started!: () => void;
+  const hasStarted = new Promise<void>(resolve => { started = resolve; });
+  const content = new Promise<string>(resolve => { finish = resolve; });
+  return { hasStarted, finish, run: () => { started(); return content; } };
+}
+
+beforeEach(() => {
+  regenerateChapter.mockReset();
+  regenerateChapter.mockImplementation(async title => `Text of ${title}`);
+});
+
+describe("chapter generation jobs", () => {
+  it("holds the whole-book price and keeps it when every chapter is written", async () => {
+    const user = await createUser(10);
+    const chapters = await createBookWithChapters(user, ["One", "Two", "Three"]);
+
+    const job = await startJob(user, chapters);
+    expect(await balance(user.id)).toBe(5);
+    await waitForJob(job.id, "completed");
+
+    expect(await balance(user.id)).toBe(5);
+    expect(await ledgerAmounts(user.id)).toEqual([["grant", 10], ["spend", -5]]);
+    const [hold] = await db.select().from(creditReservations).where(eq(creditReservations.userId, user.id));
+    expect(hold.status).toBe("captured");
+    expect((await storage.getBookChapters(chapters[0].bookId)).map(chapter => chapter.content))
+      .toEqual(["Text of One", "Text of Two", "Text of Three"]);
+  });
+
+  it("does not start when the balance does not cover the whole book", async () => {
+    const user = await createUser(4);
+    const chapters = await createBookWithChapters(user, ["One"]);
+
+    const result = await enqueueChapterGenerationJob({
+      user,
+      bookId: chapters[0].bookId,
+      bookDetails: BOOK_DETAILS,
+      chapters: [{ id: chapters[0].id, title: "One", chapterNumber: 1 }],
+      charge: WHOLE_BOOK,
+    });
+
+    expect(result).toEqual({ insufficient: { required: 5, available: 4 } });
+    expect(regenerateChapter).not.toHaveBeenCalled();
+  });
+
+  it("refunds the hold on cancel and charges only the chapters written", async () => {
+    const user = await createUser(10);
+    const chapters = await createBookWithChapters(user, ["One", "Two", "Three"]);
+    const second = deferredChapter();
+    regenerateChapter.mockImplementation(async title => title === "Two" ? second.run() : `Text of ${title}`);
+
+    const job = await startJob(user, chapters);
+    await second.hasStarted;
+    const cancelled = await cancelGenerationJob(job.id);
+    expect(cancelled?.status).toBe("cancelled");
+    second.finish("Text of Two");
+    await waitForJob(job.id, "cancelled");
+
+    // The hold is refunded and the one finished chapter charged at the single-chapter price
+    await vi.waitFor(async () => expect(await balance(user.id)).toBe(9));
+    expect(await ledgerAmounts(user.id)).toEqual([["grant", 10], ["spend", -5], ["refund", 5], ["spend", -1]]);
+
+    // The chapter that finished after the cancel does not replace the user's text
+    const saved = await storage.getBookChapters(chapters[0].bookId);
+    expect(saved.map(chapter => chapter.content)).toEqual(["Text of One", "", ""]);
+    expect(regenerateChapter).toHaveBeenCalledTimes(2);
+  });
+
+  it("charges the written chapters when the sweep refunded the hold before the job finished", async () => {
+    const user = await createUser(10);
+    const chapters = await createBookWithChapters(user, ["One", "Two"]);
+    const second = deferredChapter();
+    regenerateChapter.mockImplementation(async title => title === "Two" ? second.run() : `Text of ${title}`);
+
+    const job = await startJob(user, chapters);
+    await second.hasStarted;
+    // The job outlives its hold, say after a long outage
+    await releaseExpiredCreditReservations(new Date(Date.now() + 48 * 60 * 60 * 1000));
+    expect(await balance(user.id)).toBe(10);
+    second.finish("Text of Two");
+    await waitForJob(job.id, "completed");
+
+    await vi.waitFor(async () => expect(await balance(user.id)).toBe(8));
+    expect(await ledgerAmounts(user.id)).toEqual([["grant", 10], ["spend", -5], ["refund", 5], ["spend", -2]]);
+  });
+
+  it("never charges more than the whole-book price once the hold is gone", async () => {
+    const user = await createUser(20);
+    const chapters = await createBookWithChapters(user, ["1", "2", "3", "4", "5", "6", "7"]);
+    const last = deferredChapter();
+    regenerateChapter.mockImplementation(async title => title === "7" ? last.run() : `Text of ${title}`);
+
+    const job = await startJob(user, chapters);
+    await last.hasStarted;
+    await releaseExpiredCreditReservations(new Date(Date.now() + 48 * 60 * 60 * 1000));
+    last.finish("Text of 7");
+    await waitForJob(job.id, "completed");
+
+    await vi.waitFor(async () => expect(await balance(user.id)).toBe(15));
+  });
+
+  it("leaves a finished job alone when a cancel arrives afterwards", async () => {
+    const user = await createUser(10);
+    const chapters = await createBookWithChapters(user, ["One"]);
+
+    const job = await startJob(user, chapters);
+    await waitForJob(job.id, "completed");
+    const afterCancel = await cancelGenerationJob(job.id);
+
+    expect(afterCancel?.status).toBe("completed");
+    expect(await balance(user.id)).toBe(5);
+  });
+});
@@ -0,0 +1,241 @@
+import { storage } from "./storage";
+import { regenerateChapter } from "./anthropic.js";
+import { planChapterGeneration } from "./chapterContext";
+import { creditCost, holdCredits, renewCreditHold, withCredits, type InsufficientCredits } from "./credits";
+import type { BookDetails, ChapterBrief, CreditAction, GenerationJob, GenerationJobItem, User } from "@shared/schema";
+
+const RETRY_BASE_DELAY_MS = 5000;
+
+// Jobs currently being processed by this server instance
+const activeJobs = new Set<string>();
+
+function countWords(text: string): number {
+  if (!text || text.trim() === '') return 0;
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+interface EnqueueChapterJobInput {
+  user: User;
+  bookId?: string | null;
+  bookDetails: BookDetails;
+  chapters: Array<{ id: string; title: string; chapterNumber: number; brief?: ChapterBrief }>;
+  // The whole-book price, held for as long as the job runs
+  charge: { amount: number; action: CreditAction };
+}
+
+export async function enqueueChapterGenerationJob(input: EnqueueChapterJobInput): Promise<{ job?: GenerationJob; insufficient?: InsufficientCredits }> {
+  const held = await holdCredits(input.user, { ...input.charge, bookId: input.bookId || undefined });
+  if (held.insufficient) {
+    return { insufficient: held.insufficient };
+  }
+
+  const items: GenerationJobItem[] = input.chapters.map(chapter => ({
+    chapterId: chapter.id,
+    chapterNumber: chapter.chapterNumber,
+    title: chapter.title,
+    brief: chapter.brief,
+    status: "pending",
+    attempts: 0,
+  }));
+
+  let job: GenerationJob;
+  try {
+    job = await storage.createGenerationJob({
+      userId: input.user.id,
+      bookId: input.bookId || null,
+      type: "generate_chapters",
+      status: "queued",
+      bookDetails: input.bookDetails,
+      items,
+      reservationId: held.reservation?.id ?? null,
+    });
+  } catch (error) {
+    if (held.reservation) {
+      await storage.releaseCreditReservation(held.reservation.id, "The generation job could not be created")
+        .catch(releaseError => console.error("❌ Failed to refund credits:", releaseError));
+    }
+    throw error;
+  }
+
+  scheduleJob(job.id);
+  return { job };
+}
+
+// A job that wrote every chapter keeps the whole-book price. Otherwise the hold is refunded and the
+// chapters it did write are charged one by one, never more than the whole-book price. A job that
+// outlived its hold, which the sweep has already refunded, pays for its written chapters the same way.
+async function settleJobCredits(job: GenerationJob, items: GenerationJobItem[], reason: string): Promise<void> {
+  if (!job.reservationId) return;
+  try {
+    // However many places notice the job ending, only one settles it
+    if (!await storage.claimGenerationJobReservation(job.id, job.reservationId)) return;
+
+    const written = items.filter(item => item.status === "completed").length;
+    if (written === items.length && await storage.captureCreditReservation(job.reservationId)) return;
+
+    const released = written < items.length
+      ? await storage.releaseCreditReservation(job.reservationId, reason)
+      : undefined;
+    const user = await storage.getUser(job.userId);
+    if (written === 0 || !user) return;
+
+    const cap = released?.amount ?? await creditCost(user, "generate_book");
+    const amount = Math.min(written * await creditCost(user, "generate_chapter"), cap);
+    const charged = await withCredits(user, { action: "generate_chapter", amount, bookId: job.bookId || undefined }, async () => undefined);
+    if (charged.insufficient) {
+      console.error(`Generation job ${job.id}: could not charge ${amount} credit(s) for ${written} written chapter(s)`);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to settle credits for generation job ${job.id}:`, error);
+  }
+}
+
+export async function cancelGenerationJob(jobId: string): Promise<GenerationJob | undefined> {
+  const job = await storage.getGenerationJob(jobId);
+  if (!job || (job.status !== "queued" && job.status !== "running")) {
+    return job;
+  }
+
+  const cancelled = await storage.updateGenerationJob(jobId, {
+    status: "cancelled",
+    completedAt: new Date(),
+  }, ["queued", "running"]);
+  // It finished while the cancel was on its way
+  if (!cancelled) return storage.getGenerationJob(jobId);
+
+  // A job this server is running settles once it notices; any other job will never run again
+  if (!activeJobs.has(jobId)) {
+    await settleJobCredits(cancelled, cancelled.items, "Generation job cancelled");
+  }
+  return cancelled;
+}
+
+// Pick up jobs that were queued or mid-run when the server last stopped
+export async function resumeGenerationJobs(): Promise<void> {
+  try {
+    const jobs = await storage.getUnfinishedGenerationJobs();
+    if (jobs.length > 0) {
+      console.log(`🔄 Resuming ${jobs.length} unfinished generation job(s)`);
+    }
+    jobs.forEach(job => scheduleJob(job.id));
+  } catch (error) {
+    console.error('❌ Failed to resume generation jobs:', error);
+  }
+}
+
+// True when the job was cancelled (or deleted with its book), after settling its credits
+async function stopIfCancelled(jobId: string, items: GenerationJobItem[]): Promise<boolean> {
+  const current = await storage.getGenerationJob(jobId);
+  if (current && current.status !== "cancelled") return false;
+
+  console.log(`Generation job ${jobId} cancelled`);
+  if (current) await settleJobCredits(current, items, "Generation job cancelled");
+  return true;
+}
+
+function scheduleJob(jobId: string) {
+  if (activeJobs.has(jobId)) return;
+  activeJobs.add(jobId);
+
+  setImmediate(() => {
+    runJob(jobId)
+      .catch(error => console.error(`Generation job ${jobId} crashed:`, error))
+      .finally(() => activeJobs.delete(jobId));
+  });
+}
+
+async function runJob(jobId: string): Promise<void> {
+  let job = await storage.getGenerationJob(jobId);
+  if (!job) return;
+  if (job.status === "cancelled") {
+    await settleJobCredits(job, job.items, "Generation job cancelled");
+    return;
+  }
+  if (job.status !== "queued" && job.status !== "running") return;
+
+  // An item left "running" by a previous process never finished, so it goes back to pending
+  const items = job.items.map(item => item.status === "running" ? { ...item, status: "pending" as const } : item);
+
+  job = await storage.updateGenerationJob(jobId, {
+    status: "running",
+    items,
+    startedAt: job.startedAt || new Date(),
+  }, ["queued", "running"]);
+  if (!job) {
+    await stopIfCancelled(jobId, items);
+    return;
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    if (items[i].status !== "pending") continue;
+
+    while (items[i].status === "pending") {
+      // Stop between chapters if the user cancelled the job
+      if (await stopIfCancelled(jobId, items)) return;
+
+      items[i] = { ...items[i], status: "running", attempts: items[i].attempts + 1, error: undefined };
+      await storage.updateGenerationJob(jobId, { items });
+      if (job.reservationId) await renewCreditHold(job.reservationId);
+
+      try {
+        // Planned per item, so each chapter sees the summaries of the ones this job just wrote
+        const plan = await planChapterGeneration({
+          bookId: job.bookId,
+          chapterId: items[i].chapterId,
+          chapterNumber: items[i].chapterNumber,
+          chapterTitle: items[i].title,
+          requestBrief: items[i].brief,
+          bookDetails: job.bookDetails,
+        });
+        const content = await regenerateChapter(items[i].title, job.bookDetails, "chapter", plan.context);
+
+        // A cancel that arrived while the chapter was being written must not let it replace the user's text
+        if (await stopIfCancelled(jobId, items)) {
+          items[i] = { ...items[i], status: "pending" };
+          await storage.updateGenerationJob(jobId, { items });
+          return;
+        }
+
+        if (job.bookId) {
+          await storage.upsertChapter(job.bookId, {
+            id: items[i].chapterId,
+            chapterNumber: items[i].chapterNumber,
+            title: items[i].title,
+            content,
+            brief: plan.context.chapterBrief,
+          });
+        }
+
+        items[i] = { ...items[i], status: "completed", content, wordCount: countWords(content) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error(`Generation job ${jobId}: chapter "${items[i].title}" attempt ${items[i].attempts} failed:`, message);
+
+        const canRetry = items[i].attempts < job.maxAttempts;
+        items[i] = { ...items[i], status: canRetry ? "pending" : "failed", error: message };
+
+        if (canRetry) {
+          await storage.updateGenerationJob(jobId, { items });
+          await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * items[i].attempts));
+          continue;
+        }
+      }
+
+      await storage.updateGenerationJob(jobId, { items });
+    }
+  }
+
+  // Only a job still running finishes; one cancelled during the last chapter stays cancelled
+  const failedCount = items.filter(item => item.status === "failed").length;
+  const finished = await storage.updateGenerationJob(jobId, {
+    status: failedCount > 0 ? "failed" : "completed",
+    items,
+    error: failedCount > 0 ? `${failedCount} chapter(s) failed to generate` : null,
+    completedAt: new Date(),
+  }, ["running"]);
+  if (!finished) {
+    await stopIfCancelled(jobId, items);
+    return;
+  }
+  await settleJobCredits(finished, items, `${failedCount} chapter(s) failed to generate`);
+}
@@ -0,0 +1,546 @@
+import path from "path";
+import mammoth from "mammoth";
+import JSZip from "jszip";
+import { XMLParser } from "fast-xml-parser";
+import { bookMatterSchema, type BookMatter } from "@shared/schema";
+
+// Turns an existing draft into book details plus ordered chapters. Every format is first converted
+// to Markdown (the format chapter content is stored in), then split into chapters on its headings.
+
+export const MAX_MANUSCRIPT_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const MAX_IMPORTED_CHAPTERS = 200;
+
+export type ManuscriptFormat = "docx" | "md" | "html" | "epub";
+
+const EXTENSION_FORMATS: Record<string, ManuscriptFormat> = {
+  ".docx": "docx",
+  ".md": "md",
+  ".markdown": "md",
+  ".html": "html",
+  ".htm": "html",
+  ".xhtml": "html",
+  ".epub": "epub",
+};
+
+const MIME_FORMATS: Record<string, ManuscriptFormat> = {
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/markdown": "md",
+  "text/x-markdown": "md",
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "application/epub+zip": "epub",
+};
+
+// The languages the Details step offers, keyed by their ISO 639-1 code
+const LANGUAGES: Record<string, string> = {
+  en: "English (EN)",
+  es: "Spanish (ES)",
+  fr: "French (FR)",
+  de: "German (DE)",
+  it: "Italian (IT)",
+  pt: "Portuguese (PT)",
+};
+
+export interface ManuscriptMetadata {
+  title?: string;
+  subtitle?: string;
+  author?: string;
+  description?: string;
+  language?: string;
+  keywords?: string[];
+}
+
+export interface ImportedManuscript {
+  metadata: ManuscriptMetadata;
+  // Dedication, acknowledgements and about-the-author sections found in the text; null when there were none
+  bookMatter: BookMatter | null;
+  chapters: Array<{ title: string; content: string }>;
+}
+
+// Headings that introduce generated navigation rather than content
+const SKIPPED_SECTIONS = /^(table of )?contents$/i;
+
+const MATTER_SECTIONS: Array<{ pattern: RegExp; field: "dedication" | "acknowledgements" | "aboutAuthor" }> = [
+  { pattern: /^dedication$/i, field: "dedication" },
+  { pattern: /^acknowledge?ments?$/i, field: "acknowledgements" },
+  { pattern: /^about the author$/i, field: "aboutAuthor" },
+];
+
+// "Chapter 3: ", "Chapter Three - " or "Chapter III. " in front of a title; exports add their own numbering
+const CHAPTER_LABEL = /^chapter\s+(?:\d+|[ivxlcdm]+|[a-z]+(?:-[a-z]+)?)\s*(?:[:.\-–—]\s*|$)/i;
+
+export function detectManuscriptFormat(filename: string, mimeType?: string): ManuscriptFormat | null {
+  const byExtension = EXTENSION_FORMATS[path.extname(filename).toLowerCase()];
+  if (byExtension) return byExtension;
+  return (mimeType && MIME_FORMATS[mimeType.split(";")[0].trim()]) || null;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  mdash: "—", ndash: "–", hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", copy: "©",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function attribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : null;
+}
+
+// Everything here either carries no readable text or repeats what the chapters already hold
+const SKIPPED_TAGS = new Set(["head", "script", "style", "noscript", "template", "svg", "nav"]);
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "header", "footer", "main", "aside", "figure", "figcaption",
+  "table", "thead", "tbody", "tr", "blockquote", "ul", "ol", "li", "pre", "body", "dl", "dt", "dd",
+]);
+const LINE_BREAK = "\u2028";
+
+// A forgiving HTML to Markdown conversion: headings, paragraphs, lists, quotes, emphasis, links and
+// code survive; layout and styling are dropped. Tolerates the unclosed tags hand-written HTML has.
+export function htmlToMarkdown(html: string): string {
+  const blocks: string[] = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  const links: Array<string | null> = [];
+  let text = "";
+  let heading = 0;
+  let quoteDepth = 0;
+  let preformatted = false;
+  let itemPrefix: string | null = null;
+
+  const flush = () => {
+    const content = preformatted
+      ? text.replace(/^\n+|\s+$/g, "")
+      : text.replace(/[ \t\r\n\f]+/g, " ").replace(new RegExp(` ?${LINE_BREAK} ?`, "g"), "  \n").trim();
+    text = "";
+    if (!content) return;
+
+    let block = preformatted ? "```\n" + content + "\n```" : content;
+    if (heading) {
+      block = `${"#".repeat(heading)} ${block.replace(/\s*\n\s*/g, " ")}`;
+    } else if (itemPrefix !== null) {
+      const indent = "   ".repeat(Math.max(lists.length - 1, 0));
+      block = indent + itemPrefix + block.replace(/\n/g, `\n${indent}   `);
+      itemPrefix = null;
+    }
+    if (quoteDepth > 0) {
+      block = block.split("\n").map(line => `${"> ".repeat(quoteDepth)}${line}`).join("\n");
+    }
+    blocks.push(block);
+  };
+
+  const tokens = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|([^<]+|<)/g;
+  const lowerHtml = html.toLowerCase();
+  let token: RegExpExecArray | null;
+  while ((token = tokens.exec(html)) !== null) {
+    const [, cdata, closing, rawTag, attributes = "", rawText] = token;
+    if (rawText !== undefined || cdata !== undefined) {
+      text += decodeEntities(rawText ?? cdata);
+      continue;
+    }
+    if (!rawTag) continue;
+
+    const tag = rawTag.toLowerCase().replace(/^.*:/, "");
+    const selfClosing = attributes.trim().endsWith("/");
+    if (SKIPPED_TAGS.has(tag)) {
+      // Jump past the closing tag; script and style bodies may contain "<" that isn't markup
+      if (!closing && !selfClosing) {
+        const end = lowerHtml.indexOf(`</${rawTag.toLowerCase()}`, tokens.lastIndex);
+        tokens.lastIndex = end === -1 ? html.length : end;
+      }
+      continue;
+    }
+
+    const headingLevel = /^h([1-6])$/.exec(tag);
+    if (headingLevel) {
+      flush();
+      heading = closing ? 0 : Number(headingLevel[1]);
+    } else if (tag === "br") {
+      text += preformatted ? "\n" : LINE_BREAK;
+    } else if (tag === "hr") {
+      flush();
+      blocks.push("---");
+    } else if (tag === "ul" || tag === "ol") {
+      flush();
+      if (closing) lists.pop();
+      else lists.push({ ordered: tag === "ol", count: 0 });
+    } else if (tag === "li") {
+      flush();
+      const list = lists[lists.length - 1];
+      if (!closing) {
+        if (list) list.count++;
+        itemPrefix = list?.ordered ? `${list.count}. ` : "- ";
+      }
+    } else if (tag === "blockquote") {
+      flush();
+      quoteDepth = Math.max(quoteDepth + (closing ? -1 : 1), 0);
+    } else if (tag === "pre") {
+      flush();
+      preformatted = !closing;
+    } else if (BLOCK_TAGS.has(tag)) {
+      flush();
+    } else if (tag === "td" || tag === "th") {
+      if (!closing && text.trim()) text += " | ";
+    } else if (preformatted) {
+      continue;
+    } else if (tag === "strong" || tag === "b") {
+      text += "**";
+    } else if (tag === "em" || tag === "i") {
+      text += "*";
+    } else if (tag === "code") {
+      text += "`";
+    } else if (tag === "a") {
+      if (closing) {
+        const href = links.pop();
+        if (href) text += `](${href})`;
+      } else {
+        const href = attribute(attributes, "href");
+        // Links inside the same document (footnote and contents anchors) only make sense in the original
+        const external = href && /^(https?:|mailto:)/i.test(href) ? href : null;
+        if (!selfClosing) links.push(external);
+        if (external) text += "[";
+      }
+    }
+  }
+  flush();
+
+  return blocks.join("\n\n");
+}
+
+interface MarkdownHeading {
+  line: number;
+  level: number;
+  text: string;
+}
+
+function findHeadings(lines: string[]): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let fenced = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    if (fenced) return;
+    const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) headings.push({ line: index, level: match[1].length, text: plainText(match[2]) });
+  });
+  return headings;
+}
+
+// Heading text without the Markdown emphasis or links a converter may have left in it
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Blank lines and section rules at either end of a chapter are left over from the split
+function trimSection(lines: string[]): string {
+  const content = lines.join("\n").replace(/^(\s*(-{3,}|\*{3,}|_{3,})?\s*\n)+/, "").replace(/(\n\s*(-{3,}|\*{3,}|_{3,})?\s*)+$/, "");
+  return content.trim() ? content.replace(/\n{3,}/g, "\n\n").trim() : "";
+}
+
+// Splits Markdown into chapters on its chapter-level headings. The book's title is a leading
+// heading that matches the title in the metadata or stands alone above deeper headings; a heading
+// right under it is the subtitle. When chapters are labelled ("Chapter 3: ..."), unlabelled headings
+// at the same level are section headings inside a chapter. Headings inside a chapter are shifted so
+// the first level under it becomes "##".
+function splitChapters(markdown: string, metadata: ManuscriptMetadata): Pick<ImportedManuscript, "chapters" | "bookMatter"> & { title?: string; subtitle?: string } {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const headings = findHeadings(lines);
+  const isSpecial = (heading: MarkdownHeading) =>
+    SKIPPED_SECTIONS.test(heading.text) || MATTER_SECTIONS.some(entry => entry.pattern.test(heading.text));
+
+  let title: string | undefined;
+  let subtitle: string | undefined;
+  const [first] = headings;
+  if (first) {
+    const deeper = headings.some(heading => heading.level > first.level);
+    const alone = headings.filter(heading => heading.level === first.level).length === 1;
+    if ((alone && deeper) || first.text.toLowerCase() === metadata.title?.toLowerCase()) {
+      title = first.text;
+      headings.shift();
+      lines[first.line] = "";
+
+      const next = headings[0];
+      const gap = next ? lines.slice(first.line + 1, next.line) : [];
+      if (next && gap.every(line => !line.trim()) && !CHAPTER_LABEL.test(next.text) && !isSpecial(next)) {
+        subtitle = next.text;
+        headings.shift();
+        lines[next.line] = "";
+      }
+    }
+  }
+
+  const chapterLevel = Math.min(...headings.map(heading => heading.level), 6);
+  const labelled = headings.filter(heading => heading.level === chapterLevel && CHAPTER_LABEL.test(heading.text)).length >= 2;
+  const startsChapter = (heading: MarkdownHeading) =>
+    heading.level < chapterLevel || (heading.level === chapterLevel && (!labelled || CHAPTER_LABEL.test(heading.text) || isSpecial(heading)));
+
+  // A draft without headings becomes a single chapter
+  const sections: Array<{ title: string; lines: string[] }> = [{ title: headings.length > 0 ? "Introduction" : "Chapter 1", lines: [] }];
+  const byLine = new Map(headings.map(heading => [heading.line, heading]));
+  // A table of contents runs until the next heading at its own level or above
+  let skippingBelow = 0;
+  lines.forEach((line, index) => {
+    const heading = byLine.get(index);
+    if (heading && skippingBelow && heading.level <= skippingBelow) skippingBelow = 0;
+    if (skippingBelow) return;
+
+    if (heading && SKIPPED_SECTIONS.test(heading.text)) {
+      skippingBelow = heading.level;
+    } else if (heading && startsChapter(heading)) {
+      sections.push({ title: heading.text, lines: [] });
+    } else if (heading) {
+      const level = Math.min(Math.max(heading.level - chapterLevel + 1, 2), 6);
+      sections[sections.length - 1].lines.push(`${"#".repeat(level)} ${line.replace(/^#+\s+/, "")}`);
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  });
+
+  // Text above the first chapter is kept as an introduction, minus the title page lines it repeats
+  const titlePage = [title, subtitle, metadata.title, metadata.subtitle, metadata.author, metadata.author && `by ${metadata.author}`, metadata.description]
+    .filter((line): line is string => !!line)
+    .map(line => line.toLowerCase());
+  sections[0].lines = sections[0].lines.filter(line => {
+    const text = plainText(line.replace(/^#+\s+/, ""));
+    return !titlePage.includes(text.toLowerCase()) && !/^(author|by|description):/i.test(text);
+  });
+
+  const matter: Partial<Record<"dedication" | "acknowledgements" | "aboutAuthor", string>> = {};
+  const chapters: Array<{ title: string; content: string }> = [];
+  for (const section of sections) {
+    const content = trimSection(section.lines);
+    if (!content) continue;
+
+    const matterSection = MATTER_SECTIONS.find(entry => entry.pattern.test(section.title));
+    if (matterSection) {
+      matter[matterSection.field] = content;
+    } else {
+      chapters.push({ title: section.title.replace(CHAPTER_LABEL, "").trim() || section.title, content });
+    }
+  }
+
+  return {
+    title,
+    subtitle,
+    chapters,
+    bookMatter: Object.keys(matter).length > 0 ? bookMatterSchema.parse(matter) : null,
+  };
+}
+
+function normalizeLanguage(language: string | undefined): string | undefined {
+  return language ? LANGUAGES[language.trim().toLowerCase().slice(0, 2)] : undefined;
+}
+
+function keywordList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[,;]/) : [];
+  return Array.from(new Set(values.map(keyword => String(keyword).trim()).filter(Boolean)));
+}
+
+// YAML front matter, limited to the "key: value" and "key: [a, b]" / "- item" forms drafts use
+function readFrontMatter(markdown: string): { metadata: ManuscriptMetadata; body: string } {
+  const match = markdown.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\r?\n/);
+  if (!match) return { metadata: {}, body: markdown };
+
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+    const field = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!field) continue;
+    const key = field[1].toLowerCase();
+    const value = field[2].trim();
+    if (!value) {
+      fields[key] = [];
+      listKey = key;
+    } else {
+      fields[key] = value.startsWith("[") && value.endsWith("]")
+        ? value.slice(1, -1).split(",").map(unquote)
+        : unquote(value);
+      listKey = null;
+    }
+  }
+
+  const text = (key: string) => {
+    const value = fields[key];
+    return (Array.isArray(value) ? value.join(", ") : value) || undefined;
+  };
+  return {
+    metadata: {
+      title: text("title"),
+      subtitle: text("subtitle"),
+      author: text("author"),
+      description: text("description"),
+      language: normalizeLanguage(text("lang") ?? text("language")),
+      keywords: keywordList(fields.keywords ?? fields.tags),
+    },
+    body: markdown.slice(match[0].length),
+  };
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+function readHtmlMetadata(html: string): ManuscriptMetadata {
+  const meta = (name: string) => {
+    for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+      if (attribute(tag, "name")?.toLowerCase() === name) return attribute(tag, "content")?.trim() || undefined;
+    }
+    return undefined;
+  };
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const root = html.match(/<html\b[^>]*>/i)?.[0];
+  return {
+    title: title ? decodeEntities(title).replace(/\s+/g, " ").trim() || undefined : undefined,
+    author: meta("author"),
+    description: meta("description"),
+    language: normalizeLanguage((root && attribute(root, "lang")) || undefined),
+    keywords: keywordList(meta("keywords")),
+  };
+}
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  isArray: name => ["item", "itemref", "rootfile", "title", "creator", "subject", "language", "description"].includes(name),
+});
+
+// Text of an element the XML parser may have returned as a string or as an object with attributes
+function xmlText(value: unknown): string | undefined {
+  const text = typeof value === "object" && value !== null ? (value as Record<string, unknown>)["#text"] : value;
+  return text === undefined || text === null ? undefined : decodeEntities(String(text)).trim() || undefined;
+}
+
+async function readDocxMetadata(buffer: Buffer): Promise<ManuscriptMetadata> {
+  const zip = await JSZip.loadAsync(buffer);
+  const core = await zip.file("docProps/core.xml")?.async("string");
+  if (!core) return {};
+  const properties = xmlParser.parse(core).coreProperties ?? {};
+  return {
+    title: xmlText(properties.title?.[0]),
+    subtitle: xmlText(properties.subject?.[0]),
+    author: xmlText(properties.creator?.[0]),
+    description: xmlText(properties.description?.[0]),
+    language: normalizeLanguage(xmlText(properties.language?.[0])),
+    keywords: keywordList(xmlText(properties.keywords)),
+  };
+}
+
+// Reads an EPUB's package metadata and its reading order, converting each content document
+async function readEpub(buffer: Buffer): Promise<{ metadata: ManuscriptMetadata; markdown: string }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await zip.file("META-INF/container.xml")?.async("string");
+  const packagePath = container && xmlParser.parse(container).container?.rootfiles?.rootfile?.[0]?.["@_full-path"];
+  const packageXml = packagePath && await zip.file(packagePath)?.async("string");
+  if (!packageXml) throw new Error("EPUB has no package document");
+
+  const opf = xmlParser.parse(packageXml).package ?? {};
+  const metadata = opf.metadata ?? {};
+  const manifest = new Map<string, { href: string; mediaType: string; properties: string }>(
+    (opf.manifest?.item ?? []).map((item: Record<string, string>) => [item["@_id"], {
+      href: item["@_href"],
+      mediaType: item["@_media-type"],
+      properties: item["@_properties"] ?? "",
+    }])
+  );
+
+  const baseDir = path.posix.dirname(packagePath);
+  const documents: string[] = [];
+  for (const itemref of opf.spine?.itemref ?? []) {
+    const item = manifest.get(itemref["@_idref"]);
+    if (!item || itemref["@_linear"] === "no" || item.properties.split(/\s+/).includes("nav")) continue;
+    if (!/html/.test(item.mediaType)) continue;
+    const xhtml = await zip.file(path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(item.href))))?.async("string");
+    // Cover, title and copyright pages are rebuilt by the exporters from the book's details
+    if (!xhtml || /epub:type\s*=\s*["'][^"']*\b(cover|titlepage|copyright-page|toc)\b/.test(xhtml)) continue;
+    documents.push(htmlToMarkdown(xhtml));
+  }
+
+  return {
+    metadata: {
+      title: xmlText(metadata.title?.[0]),
+      author: xmlText(metadata.creator?.[0]),
+      description: xmlText(metadata.description?.[0]),
+      language: normalizeLanguage(xmlText(metadata.language?.[0])),
+      keywords: keywordList((metadata.subject ?? []).map(xmlText).filter(Boolean)),
+    },
+    markdown: documents.join("\n\n"),
+  };
+}
+
+async function readManuscriptSource(buffer: Buffer, format: ManuscriptFormat): Promise<{ metadata: ManuscriptMetadata; markdown: string }> {
+  switch (format) {
+    case "docx": {
+      const [{ value }, metadata] = await Promise.all([
+        mammoth.convertToHtml({ buffer }),
+        readDocxMetadata(buffer),
+      ]);
+      return { metadata, markdown: htmlToMarkdown(value) };
+    }
+    case "md": {
+      const { metadata, body } = readFrontMatter(buffer.toString("utf8"));
+      return { metadata, markdown: body };
+    }
+    case "html": {
+      const html = buffer.toString("utf8");
+      return { metadata: readHtmlMetadata(html), markdown: htmlToMarkdown(html) };
+    }
+    case "epub":
+      return readEpub(buffer);
+  }
+}
+
+// Parse an uploaded manuscript; returns a status and message for the route on failure
+export async function readManuscript(
+  file: { filename: string; mimeType?: string; buffer: Buffer }
+): Promise<{ manuscript?: ImportedManuscript; status?: number; error?: string }> {
+  const format = detectManuscriptFormat(file.filename, file.mimeType);
+  if (!format) {
+    return { status: 400, error: "Unsupported file type. Import a DOCX, Markdown, HTML or EPUB file." };
+  }
+
+  let source: { metadata: ManuscriptMetadata; markdown: string };
+  try {
+    source = await readManuscriptSource(file.buffer, format);
+  } catch (error) {
+    console.error(`Failed to read ${format} manuscript:`, error);
+    return { status: 422, error: `Could not read this ${format.toUpperCase()} file. It may be damaged or password protected.` };
+  }
+
+  const { title, subtitle, chapters, bookMatter } = splitChapters(source.markdown, source.metadata);
+  if (chapters.length === 0) {
+    return { status: 422, error: "No text could be found in this file." };
+  }
+  if (chapters.length > MAX_IMPORTED_CHAPTERS) {
+    return { status: 413, error: `This manuscript splits into ${chapters.length} chapters; at most ${MAX_IMPORTED_CHAPTERS} can be imported.` };
+  }
+
+  const fallbackTitle = path.basename(file.filename, path.extname(file.filename)).replace(/[_-]+/g, " ").trim();
+  return {
+    manuscript: {
+      metadata: {
+        ...source.metadata,
+        title: source.metadata.title || title || fallbackTitle,
+        subtitle: source.metadata.subtitle || subtitle,
+      },
+      bookMatter,
+      chapters,
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import type { PdfTrimSize } from '@shared/schema';
+import type { FontFamily } from './exportAssets';
+
+// Print layout for PDF export. Chrome lays out each section (front matter, table of contents,
+// each chapter) as its own PDF; the sections are then stitched together here so every chapter
+// opens on a right-hand page, and running headers and page numbers are stamped on afterwards
+// because Chrome cannot vary its header template by chapter or continue numbering across files.
+
+const POINTS_PER_INCH = 72;
+
+// KDP asks for 0.125in of bleed past the top, bottom and outside edges
+const BLEED_INCHES = 0.125;
+
+interface TrimSpec {
+  label: string;
+  width: number;
+  height: number;
+  // Margins in inches; inside is the spine edge
+  inside: number;
+  outside: number;
+  top: number;
+  bottom: number;
+  fontSize: string;
+  // Bound books open every section on a right-hand page; A4 is read on screen, so it gets no blank pages
+  facingPages: boolean;
+}
+
+const TRIM_SPECS: Record<PdfTrimSize, TrimSpec> = {
+  a4: { label: 'A4', width: 8.27, height: 11.69, inside: 0.9, outside: 0.9, top: 0.9, bottom: 0.9, fontSize: '11.5pt', facingPages: false },
+  '6x9': { label: '6 x 9 in', width: 6, height: 9, inside: 0.75, outside: 0.5, top: 0.75, bottom: 0.75, fontSize: '11pt', facingPages: true },
+  '5.5x8.5': { label: '5.5 x 8.5 in', width: 5.5, height: 8.5, inside: 0.75, outside: 0.5, top: 0.7, bottom: 0.7, fontSize: '10.5pt', facingPages: true },
+  '5x8': { label: '5 x 8 in', width: 5, height: 8, inside: 0.7, outside: 0.45, top: 0.65, bottom: 0.65, fontSize: '10pt', facingPages: true },
+};
+
+export interface PrintProfile extends TrimSpec {
+  trimSize: PdfTrimSize;
+  // Bleed in inches, 0 when the book has none
+  bleed: number;
+}
+
+export function resolvePrintProfile(trimSize: PdfTrimSize = 'a4', bleed = false): PrintProfile {
+  return { ...TRIM_SPECS[trimSize], trimSize, bleed: bleed ? BLEED_INCHES : 0 };
+}
+
+// @page rules for one section. The page box includes bleed, and the left and right margins swap
+// between recto and verso so the wider inside margin is always at the spine.
+export function printPageCss(profile: PrintProfile): string {
+  const pageWidth = profile.width + profile.bleed;
+  const pageHeight = profile.height + profile.bleed * 2;
+  if (!profile.facingPages) {
+    return `
+        @page {
+            size: ${pageWidth}in ${pageHeight}in;
+            margin: ${profile.top + profile.bleed}in ${profile.outside + profile.bleed}in ${profile.bottom + profile.bleed}in ${profile.inside}in;
+        }`;
+  }
+  return `
+        @page {
+            size: ${pageWidth}in ${pageHeight}in;
+            margin-top: ${profile.top + profile.bleed}in;
+            margin-bottom: ${profile.bottom + profile.bleed}in;
+        }
+
+        @page :right {
+            margin-left: ${profile.inside}in;
+            margin-right: ${profile.outside + profile.bleed}in;
+        }
+
+        @page :left {
+            margin-left: ${profile.outside + profile.bleed}in;
+            margin-right: ${profile.inside}in;
+        }`;
+}
+
+export async function countPdfPages(pdf: Uint8Array): Promise<number> {
+  return (await PDFDocument.load(pdf)).getPageCount();
+}
+
+export interface SectionLayout {
+  pageCount: number;
+  // Printed straight after the previous section (the copyright page on the back of the title page)
+  // rather than on the next right-hand page
+  followsPrevious?: boolean;
+}
+
+// Physical page each section starts on; with facing pages, blanks push sections onto a right-hand (odd) page
+function sectionStartPages(sections: SectionLayout[], facingPages: boolean): number[] {
+  const starts: number[] = [];
+  let page = 1;
+  for (const section of sections) {
+    if (facingPages && page % 2 === 0 && !section.followsPrevious) page++;
+    starts.push(page);
+    page += section.pageCount;
+  }
+  return starts;
+}
+
+// Printed page number of each section's first page. Numbering starts at 1 on the first body
+// section; front matter before it gets zero or negative numbers and is printed without folios.
+export function planSectionFolios(sections: SectionLayout[], firstBodySection: number, facingPages: boolean): number[] {
+  const starts = sectionStartPages(sections, facingPages);
+  const bodyStart = starts[firstBodySection] ?? 1;
+  return starts.map(start => start - bodyStart + 1);
+}
+
+export interface PrintSection {
+  pdf: Uint8Array;
+  // Body sections carry the chapter title for right-hand running headers; front matter has none
+  runningTitle?: string;
+  followsPrevious?: boolean;
+}
+
+interface AssembleOptions {
+  bookTitle: string;
+  includePageNumbers: boolean;
+  serif: boolean;
+  // Headers and folios are set in this family when given, otherwise in the (unembedded) standard PDF fonts
+  font?: FontFamily | null;
+}
+
+// Drops characters the font cannot encode (the standard PDF fonts cover Latin scripts only)
+function encodable(font: PDFFont, text: string): string {
+  return Array.from(text).filter(character => {
+    try {
+      font.encodeText(character);
+      return true;
+    } catch {
+      return false;
+    }
+  }).join('');
+}
+
+function fitText(font: PDFFont, text: string, size: number, maxWidth: number): string {
+  let fitted = encodable(font, text).trim();
+  if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1).trimEnd();
+  }
+  return `${fitted}...`;
+}
+
+export async function assemblePrintPdf(sections: PrintSection[], profile: PrintProfile, options: AssembleOptions): Promise<Uint8Array> {
+  const output = await PDFDocument.create();
+  output.setTitle(options.bookTitle);
+
+  let headerFont: PDFFont;
+  let folioFont: PDFFont;
+  if (options.font) {
+    output.registerFontkit(fontkit);
+    const face = (style: 'normal' | 'italic') => options.font!.faces.find(candidate => candidate.weight === 'normal' && candidate.style === style)!.data;
+    headerFont = await output.embedFont(face('italic'), { subset: true });
+    folioFont = await output.embedFont(face('normal'), { subset: true });
+  } else {
+    headerFont = await output.embedFont(options.serif ? StandardFonts.TimesRomanItalic : StandardFonts.HelveticaOblique);
+    folioFont = await output.embedFont(options.serif ? StandardFonts.TimesRoman : StandardFonts.Helvetica);
+  }
+  const pt = (inches: number) => inches * POINTS_PER_INCH;
+  const pageSize: [number, number] = [pt(profile.width + profile.bleed), pt(profile.height + profile.bleed * 2)];
+
+  const sources = await Promise.all(sections.map(section => PDFDocument.load(section.pdf)));
+  const layout = sources.map((source, index) => ({ pageCount: source.getPageCount(), followsPrevious: sections[index].followsPrevious }));
+  const firstBodySection = sections.findIndex(section => section.runningTitle !== undefined);
+  const folios = planSectionFolios(layout, Math.max(firstBodySection, 0), profile.facingPages);
+
+  type StampedPage = { page: PDFPage; folio: number; runningTitle?: string; opening: boolean };
+  const stamped: StampedPage[] = [];
+
+  for (let index = 0; index < sections.length; index++) {
+    if (profile.facingPages && output.getPageCount() % 2 === 1 && !sections[index].followsPrevious) {
+      output.addPage(pageSize);
+    }
+    const pages = await output.copyPages(sources[index], sources[index].getPageIndices());
+    pages.forEach((page, pageIndex) => {
+      output.addPage(page);
+      stamped.push({ page, folio: folios[index] + pageIndex, runningTitle: sections[index].runningTitle, opening: pageIndex === 0 });
+    });
+  }
+
+  output.getPages().forEach((page, index) => {
+    // Bleed sits on the outside edge: the right of a recto, the left of a verso
+    const recto = !profile.facingPages || index % 2 === 0;
+    const trimX = recto ? 0 : pt(profile.bleed);
+    const trimY = pt(profile.bleed);
+    page.setTrimBox(trimX, trimY, pt(profile.width), pt(profile.height));
+    page.setBleedBox(0, 0, pageSize[0], pageSize[1]);
+  });
+
+  const grey = rgb(0.35, 0.35, 0.35);
+  for (const { page, folio, runningTitle, opening } of stamped) {
+    if (runningTitle === undefined || folio < 1) continue;
+
+    const recto = !profile.facingPages || folio % 2 === 1;
+    const trimLeft = recto ? 0 : pt(profile.bleed);
+    const trimBottom = pt(profile.bleed);
+    const textLeft = trimLeft + pt(recto ? profile.inside : profile.outside);
+    const textWidth = pt(profile.width - profile.inside - profile.outside);
+
+    // Verso pages carry the book title and recto pages the chapter title; chapter openings have no header.
+    // Without facing pages every page shows both.
+    if (!opening) {
+      const size = 8.5;
+      const title = !profile.facingPages ? `${options.bookTitle} \u2014 ${runningTitle}` : folio % 2 === 1 ? runningTitle : options.bookTitle;
+      const header = fitText(headerFont, title, size, textWidth);
+      const width = headerFont.widthOfTextAtSize(header, size);
+      page.drawText(header, {
+        x: textLeft + (textWidth - width) / 2,
+        y: trimBottom + pt(profile.height - profile.top / 2) - size / 2,
+        size,
+        font: headerFont,
+        color: grey,
+      });
+    }
+
+    if (options.includePageNumbers) {
+      const size = 9;
+      const text = String(folio);
+      const width = folioFont.widthOfTextAtSize(text, size);
+      // Folios sit at the outside edge of facing pages, centred on chapter openings
+      const x = opening || !profile.facingPages
+        ? textLeft + (textWidth - width) / 2
+        : recto ? textLeft + textWidth - width : textLeft;
+      page.drawText(text, { x, y: trimBottom + pt(profile.bottom / 2) - size / 2, size, font: folioFont, color: grey });
+    }
+  }
+
+  return output.save();
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Rendering and validation never touch storage, which needs a database to load
+vi.mock("./storage", () => ({ storage: {} }));
+
+const { DEFAULT_PROMPT_TEMPLATES, SAMPLE_PROMPT_VALUES, renderTemplate, validateTemplate } = await import("./promptTemplates");
+
+describe("renderTemplate", () => {
+  it("fills placeholders, tolerating spaces inside the braces", () => {
+    expect(renderTemplate("{{title}} by {{ author }}, for {{targetAudience}}", SAMPLE_PROMPT_VALUES))
+      .toBe(`${SAMPLE_PROMPT_VALUES.title} by ${SAMPLE_PROMPT_VALUES.author}, for ${SAMPLE_PROMPT_VALUES.targetAudience}`);
+  });
+
+  it("renders missing values and unknown placeholders as empty text", () => {
+    const values = { ...SAMPLE_PROMPT_VALUES, subtitle: undefined };
+
+    expect(renderTemplate("[{{subtitle}}][{{nonsense}}]", values)).toBe("[][]");
+  });
+
+  it("counts chapters from the outline when there is one", () => {
+    const outline = [1, 2, 3].map(chapterNumber => ({ chapterNumber, title: `Chapter ${chapterNumber}` }));
+    const values = { ...SAMPLE_PROMPT_VALUES, numberOfChapters: 9, bookOutline: outline };
+
+    expect(renderTemplate("{{numberOfChapters}}", values)).toBe("3");
+  });
+
+  it("leaves no placeholder behind in the default templates", () => {
+    for (const body of Object.values(DEFAULT_PROMPT_TEMPLATES)) {
+      expect(renderTemplate(body, SAMPLE_PROMPT_VALUES)).not.toMatch(/\{\{|\}\}/);
+    }
+  });
+});
+
+describe("validateTemplate", () => {
+  it("accepts every default template", () => {
+    for (const [name, body] of Object.entries(DEFAULT_PROMPT_TEMPLATES)) {
+      expect(validateTemplate(name as keyof typeof DEFAULT_PROMPT_TEMPLATES, body)).toEqual([]);
+    }
+  });
+
+  it("reports unknown, missing and malformed placeholders", () => {
+    expect(validateTemplate("summary", "")).toEqual(["Template cannot be empty"]);
+    expect(validateTemplate("summary", "{{chapterContent}} {{bookOutline}}")).toEqual(["Unknown placeholder: {{bookOutline}}"]);
+    expect(validateTemplate("summary", "Summarise {{title}}")).toEqual(["Missing required placeholder: {{chapterContent}}"]);
+    expect(validateTemplate("summary", "{{chapterContent}} {{chapter_title}}"))
+      .toEqual(["Template contains a malformed placeholder; use {{name}} with letters only"]);
+  });
+});
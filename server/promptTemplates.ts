@@ -0,0 +1,421 @@
+import type { ChapterBrief, PromptTemplateName, SourcePassage } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface PromptValues {
+  title: string;
+  subtitle?: string;
+  description: string;
+  targetAudience: string;
+  toneStyle: string;
+  mission: string;
+  author: string;
+  numberOfChapters?: number;
+  chapterTitle?: string;
+  chapterNumber?: number;
+  chapterBrief?: ChapterBrief | null;
+  bookOutline?: OutlineEntry[];
+  previousChapters?: PreviousChapterSummary[];
+  chapterContent?: string;
+  sourcePassages?: Array<Pick<SourcePassage, "label" | "filename" | "location" | "content">>;
+}
+
+export interface OutlineEntry {
+  chapterNumber: number;
+  title: string;
+  summary?: string;
+}
+
+export interface PreviousChapterSummary {
+  chapterNumber: number;
+  title: string;
+  summary: string;
+}
+
+// Placeholders each template may use, and the ones it must use
+export const PROMPT_PLACEHOLDERS: Record<PromptTemplateName, { allowed: string[]; required: string[] }> = {
+  outline: {
+    allowed: ["title", "subtitle", "description", "targetAudience", "toneStyle", "mission", "author", "numberOfChapters", "sourceMaterial"],
+    required: ["title"],
+  },
+  chapter: {
+    allowed: ["title", "subtitle", "description", "targetAudience", "toneStyle", "mission", "author", "numberOfChapters", "chapterTitle", "chapterNumber", "chapterBrief", "bookOutline", "previousChapters", "sourceMaterial"],
+    required: ["chapterTitle", "chapterBrief", "bookOutline", "previousChapters"],
+  },
+  regeneration: {
+    allowed: ["title", "subtitle", "description", "targetAudience", "toneStyle", "mission", "author", "numberOfChapters", "chapterTitle", "chapterNumber", "chapterBrief", "bookOutline", "previousChapters", "sourceMaterial"],
+    required: ["chapterTitle", "chapterBrief", "bookOutline", "previousChapters"],
+  },
+  summary: {
+    allowed: ["title", "targetAudience", "chapterTitle", "chapterNumber", "chapterContent"],
+    required: ["chapterContent"],
+  },
+};
+
+const MAX_TEMPLATE_LENGTH = 20000;
+
+// Used whenever no version of a template has been activated
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateName, string> = {
+  outline: `You are a world-class e-book author and content strategist. Create a comprehensive chapter structure for a {{numberOfChapters}}-chapter e-book that will become the definitive guide for {{targetAudience}}.
+
+## BOOK SPECIFICATIONS
+**Title:** {{title}}
+**Target Audience:** {{targetAudience}}
+**Description:** {{description}}
+**Tone & Style:** {{toneStyle}}
+**Core Mission:** {{mission}}
+
+## SOURCE MATERIAL
+{{sourceMaterial}}
+
+## OUTLINE REQUIREMENTS
+
+### CHAPTER STRUCTURE ONLY
+Your task is to plan the book, not write it. Do NOT generate any chapter prose - each chapter will be written individually later from the brief you produce here.
+
+### CHAPTER TITLE GUIDELINES
+- Create {{numberOfChapters}} powerful, benefit-focused chapter titles
+- Each title should be specific and intriguing to {{targetAudience}}
+- Titles should flow logically from beginner to advanced concepts
+- Use {{toneStyle}} language that resonates with {{targetAudience}}
+- Ensure progressive learning from chapter to chapter
+- Focus on transformation and practical outcomes
+
+### CHAPTER BRIEF GUIDELINES
+For every chapter provide:
+- **Summary:** 2-3 sentences on what the chapter covers and why it matters to the reader
+- **Objectives:** 3-4 things the reader will be able to do after reading it
+- **Key points:** 3-6 specific ideas, frameworks or examples the chapter must include
+- **Sections:** 4-6 planned section headings, in order
+
+Make sure chapters build on each other without repeating the same key points.`,
+
+  chapter: `You are a world-renowned expert author specializing in {{targetAudience}} success strategies. You're writing the definitive chapter on "{{chapterTitle}}" for the book "{{title}}". This chapter must be exceptional - the kind of content that readers will highlight, share, and return to repeatedly.
+
+## BOOK CONTEXT
+**Title:** {{title}}
+**Target Audience:** {{targetAudience}}
+**Book Description:** {{description}}
+**Tone & Style:** {{toneStyle}}
+**Core Mission:** {{mission}}
+
+## SOURCE MATERIAL
+{{sourceMaterial}}
+
+## CHAPTER BRIEF
+This chapter was planned as part of the book's outline. Follow this brief so the chapter delivers what the outline promised:
+
+{{chapterBrief}}
+
+## WHERE THIS CHAPTER SITS
+This is chapter {{chapterNumber}} of {{numberOfChapters}}. The full outline of the book:
+
+{{bookOutline}}
+
+## WHAT EARLIER CHAPTERS ALREADY COVERED
+{{previousChapters}}
+
+Build on these chapters instead of repeating them. Do not reintroduce concepts, frameworks, stories or plans the reader has already seen; refer back to them briefly and go further. Leave topics that belong to later chapters in the outline for those chapters.
+
+## CHAPTER MISSION
+Create a comprehensive, transformational chapter titled "{{chapterTitle}}" that becomes the go-to resource for {{targetAudience}} on this specific topic.
+
+## CONTENT SPECIFICATIONS (2500-3500 words)
+
+### OPENING SECTION (300-400 words)
+- **Powerful Hook:** Start with a compelling story, surprising statistic, thought-provoking question, or bold statement
+- **Problem Recognition:** Help readers identify why this topic matters to them personally
+- **Promise:** Clearly state what they'll achieve by reading this chapter
+- **Roadmap:** Brief overview of what's coming
+
+### MAIN CONTENT STRUCTURE
+
+#### Section 1: Foundation & Context (600-800 words)
+- **## [Descriptive Heading]**
+- Deep dive into the fundamental concepts
+- Why traditional approaches often fail
+- What makes this approach different
+- Research or evidence backing your approach
+
+#### Section 2: Core Strategy/Framework (800-1000 words)
+- **## [Action-Oriented Heading]**
+- Your primary methodology or system
+- **### Step-by-step breakdown** with specific, actionable instructions
+- **### Tools and resources** needed for implementation
+- **### Real-world application examples** relevant to {{targetAudience}}
+
+#### Section 3: Advanced Implementation (600-800 words)
+- **## [Results-Focused Heading]**
+- Advanced techniques for maximizing results
+- **### Common obstacles** and how to overcome them
+- **### Troubleshooting guide** for typical challenges
+- **### Success accelerators** and optimization strategies
+
+#### Section 4: Practical Application (400-500 words)
+- **## Putting It Into Action**
+- **### Immediate next steps** (what to do today)
+- **### Implementation plan** for this chapter's topic (if an earlier chapter already gave the reader a plan, extend that plan rather than writing a new one)
+- **### Long-term mastery roadmap**
+- **### Measuring progress and success**
+
+### CLOSING SECTION (200-300 words)
+- **## Key Takeaways and Next Steps**
+- Powerful summary of core insights
+- Motivational closing that inspires action
+- Smooth transition to next chapter concepts
+
+## FORMATTING EXCELLENCE
+- Start immediately with compelling content (no introductions or explanations)
+- Use ## for major sections, ### for subsections and steps
+- Bold key concepts, frameworks, and important points
+- Bullet points for lists, numbered steps for processes
+- Include actionable checklists and implementation guides
+- End with specific next steps that create momentum
+
+Create transformational content that establishes ultimate authority while delivering unprecedented value to {{targetAudience}}.`,
+
+  regeneration: `You are a world-renowned expert author specializing in {{targetAudience}} success strategies. You're writing the definitive chapter on "{{chapterTitle}}" for the book "{{title}}". This chapter must be exceptional - the kind of content that readers will highlight, share, and return to repeatedly.
+
+## BOOK CONTEXT
+**Title:** {{title}}
+**Target Audience:** {{targetAudience}}
+**Book Description:** {{description}}
+**Tone & Style:** {{toneStyle}}
+**Core Mission:** {{mission}}
+
+## SOURCE MATERIAL
+{{sourceMaterial}}
+
+## CHAPTER BRIEF
+This chapter was planned as part of the book's outline. Follow this brief so the chapter delivers what the outline promised:
+
+{{chapterBrief}}
+
+## WHERE THIS CHAPTER SITS
+This is chapter {{chapterNumber}} of {{numberOfChapters}}. The full outline of the book:
+
+{{bookOutline}}
+
+## WHAT EARLIER CHAPTERS ALREADY COVERED
+{{previousChapters}}
+
+Build on these chapters instead of repeating them. Do not reintroduce concepts, frameworks, stories or plans the reader has already seen; refer back to them briefly and go further. Leave topics that belong to later chapters in the outline for those chapters.
+
+## CHAPTER MISSION
+This is a fresh draft of an existing chapter. Take a new angle on the topic with different examples and stories rather than restating a previous version.
+
+Create a comprehensive, transformational chapter titled "{{chapterTitle}}" that becomes the go-to resource for {{targetAudience}} on this specific topic.
+
+## CONTENT SPECIFICATIONS (2500-3500 words)
+
+### OPENING SECTION (300-400 words)
+- **Powerful Hook:** Start with a compelling story, surprising statistic, thought-provoking question, or bold statement
+- **Problem Recognition:** Help readers identify why this topic matters to them personally
+- **Promise:** Clearly state what they'll achieve by reading this chapter
+- **Roadmap:** Brief overview of what's coming
+
+### MAIN CONTENT STRUCTURE
+
+#### Section 1: Foundation & Context (600-800 words)
+- **## [Descriptive Heading]**
+- Deep dive into the fundamental concepts
+- Why traditional approaches often fail
+- What makes this approach different
+- Research or evidence backing your approach
+
+#### Section 2: Core Strategy/Framework (800-1000 words)
+- **## [Action-Oriented Heading]**
+- Your primary methodology or system
+- **### Step-by-step breakdown** with specific, actionable instructions
+- **### Tools and resources** needed for implementation
+- **### Real-world application examples** relevant to {{targetAudience}}
+
+#### Section 3: Advanced Implementation (600-800 words)
+- **## [Results-Focused Heading]**
+- Advanced techniques for maximizing results
+- **### Common obstacles** and how to overcome them
+- **### Troubleshooting guide** for typical challenges
+- **### Success accelerators** and optimization strategies
+
+#### Section 4: Practical Application (400-500 words)
+- **## Putting It Into Action**
+- **### Immediate next steps** (what to do today)
+- **### Implementation plan** for this chapter's topic (if an earlier chapter already gave the reader a plan, extend that plan rather than writing a new one)
+- **### Long-term mastery roadmap**
+- **### Measuring progress and success**
+
+### CLOSING SECTION (200-300 words)
+- **## Key Takeaways and Next Steps**
+- Powerful summary of core insights
+- Motivational closing that inspires action
+- Smooth transition to next chapter concepts
+
+## FORMATTING EXCELLENCE
+- Start immediately with compelling content (no introductions or explanations)
+- Use ## for major sections, ### for subsections and steps
+- Bold key concepts, frameworks, and important points
+- Bullet points for lists, numbered steps for processes
+- Include actionable checklists and implementation guides
+- End with specific next steps that create momentum
+
+Create transformational content that establishes ultimate authority while delivering unprecedented value to {{targetAudience}}.`,
+
+  summary: `Summarize chapter {{chapterNumber}}, "{{chapterTitle}}", of the book "{{title}}" for {{targetAudience}}. The summary will be given to the author of later chapters so they can build on this one without repeating it.
+
+Write 80-150 words of plain prose (no headings, no lists). Name the specific concepts, frameworks, examples, exercises and plans the chapter introduced, and the main conclusion the reader should carry forward. Do not add anything the chapter does not say.
+
+## CHAPTER TEXT
+{{chapterContent}}`,
+};
+
+// Rendered by the admin preview so template edits can be checked before they go live
+export const SAMPLE_PROMPT_VALUES: PromptValues = {
+  title: "The Remote Team Playbook",
+  subtitle: "Building Trust, Rhythm and Results Across Time Zones",
+  description: "A practical guide to leading distributed teams that ship great work without burning out.",
+  targetAudience: "first-time managers of remote teams",
+  toneStyle: "warm, practical and direct",
+  mission: "Help new managers build remote teams that people love working on",
+  author: "Jordan Lee",
+  numberOfChapters: 6,
+  chapterTitle: "Designing a Weekly Rhythm That Sticks",
+  chapterBrief: {
+    summary: "Shows managers how to replace ad-hoc meetings with a predictable weekly cadence that keeps a distributed team aligned.",
+    objectives: ["Map the team's current meetings and async rituals", "Design a weekly rhythm that fits across time zones"],
+    keyPoints: ["The cost of meeting sprawl", "Async-first status updates", "One anchor meeting per week"],
+    sections: ["Why Rhythm Beats Heroics", "Auditing Your Current Week", "Designing the Anchor Meeting", "Making It Stick"],
+  },
+  chapterNumber: 3,
+  bookOutline: [
+    { chapterNumber: 1, title: "Why Remote Teams Drift Apart", summary: "The hidden costs of distance and how trust erodes without shared context." },
+    { chapterNumber: 2, title: "Hiring for Written Communication", summary: "Finding people who thrive when most work happens in writing." },
+    { chapterNumber: 3, title: "Designing a Weekly Rhythm That Sticks", summary: "Replacing ad-hoc meetings with a predictable weekly cadence." },
+    { chapterNumber: 4, title: "Feedback Across Time Zones", summary: "Giving and receiving feedback without waiting for a meeting." },
+  ],
+  previousChapters: [
+    { chapterNumber: 1, title: "Why Remote Teams Drift Apart", summary: "Introduces the trust battery model and the three signs of drift: silent channels, surprise deadlines and duplicated work." },
+    { chapterNumber: 2, title: "Hiring for Written Communication", summary: "Covers the take-home writing exercise and a four-question interview rubric for async skills." },
+  ],
+  chapterContent: "## Why Rhythm Beats Heroics\n\nMost remote teams run on heroics...",
+  sourcePassages: [
+    {
+      label: "S1.3",
+      filename: "team-handbook.pdf",
+      location: "page 2",
+      content: "Our weekly sync is the only meeting everyone attends. Status updates are posted in writing by Monday noon so the sync can focus on decisions.",
+    },
+  ],
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+// Markdown block substituted for {{chapterBrief}}
+export function formatChapterBrief(brief: ChapterBrief | null | undefined): string {
+  if (!brief) {
+    return "No brief was planned for this chapter. Plan its sections from the chapter title and the book context.";
+  }
+
+  const list = (items: string[]) => items.map(item => `- ${item}`).join("\n");
+  return [
+    `**Summary:** ${brief.summary}`,
+    brief.objectives.length > 0 ? `**Learning objectives:**\n${list(brief.objectives)}` : "",
+    brief.keyPoints.length > 0 ? `**Key points to cover:**\n${list(brief.keyPoints)}` : "",
+    brief.sections.length > 0 ? `**Planned sections (use these as the ## headings, in order):**\n${list(brief.sections)}` : "",
+  ].filter(Boolean).join("\n\n");
+}
+
+// Passages from the author's supporting document substituted for {{sourceMaterial}}
+export function formatSourceMaterial(passages: PromptValues["sourcePassages"]): string {
+  if (!passages || passages.length === 0) {
+    return "No supporting document was provided. Write from your own expertise.";
+  }
+
+  const instructions = "The author supplied the passages below from their own material. Ground the content in them: prefer their facts, " +
+    "terminology, examples and figures over general knowledge, and never contradict them. Whenever a sentence relies on a passage, " +
+    "cite it inline with the passage label in square brackets, for example [" + passages[0].label + "]. Only cite labels listed here.";
+  const blocks = passages.map(passage =>
+    `[${passage.label}] (${passage.filename}${passage.location ? `, ${passage.location}` : ""})\n${passage.content}`
+  );
+  return [instructions, ...blocks].join("\n\n");
+}
+
+// Numbered list substituted for {{bookOutline}}, with the chapter being written marked
+export function formatBookOutline(outline: OutlineEntry[] | undefined, chapterNumber?: number): string {
+  if (!outline || outline.length === 0) {
+    return "The rest of the outline is not available.";
+  }
+  return outline.map(entry => {
+    const marker = entry.chapterNumber === chapterNumber ? " (this chapter)" : "";
+    return `${entry.chapterNumber}. ${entry.title}${marker}${entry.summary ? ` - ${entry.summary}` : ""}`;
+  }).join("\n");
+}
+
+// Recaps substituted for {{previousChapters}}
+export function formatPreviousChapters(previous: PreviousChapterSummary[] | undefined): string {
+  if (!previous || previous.length === 0) {
+    return "No earlier chapters have been written yet.";
+  }
+  return previous.map(chapter => `**Chapter ${chapter.chapterNumber}: ${chapter.title}**\n${chapter.summary}`).join("\n\n");
+}
+
+export function renderTemplate(body: string, values: PromptValues): string {
+  const { chapterBrief, bookOutline, previousChapters, sourcePassages, ...scalars } = values;
+  const lookup: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(scalars).map(([key, value]) => [key, value === undefined || value === null ? "" : String(value)])),
+    numberOfChapters: String(bookOutline?.length || values.numberOfChapters || 5),
+    chapterNumber: String(values.chapterNumber || 1),
+    chapterBrief: formatChapterBrief(chapterBrief),
+    bookOutline: formatBookOutline(bookOutline, values.chapterNumber),
+    previousChapters: formatPreviousChapters(previousChapters),
+    sourceMaterial: formatSourceMaterial(sourcePassages),
+  };
+  return body.replace(PLACEHOLDER_PATTERN, (_match, key: string) => lookup[key] ?? "");
+}
+
+export function validateTemplate(name: PromptTemplateName, body: string): string[] {
+  const errors: string[] = [];
+  const { allowed, required } = PROMPT_PLACEHOLDERS[name];
+
+  if (!body.trim()) {
+    return ["Template cannot be empty"];
+  }
+  if (body.length > MAX_TEMPLATE_LENGTH) {
+    errors.push(`Template is too long (${body.length} characters, maximum ${MAX_TEMPLATE_LENGTH})`);
+  }
+
+  const used = new Set<string>();
+  for (const match of Array.from(body.matchAll(PLACEHOLDER_PATTERN))) {
+    used.add(match[1]);
+  }
+
+  const unknown = Array.from(used).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    errors.push(`Unknown placeholder${unknown.length > 1 ? "s" : ""}: ${unknown.map(key => `{{${key}}}`).join(", ")}`);
+  }
+
+  const missing = required.filter(key => !used.has(key));
+  if (missing.length > 0) {
+    errors.push(`Missing required placeholder${missing.length > 1 ? "s" : ""}: ${missing.map(key => `{{${key}}}`).join(", ")}`);
+  }
+
+  // Anything still wrapped in braces after removing valid placeholders is malformed
+  const leftover = body.replace(PLACEHOLDER_PATTERN, "");
+  if (leftover.includes("{{") || leftover.includes("}}")) {
+    errors.push("Template contains a malformed placeholder; use {{name}} with letters only");
+  }
+
+  return errors;
+}
+
+// Load the active version of a template at call time, falling back to the built-in default
+export async function renderPrompt(name: PromptTemplateName, values: PromptValues): Promise<string> {
+  let body = DEFAULT_PROMPT_TEMPLATES[name];
+  try {
+    const active = await storage.getActivePromptTemplate(name);
+    if (active) {
+      body = active.body;
+    }
+  } catch (error) {
+    console.error(`Failed to load "${name}" prompt template, using the default:`, error);
+  }
+  return renderTemplate(body, values);
+}
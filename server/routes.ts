@@ -1,14 +1,121 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { generateChapters, regenerateChapter } from "./anthropic.js";
-import { exportToPDF, exportToHTML, exportToMarkdown, exportToEPUB, exportToDOCX } from "./exportGenerator.js";
-import { insertBookSchema, insertChapterSchema, insertBookProgressSchema, loginSchema, signupSchema, Chapter } from "@shared/schema";
+import { generateChapters, regenerateChapter, streamChapter } from "./anthropic.js";
+import { LLM_PROVIDERS_CONFIG_KEY, defaultProviderId, listProviders } from "./llmProviders";
+import { DEFAULT_PROMPT_TEMPLATES, PROMPT_PLACEHOLDERS, SAMPLE_PROMPT_VALUES, renderTemplate, validateTemplate } from "./promptTemplates";
+import { exportToPDF, exportToHTML, exportToMarkdown, exportToEPUB, exportToDOCX, exportToFlipbook, exportToBundle, type BookData } from "./exportGenerator.js";
+import { enqueueChapterGenerationJob, cancelGenerationJob } from "./jobQueue";
+import { diffLines } from "./textDiff";
+import { planChapterGeneration } from "./chapterContext";
+import { MAX_SOURCE_UPLOAD_BYTES, findRelevantPassages, ingestSourceDocument } from "./sourceDocuments";
+import { MAX_MANUSCRIPT_UPLOAD_BYTES, readManuscript } from "./manuscriptImport";
+import { MAX_ASSET_UPLOAD_BYTES, assetStore, assetUrl, deleteBookAsset, duplicateBookWithAssets, ingestBookAsset } from "./assetStore";
+import { collectImages, parseMarkdown } from "./documentModel";
+import { insertBookSchema, insertChapterSchema, insertBookProgressSchema, loginSchema, signupSchema, llmProviderSettingsSchema, creditPlansSchema, creditPricingSchema, checkoutSchema, creditHistoryQuerySchema, Chapter } from "@shared/schema";
 import { z } from "zod";
-import { authenticateToken, requireAdmin, requireCredits, generateToken, type AuthRequest } from "./auth";
+import { authenticateToken, requireAdmin, requireCredits, generateToken, verifyToken, verifyDownloadToken, type AuthRequest } from "./auth";
+import { storeExport, signedDownloadUrl, exportFilePath, removeExportFiles, removeUserExportFiles } from "./exportStore";
+import { CREDIT_PRICING_CONFIG_KEY, DEFAULT_CREDIT_PRICING, MAX_STATEMENT_ROWS, creditCosts, creditStatementCsv, loadCreditPricing, withCredits } from "./credits";
+import { CREDIT_PLANS_CONFIG_KEY, DEFAULT_CREDIT_PLANS, loadCreditPlans } from "./creditPlans";
+import { BILLING_WEBHOOK_PATH, cancelSubscription, getBillingProvider, handleBillingWebhook, startCheckout, type RawBodyRequest } from "./billing";
 import { db, testDatabaseConnection } from "./db";
 import { users } from "@shared/schema";
 import path from "path";
+import { PROMPT_TEMPLATE_NAMES, assetAltTextSchema, bookMatterSchema, chapterBriefSchema, exportOptionsSchema, exportRequestSchema, type Book, type ExportIssue, type ExportOptions, type PromptTemplateName, type User } from "@shared/schema";
+
+// How many supporting-document passages the outline prompt gets
+const OUTLINE_SOURCE_PASSAGES = 10;
+
+// Look up the book a generation request wants its output saved to, enforcing ownership
+async function resolveTargetBook(bookId: unknown, user: User): Promise<{ book?: Book; status?: number; error?: string }> {
+  if (!bookId) return {};
+  if (typeof bookId !== "string") {
+    return { status: 400, error: "Invalid book id" };
+  }
+
+  const book = await storage.getBook(bookId);
+  if (!book) {
+    return { status: 404, error: "Book not found" };
+  }
+  if (book.userId !== user.id && user.role !== "admin") {
+    return { status: 403, error: "Access denied" };
+  }
+  return { book };
+}
+
+// Upload metadata arrives percent-encoded in headers; malformed encoding is the client's error
+function decodeUploadHeader(req: AuthRequest, name: string): { value?: string; status?: number; error?: string } {
+  try {
+    return { value: decodeURIComponent(req.header(name) || "") };
+  } catch (error) {
+    if (!(error instanceof URIError)) throw error;
+    return { status: 400, error: `${name} is not valid percent-encoded text` };
+  }
+}
+
+// Look up a chapter the user may read or change through the book that contains it
+async function resolveOwnedChapter(chapterId: string, user: User): Promise<{ chapter?: Chapter; status?: number; error?: string }> {
+  const chapter = await storage.getChapter(chapterId);
+  if (!chapter) {
+    return { status: 404, error: "Chapter not found" };
+  }
+
+  const book = await storage.getBook(chapter.bookId);
+  if (!book || (book.userId !== user.id && user.role !== "admin")) {
+    return { status: 403, error: "Access denied" };
+  }
+  return { chapter };
+}
+
+// Sources of the images in chapter Markdown that have no alt text; a chapter is only saved without any
+function imagesMissingAltText(content: unknown): string[] {
+  if (typeof content !== "string") return [];
+  return collectImages(parseMarkdown(content)).filter(image => !image.alt.trim()).map(image => image.src);
+}
+
+interface PreparedExport {
+  bookData?: BookData;
+  options?: ExportOptions;
+  // Set when the export belongs to a saved book
+  bookId?: string | null;
+  status?: number;
+  error?: string;
+  details?: unknown;
+}
+
+// The message clients show for a request rejected over each part of the body
+const EXPORT_REQUEST_ERRORS: Record<string, string> = {
+  options: "Invalid export options",
+  bookMatter: "Invalid front or back matter",
+};
+
+// Validate the book and options an export request sends. A saved book supplies its own id (the EPUB identifier) and language.
+async function prepareExport(body: unknown, user: User): Promise<PreparedExport> {
+  const parsed = exportRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const field = String(parsed.error.errors[0]?.path[0] ?? "");
+    return {
+      status: 400,
+      error: EXPORT_REQUEST_ERRORS[field] ?? "Book title and chapters are required for export",
+      details: parsed.error.errors,
+    };
+  }
+  const { bookId, options, ...bookData } = parsed.data;
+
+  const target = await resolveTargetBook(bookId, user);
+  if (target.error) {
+    return { status: target.status, error: target.error };
+  }
+
+  return {
+    bookData: target.book
+      ? { ...bookData, id: target.book.id, language: target.book.language ?? bookData.language }
+      : bookData,
+    options,
+    bookId: target.book?.id ?? null,
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Enhanced health check endpoint for deployment verification
@@ -198,6 +305,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ message: "Logged out successfully" });
   });
 
+  // What each credit-priced action costs the signed-in user, shown next to the buttons that spend credits
+  app.get("/api/credits/costs", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      res.json(await creditCosts(req.user!));
+    } catch (error) {
+      console.error("Credit costs fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch credit costs" });
+    }
+  });
+
+  // The signed-in user's credit history: every grant, charge, refund and expiry with the balance it left
+  app.get("/api/me/credits", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const query = creditHistoryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid filters", details: query.error.errors });
+      }
+
+      const { page, pageSize, action, bookId } = query.data;
+      const [history, actions] = await Promise.all([
+        storage.getCreditLedger(req.user!.id, { action, bookId, limit: pageSize, offset: (page - 1) * pageSize }),
+        storage.getCreditLedgerActions(req.user!.id),
+      ]);
+      res.json({ ...history, page, pageSize, balance: req.user!.credits, actions });
+    } catch (error) {
+      console.error("Credit history fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch credit history" });
+    }
+  });
+
+  // The same history as a CSV statement, with the same filters and no paging
+  app.get("/api/me/credits/export", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const query = creditHistoryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid filters", details: query.error.errors });
+      }
+
+      const { action, bookId } = query.data;
+      const { entries } = await storage.getCreditLedger(req.user!.id, { action, bookId, limit: MAX_STATEMENT_ROWS });
+      const fileName = `credit-statement-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(creditStatementCsv(entries));
+    } catch (error) {
+      console.error("Credit statement export error:", error);
+      res.status(500).json({ error: "Failed to export credit statement" });
+    }
+  });
+
+  // Billing: the user's plan and invoices, checkout and cancellation
+  app.get("/api/billing", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const [subscription, invoices, plans] = await Promise.all([
+        storage.getUserSubscription(req.user!.id),
+        storage.getUserInvoices(req.user!.id),
+        loadCreditPlans(),
+      ]);
+      res.json({
+        subscription: subscription ?? null,
+        invoices,
+        plans,
+        configured: getBillingProvider().isConfigured(),
+      });
+    } catch (error) {
+      console.error("Billing fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch billing details" });
+    }
+  });
+
+  app.post("/api/billing/checkout", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { plan } = checkoutSchema.parse(req.body);
+      const appUrl = process.env.APP_URL?.replace(/\/+$/, "") || `${req.protocol}://${req.get("host")}`;
+      const result = await startCheckout(req.user!, plan, appUrl);
+      if (!result.url) {
+        return res.status(result.status!).json({ error: result.error });
+      }
+      res.json({ url: result.url });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid plan", details: error.errors });
+      }
+      console.error("Checkout error:", error);
+      res.status(500).json({ error: "Failed to start checkout" });
+    }
+  });
+
+  app.post("/api/billing/cancel", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const result = await cancelSubscription(req.user!);
+      if (!result.subscription) {
+        return res.status(result.status!).json({ error: result.error });
+      }
+      res.json(result.subscription);
+    } catch (error) {
+      console.error("Subscription cancel error:", error);
+      res.status(500).json({ error: "Failed to cancel subscription" });
+    }
+  });
+
+  // Called by the billing provider; authenticated by its signature instead of a login token
+  app.post(BILLING_WEBHOOK_PATH, async (req, res) => {
+    try {
+      const result = await handleBillingWebhook((req as RawBodyRequest).rawBody, req.get("stripe-signature"));
+      if (result.error) {
+        return res.status(result.status!).json({ error: result.error });
+      }
+      res.json({ received: true });
+    } catch (error) {
+      console.error("Billing webhook error:", error);
+      res.status(500).json({ error: "Failed to process billing webhook" });
+    }
+  });
+
   // Admin routes
   app.get("/api/admin/configs", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
@@ -220,6 +442,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Which LLM provider and model each generation operation uses
+  app.get("/api/admin/llm-providers", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const config = await storage.getAdminConfig(LLM_PROVIDERS_CONFIG_KEY);
+      res.json({
+        providers: listProviders().map(provider => ({
+          id: provider.id,
+          defaultModel: provider.defaultModel,
+          configured: provider.isConfigured(),
+        })),
+        defaultProvider: defaultProviderId(),
+        settings: config?.configValue || {},
+      });
+    } catch (error) {
+      console.error("LLM providers fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch LLM provider settings" });
+    }
+  });
+
+  app.put("/api/admin/llm-providers", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const settings = llmProviderSettingsSchema.parse(req.body);
+      const config = await storage.setAdminConfig({
+        configKey: LLM_PROVIDERS_CONFIG_KEY,
+        configValue: settings,
+        description: "LLM provider and model per generation operation",
+      });
+      res.json(config.configValue);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid provider settings", details: error.errors });
+      }
+      console.error("LLM providers save error:", error);
+      res.status(500).json({ error: "Failed to save LLM provider settings" });
+    }
+  });
+
+  // Credits each plan grants per billing period, applied by the credit reset scheduler
+  app.get("/api/admin/credit-plans", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      res.json({ plans: await loadCreditPlans(), defaults: DEFAULT_CREDIT_PLANS });
+    } catch (error) {
+      console.error("Credit plans fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch credit plans" });
+    }
+  });
+
+  app.put("/api/admin/credit-plans", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const plans = creditPlansSchema.parse(req.body);
+      const config = await storage.setAdminConfig({
+        configKey: CREDIT_PLANS_CONFIG_KEY,
+        configValue: plans,
+        description: "Credits, bonus and rollover per subscription plan",
+      });
+      res.json(config.configValue);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid credit plans", details: error.errors });
+      }
+      console.error("Credit plans save error:", error);
+      res.status(500).json({ error: "Failed to save credit plans" });
+    }
+  });
+
+  // Credits each action costs, with optional per-plan prices
+  app.get("/api/admin/credit-pricing", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      res.json({ pricing: await loadCreditPricing(), defaults: DEFAULT_CREDIT_PRICING });
+    } catch (error) {
+      console.error("Credit pricing fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch credit pricing" });
+    }
+  });
+
+  app.put("/api/admin/credit-pricing", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const pricing = creditPricingSchema.parse(req.body);
+      const config = await storage.setAdminConfig({
+        configKey: CREDIT_PRICING_CONFIG_KEY,
+        configValue: pricing,
+        description: "Credits each action costs, per plan",
+      });
+      res.json(config.configValue);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid credit pricing", details: error.errors });
+      }
+      console.error("Credit pricing save error:", error);
+      res.status(500).json({ error: "Failed to save credit pricing" });
+    }
+  });
+
+  // Prompt templates used by the AI generators
+  app.get("/api/admin/prompt-templates", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const templates = await Promise.all(PROMPT_TEMPLATE_NAMES.map(async (name) => {
+        const versions = await storage.getPromptTemplateVersions(name);
+        return {
+          name,
+          placeholders: PROMPT_PLACEHOLDERS[name],
+          defaultBody: DEFAULT_PROMPT_TEMPLATES[name],
+          active: versions.find(version => version.isActive) || null,
+          versions,
+        };
+      }));
+      res.json(templates);
+    } catch (error) {
+      console.error("Prompt templates fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch prompt templates" });
+    }
+  });
+
+  app.post("/api/admin/prompt-templates/:name/preview", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const name = req.params.name as PromptTemplateName;
+      if (!PROMPT_TEMPLATE_NAMES.includes(name)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+      
+      const body = typeof req.body?.body === "string" ? req.body.body : "";
+      res.json({
+        errors: validateTemplate(name, body),
+        sample: SAMPLE_PROMPT_VALUES,
+        prompt: renderTemplate(body, SAMPLE_PROMPT_VALUES),
+      });
+    } catch (error) {
+      console.error("Prompt template preview error:", error);
+      res.status(500).json({ error: "Failed to preview prompt template" });
+    }
+  });
+
+  // Saving creates a new version and activates it
+  app.post("/api/admin/prompt-templates/:name", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const name = req.params.name as PromptTemplateName;
+      if (!PROMPT_TEMPLATE_NAMES.includes(name)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+      
+      const body = typeof req.body?.body === "string" ? req.body.body : "";
+      const errors = validateTemplate(name, body);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors[0], errors });
+      }
+      
+      const template = await storage.createPromptTemplateVersion({
+        name,
+        body,
+        notes: typeof req.body?.notes === "string" ? req.body.notes : null,
+        createdBy: req.user?.id,
+      });
+      res.json(template);
+    } catch (error) {
+      console.error("Prompt template save error:", error);
+      res.status(500).json({ error: "Failed to save prompt template" });
+    }
+  });
+
+  app.post("/api/admin/prompt-templates/:name/versions/:id/activate", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const versions = await storage.getPromptTemplateVersions(req.params.name as PromptTemplateName);
+      if (!versions.some(version => version.id === req.params.id)) {
+        return res.status(404).json({ error: "Template version not found" });
+      }
+      
+      const template = await storage.activatePromptTemplateVersion(req.params.id);
+      res.json(template);
+    } catch (error) {
+      console.error("Prompt template activate error:", error);
+      res.status(500).json({ error: "Failed to activate prompt template version" });
+    }
+  });
+
+  // Go back to the built-in default; saved versions are kept
+  app.post("/api/admin/prompt-templates/:name/reset", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const name = req.params.name as PromptTemplateName;
+      if (!PROMPT_TEMPLATE_NAMES.includes(name)) {
+        return res.status(404).json({ error: "Unknown prompt template" });
+      }
+      
+      await storage.deactivatePromptTemplates(name);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Prompt template reset error:", error);
+      res.status(500).json({ error: "Failed to reset prompt template" });
+    }
+  });
+
   app.get("/api/admin/users", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
       // Get all users for admin management
@@ -311,11 +723,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "User not found" });
       }
       
-      // Delete the user
+      // Delete the user; their books, subscription, credit history, jobs and export rows go with them.
+      // Files are only removed once the rows are gone.
+      const assets = await storage.getUserBookAssets(id);
       const deleted = await storage.deleteUser(id);
       if (!deleted) {
         return res.status(500).json({ error: "Failed to delete user" });
       }
+      await Promise.all([
+        ...assets.map(asset => assetStore.remove(asset.storageKey)),
+        removeUserExportFiles(id),
+      ]);
       
       res.json({ message: "User deleted successfully" });
     } catch (error) {
@@ -325,7 +743,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Book CRUD operations
-  app.post("/api/books", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/books", authenticateToken, requireCredits("create_book"), async (req: AuthRequest, res) => {
     try {
       const bookData = insertBookSchema.parse(req.body);
       
@@ -333,29 +751,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "Authentication required" });
       }
       
-      // Check credits (admin users have unlimited)
-      if (req.user.role !== "admin" && req.user.credits < 1) {
-        return res.status(402).json({ 
-          error: "Insufficient credits",
-          required: 1,
-          available: req.user.credits,
-        });
-      }
-      
-      // Deduct credit before creating book (unless admin)
-      if (req.user.role !== "admin") {
-        const creditDeducted = await storage.deductCredits(req.user.id, 1, "create_book");
-        if (!creditDeducted) {
-          return res.status(402).json({ error: "Failed to deduct credits" });
-        }
-      }
-      
-      const book = await storage.createBook({
+      // The credits are refunded if the book cannot be created (admin users have unlimited)
+      const charged = await withCredits(req.user, req.creditCharge!, () => storage.createBook({
         ...bookData,
-        userId: req.user.id
-      });
+        userId: req.user!.id
+      }));
+      if (charged.insufficient) {
+        return res.status(402).json({ error: "Insufficient credits", ...charged.insufficient });
+      }
       
-      res.json(book);
+      res.json(charged.result);
     } catch (error) {
       console.error('Book creation error:', error);
       res.status(400).json({ 
@@ -364,6 +769,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Manuscript import: creates a book from a DOCX, Markdown, HTML or EPUB draft, sent like a supporting document
+  app.post(
+    "/api/books/import",
+    authenticateToken,
+    // An imported book is priced like any other new book; checked before the upload is read
+    requireCredits("import_book"),
+    express.raw({ type: () => true, limit: MAX_MANUSCRIPT_UPLOAD_BYTES }),
+    async (req: AuthRequest, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ error: "Authentication required" });
+        }
+
+        const filenameHeader = decodeUploadHeader(req, "X-Filename");
+        if (filenameHeader.error) {
+          return res.status(filenameHeader.status!).json({ error: filenameHeader.error });
+        }
+        const filename = filenameHeader.value!.trim();
+        if (!filename || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: "A file and its name are required" });
+        }
+
+        const result = await readManuscript({
+          filename: path.basename(filename),
+          mimeType: req.header("Content-Type"),
+          buffer: req.body,
+        });
+        if (result.error) {
+          return res.status(result.status!).json({ error: result.error });
+        }
+        const { metadata, bookMatter, chapters } = result.manuscript!;
+
+        // The author reviews the imported details first, so the book opens on the Details step
+        const charged = await withCredits(req.user, req.creditCharge!, () => storage.createBookWithChapters({
+          userId: req.user!.id,
+          creationMethod: "imported",
+          title: metadata.title,
+          subtitle: metadata.subtitle,
+          author: metadata.author,
+          description: metadata.description,
+          language: metadata.language,
+          keywords: metadata.keywords,
+          bookMatter,
+          currentStep: 2,
+          status: "draft",
+        }, chapters));
+        if (charged.insufficient) {
+          return res.status(402).json({ error: "Insufficient credits", ...charged.insufficient });
+        }
+
+        const book = charged.result!;
+        res.status(201).json({ ...book, chapters: await storage.getBookChapters(book.id) });
+      } catch (error) {
+        console.error('Manuscript import error:', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : "Failed to import manuscript" 
+        });
+      }
+    }
+  );
+
   app.get("/api/books/:id", authenticateToken, async (req: AuthRequest, res) => {
     try {
       const book = await storage.getBook(req.params.id);
@@ -408,6 +874,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updates = req.body;
+      if (updates.bookMatter != null) {
+        const parsedMatter = bookMatterSchema.safeParse(updates.bookMatter);
+        if (!parsedMatter.success) {
+          return res.status(400).json({ error: "Invalid front or back matter", details: parsedMatter.error.errors });
+        }
+        updates.bookMatter = parsedMatter.data;
+      }
       const book = await storage.updateBook(req.params.id, updates);
       if (!book) {
         return res.status(404).json({ error: "Book not found" });
@@ -421,115 +894,521 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/users/:userId/books", async (req, res) => {
+  // Book library: the signed-in user's books with chapter and word totals
+  app.get("/api/books", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const books = await storage.getUserBooks(req.params.userId);
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const books = await storage.getUserBookSummaries(req.user.id);
       res.json(books);
     } catch (error) {
-      console.error('User books fetch error:', error);
+      console.error('Book library fetch error:', error);
       res.status(500).json({ 
-        error: error instanceof Error ? error.message : "Failed to fetch user books" 
-      });
-    }
-  });
-
-  // Progress tracking
-  app.post("/api/books/:bookId/progress", async (req, res) => {
-    try {
-      const progressData = insertBookProgressSchema.parse({
-        ...req.body,
-        bookId: req.params.bookId
-      });
-      const progress = await storage.saveProgress(progressData);
-      res.json(progress);
-    } catch (error) {
-      console.error('Progress save error:', error);
-      res.status(400).json({ 
-        error: error instanceof Error ? error.message : "Failed to save progress" 
+        error: error instanceof Error ? error.message : "Failed to fetch books" 
       });
     }
   });
 
-  app.get("/api/books/:bookId/progress", async (req, res) => {
+  app.post("/api/books/:id/duplicate", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const progress = await storage.getBookProgress(req.params.bookId);
-      res.json(progress);
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const existingBook = await storage.getBook(req.params.id);
+      if (!existingBook) {
+        return res.status(404).json({ error: "Book not found" });
+      }
+      
+      if (existingBook.userId !== req.user.id && req.user.role !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const book = await duplicateBookWithAssets(req.params.id);
+      if (!book) {
+        return res.status(404).json({ error: "Book not found" });
+      }
+      res.json(book);
     } catch (error) {
-      console.error('Progress fetch error:', error);
+      console.error('Book duplicate error:', error);
       res.status(500).json({ 
-        error: error instanceof Error ? error.message : "Failed to fetch progress" 
+        error: error instanceof Error ? error.message : "Failed to duplicate book" 
       });
     }
   });
 
-  // Chapter operations
-  app.post("/api/books/:bookId/chapters", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/books/:id/archive", authenticateToken, async (req: AuthRequest, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
       
-      // Check if user owns the book or is admin
-      const book = await storage.getBook(req.params.bookId);
-      if (!book) {
+      const existingBook = await storage.getBook(req.params.id);
+      if (!existingBook) {
         return res.status(404).json({ error: "Book not found" });
       }
       
-      if (book.userId !== req.user.id && req.user.role !== "admin") {
+      if (existingBook.userId !== req.user.id && req.user.role !== "admin") {
         return res.status(403).json({ error: "Access denied" });
       }
       
-      const chapterData = insertChapterSchema.parse({
-        ...req.body,
-        bookId: req.params.bookId
+      // { archived: false } restores the book to the library
+      const archived = req.body?.archived !== false;
+      const book = await storage.updateBook(req.params.id, {
+        archivedAt: archived ? new Date() : null,
       });
-      const chapter = await storage.createChapter(chapterData);
-      res.json(chapter);
+      res.json(book);
     } catch (error) {
-      console.error('Chapter creation error:', error);
-      res.status(400).json({ 
-        error: error instanceof Error ? error.message : "Failed to create chapter" 
+      console.error('Book archive error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to archive book" 
       });
     }
   });
 
-  app.put("/api/chapters/:id", authenticateToken, async (req: AuthRequest, res) => {
+  app.delete("/api/books/:id", authenticateToken, async (req: AuthRequest, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
       
-      // Get chapter to verify ownership through book
-      const chapter = await storage.updateChapter(req.params.id, {});
-      if (!chapter) {
-        return res.status(404).json({ error: "Chapter not found" });
+      const existingBook = await storage.getBook(req.params.id);
+      if (!existingBook) {
+        return res.status(404).json({ error: "Book not found" });
       }
       
-      // Check if user owns the book containing this chapter
-      const book = await storage.getBook(chapter.bookId);
-      if (!book || (book.userId !== req.user.id && req.user.role !== "admin")) {
+      if (existingBook.userId !== req.user.id && req.user.role !== "admin") {
         return res.status(403).json({ error: "Access denied" });
       }
       
-      const updates = req.body;
-      const updatedChapter = await storage.updateChapter(req.params.id, updates);
-      res.json(updatedChapter);
+      // Asset and export rows go with the book; their files are removed once it is gone
+      const [assets, bookExportFiles] = await Promise.all([
+        storage.getBookAssets(req.params.id),
+        storage.getBookExportsWithFiles(req.params.id),
+      ]);
+      await storage.deleteBook(req.params.id);
+      await Promise.all([
+        ...assets.map(asset => assetStore.remove(asset.storageKey)),
+        removeExportFiles(bookExportFiles),
+      ]);
+      res.json({ success: true });
     } catch (error) {
-      console.error('Chapter update error:', error);
+      console.error('Book deletion error:', error);
       res.status(500).json({ 
-        error: error instanceof Error ? error.message : "Failed to update chapter" 
+        error: error instanceof Error ? error.message : "Failed to delete book" 
       });
     }
   });
 
-  app.delete("/api/chapters/:id", authenticateToken, async (req: AuthRequest, res) => {
-    try {
+  // Supporting documents: the file is sent as the raw request body with its name in X-Filename
+  app.post(
+    "/api/books/:id/sources",
+    authenticateToken,
+    express.raw({ type: () => true, limit: MAX_SOURCE_UPLOAD_BYTES }),
+    async (req: AuthRequest, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ error: "Authentication required" });
+        }
+
+        const target = await resolveTargetBook(req.params.id, req.user);
+        if (target.error) {
+          return res.status(target.status!).json({ error: target.error });
+        }
+
+        const filenameHeader = decodeUploadHeader(req, "X-Filename");
+        if (filenameHeader.error) {
+          return res.status(filenameHeader.status!).json({ error: filenameHeader.error });
+        }
+        const filename = filenameHeader.value!.trim();
+        if (!filename || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: "A file and its name are required" });
+        }
+
+        const result = await ingestSourceDocument(target.book!.id, {
+          filename: path.basename(filename),
+          mimeType: req.header("Content-Type"),
+          buffer: req.body,
+        });
+        if (result.error) {
+          return res.status(result.status!).json({ error: result.error });
+        }
+        res.status(201).json(result.document);
+      } catch (error) {
+        console.error('Source document upload error:', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : "Failed to upload document" 
+        });
+      }
+    }
+  );
+
+  app.get("/api/books/:id/sources", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const target = await resolveTargetBook(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      const documents = await storage.getBookSourceDocuments(target.book!.id);
+      res.json(documents);
+    } catch (error) {
+      console.error('Source documents fetch error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch documents" 
+      });
+    }
+  });
+
+  // Export history for a book, newest first, with fresh download links for files that are still kept
+  app.get("/api/books/:id/exports", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const target = await resolveTargetBook(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      const bookExports = await storage.getUserBookExports(target.book!.userId, target.book!.id);
+      res.json(bookExports.map(bookExport => ({
+        ...bookExport,
+        downloadUrl: bookExport.deletedAt ? null : signedDownloadUrl(bookExport),
+      })));
+    } catch (error) {
+      console.error('Export history fetch error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch export history" 
+      });
+    }
+  });
+
+  // Resolve citation labels such as S1.4 back to the passages they point at
+  app.get("/api/books/:id/sources/passages", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const target = await resolveTargetBook(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      const labels = new Set(String(req.query.labels || "").split(",").map(label => label.trim()).filter(Boolean));
+      const passages = await storage.getBookSourcePassages(target.book!.id);
+      res.json(passages.filter(passage => labels.has(passage.label)));
+    } catch (error) {
+      console.error('Source passages fetch error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch passages" 
+      });
+    }
+  });
+
+  app.delete("/api/books/:id/sources/:documentId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const target = await resolveTargetBook(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      const document = await storage.getSourceDocument(req.params.documentId);
+      if (!document || document.bookId !== target.book!.id) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      await storage.deleteSourceDocument(document.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Source document deletion error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to delete document" 
+      });
+    }
+  });
+
+  // Images: uploaded like supporting documents, with the required alt text in X-Alt-Text
+  app.post(
+    "/api/books/:id/assets",
+    authenticateToken,
+    express.raw({ type: () => true, limit: MAX_ASSET_UPLOAD_BYTES }),
+    async (req: AuthRequest, res) => {
+      try {
+        if (!req.user) {
+          return res.status(401).json({ error: "Authentication required" });
+        }
+
+        const target = await resolveTargetBook(req.params.id, req.user);
+        if (target.error) {
+          return res.status(target.status!).json({ error: target.error });
+        }
+
+        const filenameHeader = decodeUploadHeader(req, "X-Filename");
+        if (filenameHeader.error) {
+          return res.status(filenameHeader.status!).json({ error: filenameHeader.error });
+        }
+        const filename = filenameHeader.value!.trim();
+        if (!filename || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: "A file and its name are required" });
+        }
+        const altTextHeader = decodeUploadHeader(req, "X-Alt-Text");
+        if (altTextHeader.error) {
+          return res.status(altTextHeader.status!).json({ error: altTextHeader.error });
+        }
+        const altText = assetAltTextSchema.safeParse(altTextHeader.value);
+        if (!altText.success) {
+          return res.status(400).json({ error: "Invalid alt text", details: altText.error.errors });
+        }
+
+        const result = await ingestBookAsset(target.book!.id, {
+          filename: path.basename(filename),
+          buffer: req.body,
+        }, altText.data);
+        if (result.error) {
+          return res.status(result.status!).json({ error: result.error });
+        }
+        res.status(201).json({ ...result.asset!, url: assetUrl(result.asset!) });
+      } catch (error) {
+        console.error('Asset upload error:', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : "Failed to upload image" 
+        });
+      }
+    }
+  );
+
+  app.get("/api/books/:id/assets", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const target = await resolveTargetBook(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      const assets = await storage.getBookAssets(target.book!.id);
+      res.json(assets.map(asset => ({ ...asset, url: assetUrl(asset) })));
+    } catch (error) {
+      console.error('Assets fetch error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch images" 
+      });
+    }
+  });
+
+  app.patch("/api/books/:id/assets/:assetId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const target = await resolveTargetBook(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      const asset = await storage.getBookAsset(req.params.assetId);
+      if (!asset || asset.bookId !== target.book!.id) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      const altText = assetAltTextSchema.safeParse(req.body?.altText);
+      if (!altText.success) {
+        return res.status(400).json({ error: "Invalid alt text", details: altText.error.errors });
+      }
+
+      const updated = await storage.updateBookAsset(asset.id, { altText: altText.data });
+      res.json({ ...updated!, url: assetUrl(updated!) });
+    } catch (error) {
+      console.error('Asset update error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to update image" 
+      });
+    }
+  });
+
+  app.delete("/api/books/:id/assets/:assetId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const target = await resolveTargetBook(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      const asset = await storage.getBookAsset(req.params.assetId);
+      if (!asset || asset.bookId !== target.book!.id) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      await deleteBookAsset(asset);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Asset deletion error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to delete image" 
+      });
+    }
+  });
+
+  // Image bytes, addressed by the asset's random id so chapter previews can load them with a
+  // plain <img>. The content never changes for an id, so it can be cached indefinitely.
+  app.get("/api/assets/:id", async (req, res) => {
+    try {
+      const asset = await storage.getBookAsset(req.params.id);
+      const data = asset && await assetStore.read(asset.storageKey);
+      if (!asset || !data) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      res.setHeader("Content-Type", asset.contentType);
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      // Uploaded SVGs are served from our origin, so scripts inside them must never run
+      res.setHeader("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+      res.send(data);
+    } catch (error) {
+      console.error('Asset fetch error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch image" 
+      });
+    }
+  });
+
+  app.get("/api/users/:userId/books", async (req, res) => {
+    try {
+      const books = await storage.getUserBooks(req.params.userId);
+      res.json(books);
+    } catch (error) {
+      console.error('User books fetch error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch user books" 
+      });
+    }
+  });
+
+  // Progress tracking
+  app.post("/api/books/:bookId/progress", async (req, res) => {
+    try {
+      const progressData = insertBookProgressSchema.parse({
+        ...req.body,
+        bookId: req.params.bookId
+      });
+      const progress = await storage.saveProgress(progressData);
+      res.json(progress);
+    } catch (error) {
+      console.error('Progress save error:', error);
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to save progress" 
+      });
+    }
+  });
+
+  app.get("/api/books/:bookId/progress", async (req, res) => {
+    try {
+      const progress = await storage.getBookProgress(req.params.bookId);
+      res.json(progress);
+    } catch (error) {
+      console.error('Progress fetch error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch progress" 
+      });
+    }
+  });
+
+  // Chapter operations
+  app.post("/api/books/:bookId/chapters", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      // Check if user owns the book or is admin
+      const book = await storage.getBook(req.params.bookId);
+      if (!book) {
+        return res.status(404).json({ error: "Book not found" });
+      }
+      
+      if (book.userId !== req.user.id && req.user.role !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const chapterData = insertChapterSchema.parse({
+        ...req.body,
+        bookId: req.params.bookId
+      });
+      const missingAltText = imagesMissingAltText(chapterData.content);
+      if (missingAltText.length > 0) {
+        return res.status(400).json({ error: "Every image needs alt text", details: missingAltText });
+      }
+      const chapter = await storage.createChapter(chapterData);
+      res.json(chapter);
+    } catch (error) {
+      console.error('Chapter creation error:', error);
+      res.status(400).json({ 
+        error: error instanceof Error ? error.message : "Failed to create chapter" 
+      });
+    }
+  });
+
+  app.put("/api/chapters/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      // Get chapter to verify ownership through book
+      const chapter = await storage.getChapter(req.params.id);
+      if (!chapter) {
+        return res.status(404).json({ error: "Chapter not found" });
+      }
+      
+      // Check if user owns the book containing this chapter
+      const book = await storage.getBook(chapter.bookId);
+      if (!book || (book.userId !== req.user.id && req.user.role !== "admin")) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const updates = req.body;
+      const missingAltText = imagesMissingAltText(updates.content);
+      if (missingAltText.length > 0) {
+        return res.status(400).json({ error: "Every image needs alt text", details: missingAltText });
+      }
+      const updatedChapter = await storage.updateChapter(req.params.id, updates);
+      res.json(updatedChapter);
+    } catch (error) {
+      console.error('Chapter update error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to update chapter" 
+      });
+    }
+  });
+
+  app.delete("/api/chapters/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
       
       // Get chapter to verify ownership through book
-      const chapter = await storage.updateChapter(req.params.id, {});
+      const chapter = await storage.getChapter(req.params.id);
       if (!chapter) {
         return res.status(404).json({ error: "Chapter not found" });
       }
@@ -553,20 +1432,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate chapters for a book
-  app.post("/api/chapters/generate", authenticateToken, async (req: AuthRequest, res) => {
+  // Chapter revision history
+  app.get("/api/chapters/:id/revisions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const target = await resolveOwnedChapter(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+      
+      const revisions = await storage.getChapterRevisions(req.params.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error('Chapter revisions fetch error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to fetch chapter revisions" 
+      });
+    }
+  });
+
+  // Diff two revisions; "to" defaults to the chapter's current content
+  app.get("/api/chapters/:id/revisions/diff", authenticateToken, async (req: AuthRequest, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
+      
+      const target = await resolveOwnedChapter(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+      
+      const { from, to } = req.query;
+      if (typeof from !== "string") {
+        return res.status(400).json({ error: "A revision to diff from is required" });
+      }
+      
+      const fromRevision = await storage.getChapterRevision(from);
+      const toRevision = typeof to === "string" && to !== "current" ? await storage.getChapterRevision(to) : undefined;
+      if (!fromRevision || fromRevision.chapterId !== req.params.id ||
+          (typeof to === "string" && to !== "current" && (!toRevision || toRevision.chapterId !== req.params.id))) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      const toContent = toRevision ? toRevision.content : target.chapter!.content;
+      res.json({
+        from: fromRevision.id,
+        to: toRevision ? toRevision.id : "current",
+        lines: diffLines(fromRevision.content, toContent),
+      });
+    } catch (error) {
+      console.error('Chapter revision diff error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to diff chapter revisions" 
+      });
+    }
+  });
 
-      // Check credits for AI generation (costs 1 credit)
-      if (req.user.role !== "admin" && req.user.credits < 1) {
-        return res.status(402).json({ 
-          error: "Insufficient credits for AI generation",
-          required: 1,
-          available: req.user.credits,
-        });
+  app.post("/api/chapters/:id/revisions/:revisionId/restore", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      
+      const target = await resolveOwnedChapter(req.params.id, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+      
+      const revision = await storage.getChapterRevision(req.params.revisionId);
+      if (!revision || revision.chapterId !== req.params.id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      // Restoring is itself a manual save, so the content it replaces stays in the history
+      const chapter = await storage.updateChapter(req.params.id, {
+        title: revision.title,
+        content: revision.content,
+      }, "manual");
+      res.json(chapter);
+    } catch (error) {
+      console.error('Chapter revision restore error:', error);
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : "Failed to restore chapter revision" 
+      });
+    }
+  });
+
+  // Generate chapters for a book
+  app.post("/api/chapters/generate", authenticateToken, requireCredits("generate_outline"), async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
 
       const bookDetails = req.body;
@@ -577,14 +1537,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const chapters = await generateChapters(bookDetails);
-      
-      // Deduct credit after successful generation (unless admin)
-      if (req.user.role !== "admin") {
-        await storage.deductCredits(req.user.id, 1, "generate_chapters", bookDetails.bookId);
+      const target = await resolveTargetBook(bookDetails.bookId, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      // A new outline overwrites written chapters, so the client has to ask for that explicitly
+      if (target.book && bookDetails.replaceWrittenChapters !== true) {
+        const writtenChapters = (await storage.getBookChapters(target.book.id)).filter(chapter => chapter.content.trim()).length;
+        if (writtenChapters > 0) {
+          return res.status(409).json({
+            error: `This book already has ${writtenChapters} written chapter(s). Confirm to replace the outline; their text stays in each chapter's revision history.`,
+            writtenChapters,
+          });
+        }
+      }
+
+      // The outline's credits are held during the call and refunded if it fails
+      const charged = await withCredits(req.user, { ...req.creditCharge!, bookId: target.book?.id }, async () => {
+        // Ground the outline in the book's supporting document, if one was uploaded
+        const sourcePassages = target.book
+          ? await findRelevantPassages(target.book.id, [bookDetails.title, bookDetails.description, bookDetails.mission].join(" "), OUTLINE_SOURCE_PASSAGES)
+          : [];
+        const chapters = await generateChapters(bookDetails, sourcePassages);
+
+        // Save the outline so the chapters survive a refresh; the client then works with the stored ids
+        if (!target.book) return chapters;
+        const saved = await storage.replaceBookChapters(target.book.id, chapters);
+        return saved.map(chapter => ({
+          id: chapter.id,
+          title: chapter.title,
+          content: chapter.content,
+          isExpanded: chapter.isExpanded,
+          brief: chapter.brief ?? undefined,
+        }));
+      });
+      if (charged.insufficient) {
+        return res.status(402).json({ error: "Insufficient credits for AI generation", ...charged.insufficient });
       }
       
-      res.json({ chapters });
+      res.json({ chapters: charged.result });
     } catch (error) {
       console.error('Chapter generation error:', error);
       res.status(500).json({ 
@@ -594,22 +1586,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Regenerate a specific chapter
-  app.post("/api/chapters/regenerate", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/chapters/regenerate", authenticateToken, requireCredits("generate_chapter"), async (req: AuthRequest, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: "Authentication required" });
       }
 
-      // Check credits for regeneration (costs 1 credit)
-      if (req.user.role !== "admin" && req.user.credits < 1) {
-        return res.status(402).json({ 
-          error: "Insufficient credits for chapter regeneration",
-          required: 1,
-          available: req.user.credits,
-        });
-      }
-
-      const { chapterTitle, bookDetails } = req.body;
+      const { chapterTitle, bookDetails, bookId, chapterId, chapterNumber, brief } = req.body;
       
       if (!chapterTitle || !bookDetails) {
         return res.status(400).json({ 
@@ -617,14 +1600,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const content = await regenerateChapter(chapterTitle, bookDetails);
-      
-      // Deduct credit after successful regeneration (unless admin)
-      if (req.user.role !== "admin") {
-        await storage.deductCredits(req.user.id, 1, "regenerate_chapter", bookDetails.bookId);
+      const target = await resolveTargetBook(bookId, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      // The chapter's credits are held during the call and refunded if it fails
+      const charged = await withCredits(req.user, { ...req.creditCharge!, bookId: target.book?.id }, async () => {
+        const plan = await planChapterGeneration({ bookId: target.book?.id, chapterId, chapterNumber, chapterTitle, requestBrief: brief, bookDetails });
+        const content = await regenerateChapter(chapterTitle, bookDetails, plan.promptName, plan.context);
+
+        const saved = target.book
+          ? await storage.upsertChapter(target.book.id, { id: chapterId, chapterNumber: chapterNumber || 1, title: chapterTitle, content, brief: plan.context.chapterBrief })
+          : undefined;
+        return { content, chapterId: saved?.id };
+      });
+      if (charged.insufficient) {
+        return res.status(402).json({ error: "Insufficient credits for chapter regeneration", ...charged.insufficient });
       }
       
-      res.json({ content });
+      res.json(charged.result);
     } catch (error) {
       console.error('Chapter regeneration error:', error);
       res.status(500).json({ 
@@ -633,62 +1628,308 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream a chapter as Server-Sent Events. Closing the connection cancels the generation.
+  app.post("/api/chapters/regenerate/stream", authenticateToken, requireCredits("generate_chapter"), async (req: AuthRequest, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const { chapterTitle, bookDetails, bookId, chapterId, chapterNumber, brief } = req.body;
+
+    if (!chapterTitle || !bookDetails) {
+      return res.status(400).json({
+        error: "Chapter title and book details are required"
+      });
+    }
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        abortController.abort();
+      }
+    });
+
+    try {
+      const target = await resolveTargetBook(bookId, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      // The chapter's credits are held while it streams and refunded if it fails or is cancelled
+      const charged = await withCredits(req.user, { ...req.creditCharge!, bookId: target.book?.id }, async () => {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-transform",
+          "Connection": "keep-alive",
+          "X-Accel-Buffering": "no",
+        });
+        res.flushHeaders();
+
+        const plan = await planChapterGeneration({ bookId: target.book?.id, chapterId, chapterNumber, chapterTitle, requestBrief: brief, bookDetails });
+        const content = await streamChapter(chapterTitle, bookDetails, {
+          promptName: plan.promptName,
+          context: plan.context,
+          signal: abortController.signal,
+          onText: (delta) => sendEvent("delta", { text: delta }),
+        });
+
+        const saved = target.book
+          ? await storage.upsertChapter(target.book.id, { id: chapterId, chapterNumber: chapterNumber || 1, title: chapterTitle, content, brief: plan.context.chapterBrief })
+          : undefined;
+        return { content, chapterId: saved?.id };
+      });
+      if (charged.insufficient) {
+        return res.status(402).json({ error: "Insufficient credits for chapter regeneration", ...charged.insufficient });
+      }
+
+      sendEvent("done", charged.result);
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log(`Chapter stream cancelled by client: ${chapterTitle}`);
+        return;
+      }
+      console.error('Chapter stream error:', error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: error instanceof Error ? error.message : "Failed to regenerate chapter" });
+      }
+      sendEvent("error", {
+        error: error instanceof Error ? error.message : "Failed to regenerate chapter"
+      });
+    }
+    res.end();
+  });
+
+  // Background job: generate every empty chapter server-side. The whole-book price is held while it runs;
+  // a job that stops early is charged per chapter written instead.
+  app.post("/api/jobs/generate-chapters", authenticateToken, requireCredits("generate_book"), async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const { bookId, bookDetails, chapters } = req.body;
+
+      if (!bookDetails || !Array.isArray(chapters) || chapters.length === 0) {
+        return res.status(400).json({
+          error: "Book details and at least one chapter are required"
+        });
+      }
+
+      const target = await resolveTargetBook(bookId, req.user);
+      if (target.error) {
+        return res.status(target.status!).json({ error: target.error });
+      }
+
+      const queued = await enqueueChapterGenerationJob({
+        user: req.user,
+        bookId: target.book?.id,
+        bookDetails,
+        chapters: chapters.map((chapter: { id: string; title: string; chapterNumber?: number; brief?: unknown }, index: number) => {
+          const brief = chapterBriefSchema.safeParse(chapter.brief);
+          return {
+            id: chapter.id,
+            title: chapter.title,
+            chapterNumber: chapter.chapterNumber || index + 1,
+            brief: brief.success ? brief.data : undefined,
+          };
+        }),
+        charge: req.creditCharge!,
+      });
+      if (queued.insufficient) {
+        return res.status(402).json({ error: "Insufficient credits to generate the book", ...queued.insufficient });
+      }
+
+      res.status(202).json(queued.job);
+    } catch (error) {
+      console.error('Job creation error:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to start generation job"
+      });
+    }
+  });
+
+  app.get("/api/jobs", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const bookId = typeof req.query.bookId === "string" ? req.query.bookId : undefined;
+      const jobs = await storage.getUserGenerationJobs(req.user.id, bookId);
+      res.json(jobs);
+    } catch (error) {
+      console.error('Jobs fetch error:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch jobs"
+      });
+    }
+  });
+
+  app.get("/api/jobs/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const job = await storage.getGenerationJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      if (job.userId !== req.user?.id && req.user?.role !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      res.json(job);
+    } catch (error) {
+      console.error('Job fetch error:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to fetch job"
+      });
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const job = await storage.getGenerationJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      if (job.userId !== req.user?.id && req.user?.role !== "admin") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const cancelled = await cancelGenerationJob(job.id);
+      res.json(cancelled);
+    } catch (error) {
+      console.error('Job cancel error:', error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : "Failed to cancel job"
+      });
+    }
+  });
+
+  // Export every format and the cover as one ZIP, reporting progress as Server-Sent Events
+  app.post("/api/export/bundle/stream", authenticateToken, async (req: AuthRequest, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const prepared = await prepareExport(req.body, req.user);
+      if (prepared.error) {
+        return res.status(prepared.status!).json({ error: prepared.error, details: prepared.details });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.flushHeaders();
+
+      let issues: ExportIssue[] = [];
+      const bookExport = await storeExport({
+        userId: req.user.id,
+        bookId: prepared.bookId,
+        format: "bundle",
+        options: prepared.options,
+      }, async outputDir => {
+        const result = await exportToBundle(prepared.bookData!, prepared.options, outputDir, progress => sendEvent("progress", progress));
+        issues = result.issues;
+        return result.fileName;
+      });
+
+      sendEvent("done", {
+        exportId: bookExport!.id,
+        downloadUrl: signedDownloadUrl(bookExport!),
+        fileName: bookExport!.fileName,
+        issues,
+      });
+    } catch (error) {
+      console.error('Bundle export error:', error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: error instanceof Error ? error.message : "Failed to export book" });
+      }
+      sendEvent("error", {
+        error: error instanceof Error ? error.message : "Failed to export book"
+      });
+    }
+    res.end();
+  });
+
   // Export book in different formats
   app.post("/api/export/:format", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const { format } = req.params;
-      const bookData = req.body;
-      
-      if (!bookData.title || !bookData.chapters || bookData.chapters.length === 0) {
-        return res.status(400).json({ 
-          error: "Book title and chapters are required for export" 
-        });
+      if (!req.user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
 
+      const { format } = req.params;
+
       // Validate format
-      const validFormats = ['pdf', 'epub', 'docx', 'markdown', 'html'];
+      const validFormats = ['pdf', 'epub', 'docx', 'markdown', 'html', 'flipbook'];
       if (!validFormats.includes(format.toLowerCase())) {
         return res.status(400).json({ 
-          error: "Invalid export format. Supported formats: PDF, EPUB, DOCX, Markdown, HTML" 
+          error: "Invalid export format. Supported formats: PDF, EPUB, DOCX, Markdown, HTML, Flipbook" 
         });
       }
 
-      const exportOptions = {
-        includeCover: true,
-        includeTableOfContents: true,
-        includePageNumbers: true
-      };
+      const prepared = await prepareExport(req.body, req.user);
+      if (prepared.error) {
+        return res.status(prepared.status!).json({ error: prepared.error, details: prepared.details });
+      }
+      const bookData = prepared.bookData!;
+      const exportOptions = prepared.options!;
 
-      let fileName: string;
-      
-      // Generate the actual file based on format
-      switch (format.toLowerCase()) {
-        case 'pdf':
-          fileName = await exportToPDF(bookData, exportOptions);
-          break;
-        case 'html':
-          fileName = await exportToHTML(bookData, exportOptions);
-          break;
-        case 'markdown':
-          fileName = await exportToMarkdown(bookData);
-          break;
-        case 'epub':
-          fileName = await exportToEPUB(bookData, exportOptions);
-          break;
-        case 'docx':
-          fileName = await exportToDOCX(bookData, exportOptions);
-          break;
-        default:
-          throw new Error(`Unsupported format: ${format}`);
-      }
-      
-      const downloadUrl = `/api/download/${fileName}`;
+      let issues: ExportIssue[] = [];
+      
+      // Generate the actual file based on format, in a directory of its own
+      const bookExport = await storeExport({
+        userId: req.user.id,
+        bookId: prepared.bookId,
+        format: format.toLowerCase(),
+        options: exportOptions,
+      }, async outputDir => {
+        switch (format.toLowerCase()) {
+          case 'pdf':
+            return exportToPDF(bookData, exportOptions, outputDir);
+          case 'html':
+            return exportToHTML(bookData, exportOptions, outputDir);
+          case 'markdown':
+            return exportToMarkdown(bookData, exportOptions, outputDir);
+          case 'epub': {
+            const result = await exportToEPUB(bookData, exportOptions, outputDir);
+            issues = result.issues;
+            return result.fileName;
+          }
+          case 'docx':
+            return exportToDOCX(bookData, exportOptions, outputDir);
+          case 'flipbook':
+            return exportToFlipbook(bookData, exportOptions, outputDir);
+          default:
+            throw new Error(`Unsupported format: ${format}`);
+        }
+      });
+
+      if (!bookExport) {
+        const errors = issues.filter(issue => issue.severity === "error").map(issue => issue.message);
+        return res.status(422).json({ error: `The EPUB did not pass validation: ${errors.join("; ")}`, issues });
+      }
       
       res.json({ 
         success: true,
-        downloadUrl,
-        fileName,
+        exportId: bookExport.id,
+        downloadUrl: signedDownloadUrl(bookExport),
+        fileName: bookExport.fileName,
         format: format.toUpperCase(),
+        issues,
         message: `${format.toUpperCase()} export completed successfully`
       });
     } catch (error) {
@@ -699,7 +1940,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Download exported files
   // Flipbook preview route
   app.post("/flipbook-preview", async (req, res) => {
     try {
@@ -833,38 +2073,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/download/:fileName", async (req, res) => {
+  // Download exported files
+  app.get("/api/exports/:id/download", async (req, res) => {
     try {
-      const { fileName } = req.params;
-      const filePath = path.join(process.cwd(), 'exports', fileName);
-      
-      // Set appropriate headers for download
-      const ext = path.extname(fileName).toLowerCase();
-      let contentType = 'application/octet-stream';
-      
-      switch (ext) {
-        case '.pdf':
-          contentType = 'application/pdf';
-          break;
-        case '.html':
-          contentType = 'text/html';
-          break;
-        case '.md':
-          contentType = 'text/markdown';
-          break;
-        case '.epub':
-          contentType = 'application/epub+zip';
-          break;
-        case '.rtf':
-        case '.docx':
-          contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-          break;
+      const bookExport = await storage.getBookExport(req.params.id);
+      if (!bookExport) {
+        return res.status(404).json({ error: "Export not found" });
       }
-      
-      res.setHeader('Content-Type', contentType);
-      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-      
-      res.download(filePath, fileName, (error) => {
+
+      // A signed link from the export response or history, or the owner's own bearer token
+      const token = typeof req.query.token === "string" ? req.query.token : null;
+      if (!token || verifyDownloadToken(token) !== bookExport.id) {
+        const authHeader = req.headers.authorization;
+        const decoded = authHeader?.startsWith("Bearer ") ? verifyToken(authHeader.slice(7)) : null;
+        const user = decoded ? await storage.getUser(decoded.userId) : undefined;
+        if (!user || !user.isActive) {
+          return res.status(401).json({ error: "This download link is invalid or has expired" });
+        }
+        if (bookExport.userId !== user.id && user.role !== "admin") {
+          return res.status(403).json({ error: "Access denied" });
+        }
+      }
+
+      if (bookExport.deletedAt) {
+        return res.status(410).json({ error: "This export has expired. Export the book again to download it." });
+      }
+
+      res.setHeader('Content-Type', bookExport.contentType);
+      res.download(exportFilePath(bookExport.storageKey), bookExport.fileName, (error) => {
         if (error) {
           console.error('Download error:', error);
           if (!res.headersSent) {
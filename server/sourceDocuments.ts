@@ -0,0 +1,186 @@
+import path from "path";
+import mammoth from "mammoth";
+import type { SourceDocument, SourceFormat, SourcePassage } from "@shared/schema";
+import { storage } from "./storage";
+
+export const MAX_SOURCE_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+// Chunks are cut on paragraph boundaries and kept near this size so a handful fit in one prompt
+const TARGET_CHUNK_CHARS = 1200;
+const MAX_CHUNKS_PER_DOCUMENT = 2000;
+
+const EXTENSION_FORMATS: Record<string, SourceFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".md": "md",
+  ".markdown": "md",
+  ".txt": "txt",
+};
+
+const MIME_FORMATS: Record<string, SourceFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/markdown": "md",
+  "text/x-markdown": "md",
+  "text/plain": "txt",
+};
+
+// Text of a document split where the format gives us a location worth citing (a page or a heading)
+interface SourceSection {
+  location: string | null;
+  text: string;
+}
+
+export function detectSourceFormat(filename: string, mimeType?: string): SourceFormat | null {
+  const byExtension = EXTENSION_FORMATS[path.extname(filename).toLowerCase()];
+  if (byExtension) return byExtension;
+  return (mimeType && MIME_FORMATS[mimeType.split(";")[0].trim()]) || null;
+}
+
+async function extractSections(buffer: Buffer, format: SourceFormat): Promise<SourceSection[]> {
+  switch (format) {
+    case "pdf": {
+      const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+      const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, useSystemFonts: true }).promise;
+      const sections: SourceSection[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const text = content.items
+          .map(item => "str" in item ? item.str + (item.hasEOL ? "\n" : "") : "")
+          .join("");
+        sections.push({ location: `page ${pageNumber}`, text });
+      }
+      await pdf.destroy();
+      return sections;
+    }
+    case "docx": {
+      const { value } = await mammoth.extractRawText({ buffer });
+      return [{ location: null, text: value }];
+    }
+    case "md": {
+      // Every heading starts a new section so citations can point at it
+      const sections: SourceSection[] = [{ location: null, text: "" }];
+      for (const line of buffer.toString("utf8").split(/\r?\n/)) {
+        const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+          sections.push({ location: heading[1], text: "" });
+        } else {
+          sections[sections.length - 1].text += line + "\n";
+        }
+      }
+      return sections;
+    }
+    case "txt":
+      return [{ location: null, text: buffer.toString("utf8") }];
+  }
+}
+
+// Splits sections into chunks of roughly TARGET_CHUNK_CHARS, never merging text from two sections
+export function chunkSections(sections: SourceSection[]): Array<{ location: string | null; content: string }> {
+  const chunks: Array<{ location: string | null; content: string }> = [];
+
+  for (const section of sections) {
+    const paragraphs = section.text
+      .replace(/\r\n/g, "\n")
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      // A paragraph longer than a whole chunk is cut at sentence ends
+      .flatMap(paragraph => paragraph.length <= TARGET_CHUNK_CHARS
+        ? [paragraph]
+        : paragraph.match(new RegExp(`.{1,${TARGET_CHUNK_CHARS}}(?:[.!?](?=\\s)|$|\\s)`, "g"))?.map(part => part.trim()) || [paragraph]);
+
+    let current = "";
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > TARGET_CHUNK_CHARS) {
+        chunks.push({ location: section.location, content: current });
+        current = "";
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) {
+      chunks.push({ location: section.location, content: current });
+    }
+  }
+
+  return chunks;
+}
+
+// Extract, chunk and store an uploaded file; returns a status and message for the route on failure
+export async function ingestSourceDocument(
+  bookId: string,
+  file: { filename: string; mimeType?: string; buffer: Buffer }
+): Promise<{ document?: SourceDocument; status?: number; error?: string }> {
+  const format = detectSourceFormat(file.filename, file.mimeType);
+  if (!format) {
+    return { status: 400, error: "Unsupported file type. Upload a PDF, DOCX, Markdown or plain text file." };
+  }
+
+  let sections: SourceSection[];
+  try {
+    sections = await extractSections(file.buffer, format);
+  } catch (error) {
+    console.error(`Failed to read ${format} source document:`, error);
+    return { status: 422, error: `Could not read this ${format.toUpperCase()} file. It may be damaged or password protected.` };
+  }
+
+  const chunks = chunkSections(sections);
+  if (chunks.length === 0) {
+    return { status: 422, error: "No text could be extracted from this file. Scanned PDFs need to be converted to text first." };
+  }
+  if (chunks.length > MAX_CHUNKS_PER_DOCUMENT) {
+    return { status: 413, error: "This document is too long to use as source material." };
+  }
+
+  const document = await storage.createSourceDocument(bookId, {
+    filename: file.filename,
+    format,
+    characterCount: chunks.reduce((total, chunk) => total + chunk.content.length, 0),
+  }, chunks);
+  return { document };
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "all", "any", "can", "had", "has", "have", "her", "his",
+  "how", "its", "our", "out", "was", "who", "why", "what", "when", "with", "will", "this", "that", "they", "them",
+  "their", "from", "into", "than", "then", "there", "these", "those", "which", "while", "about", "would", "could",
+  "should", "more", "most", "some", "such", "only", "also", "just", "over", "very", "each", "other", "been", "being",
+]);
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]{3,}/g) || []).filter(term => !STOP_WORDS.has(term));
+}
+
+// Keyword retrieval (tf-idf) over the book's chunks; good enough to pick passages for a prompt
+export async function findRelevantPassages(bookId: string, query: string, limit: number): Promise<SourcePassage[]> {
+  const passages = await storage.getBookSourcePassages(bookId);
+  if (passages.length === 0) return [];
+
+  const queryTerms = Array.from(new Set(terms(query)));
+  const passageTerms = passages.map(passage => {
+    const counts = new Map<string, number>();
+    for (const term of terms(passage.content)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return counts;
+  });
+
+  const idf = new Map(queryTerms.map(term => {
+    const containing = passageTerms.filter(counts => counts.has(term)).length;
+    return [term, Math.log((passages.length + 1) / (containing + 0.5))];
+  }));
+
+  const scored = passages.map((passage, index) => ({
+    passage,
+    score: queryTerms.reduce((total, term) => total + Math.log(1 + (passageTerms[index].get(term) || 0)) * (idf.get(term) || 0), 0),
+  }));
+
+  const matches = scored.filter(entry => entry.score > 0);
+  // With nothing in common, the opening of the material is the most useful overview
+  const ranked = matches.length > 0 ? matches.sort((a, b) => b.score - a.score) : scored;
+  return ranked
+    .slice(0, limit)
+    .map(entry => entry.passage)
+    .sort((a, b) => passages.indexOf(a) - passages.indexOf(b));
+}
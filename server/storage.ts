@@ -1,8 +1,72 @@
-import type { User, InsertUser, Book, InsertBook, Chapter, InsertChapter, BookProgress, InsertBookProgress, Subscription, InsertSubscription, AdminConfig, InsertAdminConfig, CreditUsage, InsertCreditUsage, UpdateUserData } from "@shared/schema";
+import type { User, InsertUser, Book, BookSummary, InsertBook, Chapter, ChapterBrief, InsertChapter, ChapterRevision, RevisionSource, SourceDocument, SourceFormat, SourcePassage, BookAsset, InsertBookAsset, BookProgress, InsertBookProgress, Subscription, InsertSubscription, Invoice, InsertInvoice, AdminConfig, InsertAdminConfig, PromptTemplate, PromptTemplateName, CreditLedgerEntry, CreditLedgerKind, CreditHistoryEntry, CreditReservation, GenerationJob, InsertGenerationJob, BookExport, InsertBookExport, UpdateUserData } from "@shared/schema";
 import { db } from "./db";
-import { users, books, chapters, bookProgress, subscriptions, adminConfigs, creditUsage } from "@shared/schema";
-import { eq, and, sql, desc } from "drizzle-orm";
+import { ASSET_URL_PREFIX, users, books, chapters, chapterRevisions, sourceDocuments, sourceChunks, bookAssets, bookProgress, subscriptions, invoices, adminConfigs, promptTemplates, creditLedger, creditReservations, generationJobs, bookExports } from "@shared/schema";
+import { eq, ne, and, or, sql, desc, inArray, lt, lte, gt, gte, isNull, isNotNull } from "drizzle-orm";
 import bcrypt from "bcryptjs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Write the ledger row for a balance change made in the same transaction
+async function recordCreditChange(tx: Transaction, entry: {
+  userId: string;
+  kind: CreditLedgerKind;
+  amount: number;
+  balanceAfter: number;
+  action: string;
+  bookId?: string | null;
+  reservationId?: string | null;
+  metadata?: Record<string, unknown>;
+}): Promise<void> {
+  await tx.insert(creditLedger).values(entry);
+}
+
+export interface CreditPeriodGrant {
+  plan: string;
+  periodStart: Date;
+  credits: number;
+  bonusCredits: number;
+  maxRollover: number;
+}
+
+// A duplicated book, with the asset files its copied asset rows expect; the caller copies the files
+export interface BookDuplicate {
+  book: Book;
+  assetFiles: Array<{ from: string; to: string }>;
+}
+
+// Chapters written before history was kept get their old text saved first, so the first overwrite can be undone
+async function preserveUnrecordedContent(tx: Transaction, previous: Chapter): Promise<void> {
+  if (!previous.content.trim()) return;
+  const [earlier] = await tx
+    .select({ id: chapterRevisions.id })
+    .from(chapterRevisions)
+    .where(eq(chapterRevisions.chapterId, previous.id))
+    .limit(1);
+  if (!earlier) {
+    await tx.insert(chapterRevisions).values({
+      chapterId: previous.id,
+      title: previous.title,
+      content: previous.content,
+      source: "manual",
+      createdAt: previous.updatedAt,
+    });
+  }
+}
+
+// Snapshot a chapter's new content. Empty placeholders and saves that didn't change the text are skipped.
+async function recordRevision(tx: Transaction, previous: Chapter | undefined, chapter: Chapter, source: RevisionSource): Promise<void> {
+  if (!chapter.content.trim() || previous?.content === chapter.content) return;
+  if (previous) await preserveUnrecordedContent(tx, previous);
+
+  await tx.insert(chapterRevisions).values({
+    chapterId: chapter.id,
+    title: chapter.title,
+    content: chapter.content,
+    source,
+  });
+}
 
 export interface IStorage {
   // User methods
@@ -17,16 +81,42 @@ export interface IStorage {
 
   // Book methods
   createBook(book: InsertBook): Promise<Book>;
+  createBookWithChapters(book: InsertBook, chapters: Array<{ title: string; content: string }>, source?: RevisionSource): Promise<Book>;
   getBook(id: string): Promise<Book | undefined>;
   getUserBooks(userId: string): Promise<Book[]>;
+  getUserBookSummaries(userId: string): Promise<BookSummary[]>;
   updateBook(id: string, updates: Partial<Book>): Promise<Book | undefined>;
+  duplicateBook(id: string): Promise<BookDuplicate | undefined>;
   deleteBook(id: string): Promise<boolean>;
 
   // Chapter methods
-  createChapter(chapter: InsertChapter): Promise<Chapter>;
+  createChapter(chapter: InsertChapter, source?: RevisionSource): Promise<Chapter>;
+  getChapter(id: string): Promise<Chapter | undefined>;
   getBookChapters(bookId: string): Promise<Chapter[]>;
-  updateChapter(id: string, updates: Partial<Chapter>): Promise<Chapter | undefined>;
+  updateChapter(id: string, updates: Partial<Chapter>, source?: RevisionSource): Promise<Chapter | undefined>;
   deleteChapter(id: string): Promise<boolean>;
+  upsertChapter(bookId: string, chapter: { id?: string; chapterNumber: number; title: string; content: string; brief?: ChapterBrief | null }, source?: RevisionSource): Promise<Chapter>;
+  replaceBookChapters(bookId: string, chapters: Array<{ title: string; content: string; brief?: ChapterBrief | null }>, source?: RevisionSource): Promise<Chapter[]>;
+  updateChapterSummary(id: string, summary: string, contentHash: string): Promise<void>;
+
+  // Chapter revision methods
+  getChapterRevisions(chapterId: string): Promise<ChapterRevision[]>;
+  getChapterRevision(id: string): Promise<ChapterRevision | undefined>;
+
+  // Source document methods
+  createSourceDocument(bookId: string, document: { filename: string; format: SourceFormat; characterCount: number }, chunks: Array<{ location: string | null; content: string }>): Promise<SourceDocument>;
+  getBookSourceDocuments(bookId: string): Promise<SourceDocument[]>;
+  getSourceDocument(id: string): Promise<SourceDocument | undefined>;
+  deleteSourceDocument(id: string): Promise<boolean>;
+  getBookSourcePassages(bookId: string): Promise<SourcePassage[]>;
+
+  // Asset methods
+  createBookAsset(asset: InsertBookAsset): Promise<BookAsset>;
+  getBookAsset(id: string): Promise<BookAsset | undefined>;
+  getBookAssets(bookId: string): Promise<BookAsset[]>;
+  getUserBookAssets(userId: string): Promise<BookAsset[]>;
+  updateBookAsset(id: string, updates: Pick<BookAsset, "altText">): Promise<BookAsset | undefined>;
+  deleteBookAsset(id: string): Promise<boolean>;
 
   // Progress methods
   saveProgress(progress: InsertBookProgress): Promise<BookProgress>;
@@ -37,17 +127,63 @@ export interface IStorage {
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
   getUserSubscription(userId: string): Promise<Subscription | undefined>;
   updateSubscription(userId: string, updates: Partial<Subscription>): Promise<Subscription | undefined>;
+  // Lookups by the billing provider's subscription ID, used by its webhooks
+  getSubscriptionByExternalId(subscriptionId: string): Promise<Subscription | undefined>;
+  updateSubscriptionByExternalId(subscriptionId: string, updates: Partial<Subscription>): Promise<Subscription | undefined>;
+
+  // Invoice methods
+  upsertInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  getUserInvoices(userId: string): Promise<Invoice[]>;
 
   // Admin config methods
   getAdminConfig(key: string): Promise<AdminConfig | undefined>;
   setAdminConfig(config: InsertAdminConfig): Promise<AdminConfig>;
   getAllAdminConfigs(): Promise<AdminConfig[]>;
 
-  // Credit usage methods
-  logCreditUsage(usage: InsertCreditUsage): Promise<CreditUsage>;
-  getUserCreditUsage(userId: string): Promise<CreditUsage[]>;
-  deductCredits(userId: string, amount: number, action: string, bookId?: string): Promise<boolean>;
-  resetMonthlyCredits(userId: string): Promise<User | undefined>;
+  // Prompt template methods
+  getPromptTemplateVersions(name: PromptTemplateName): Promise<PromptTemplate[]>;
+  getActivePromptTemplate(name: PromptTemplateName): Promise<PromptTemplate | undefined>;
+  createPromptTemplateVersion(template: { name: PromptTemplateName; body: string; notes?: string | null; createdBy?: string | null }): Promise<PromptTemplate>;
+  activatePromptTemplateVersion(id: string): Promise<PromptTemplate | undefined>;
+  deactivatePromptTemplates(name: PromptTemplateName): Promise<void>;
+
+  // Credit ledger methods. Every balance change writes a ledger row in the same transaction.
+  // Newest first; total counts every matching row, not just the page
+  getCreditLedger(userId: string, filter?: { action?: string; bookId?: string; limit?: number; offset?: number }): Promise<{ entries: CreditHistoryEntry[]; total: number }>;
+  getCreditLedgerActions(userId: string): Promise<string[]>;
+  grantCredits(userId: string, amount: number, action: string, metadata?: Record<string, unknown>): Promise<User | undefined>;
+  // Takes the credits off the balance straight away; undefined when the balance does not cover them
+  reserveCredits(reservation: { userId: string; amount: number; action: string; bookId?: string; expiresAt: Date }): Promise<CreditReservation | undefined>;
+  // Both return undefined when the reservation was already settled. Releasing a hold that a period
+  // reset passed refunds only its refundableAmount.
+  captureCreditReservation(id: string): Promise<CreditReservation | undefined>;
+  releaseCreditReservation(id: string, reason: string): Promise<CreditReservation | undefined>;
+  // Pushes back when the sweep refunds a hold; undefined when it is no longer held
+  extendCreditReservation(id: string, expiresAt: Date): Promise<CreditReservation | undefined>;
+  getExpiredCreditReservations(now: Date): Promise<CreditReservation[]>;
+  // Non-admin users whose credit period has started: those whose active subscription began a billing
+  // period after their last reset, and free users last reset on or before freeResetBefore
+  getUsersDueForCreditReset(freeResetBefore: Date): Promise<Array<{ user: User; subscription?: Subscription }>>;
+  // undefined when the user was already reset for this period
+  resetMonthlyCredits(userId: string, period: CreditPeriodGrant): Promise<User | undefined>;
+
+  // Generation job methods
+  createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob>;
+  getGenerationJob(id: string): Promise<GenerationJob | undefined>;
+  getUserGenerationJobs(userId: string, bookId?: string): Promise<GenerationJob[]>;
+  getUnfinishedGenerationJobs(): Promise<GenerationJob[]>;
+  // With fromStatuses, only updates a job still in one of them; undefined when it has moved on
+  updateGenerationJob(id: string, updates: Partial<GenerationJob>, fromStatuses?: string[]): Promise<GenerationJob | undefined>;
+  // Detaches the job's credit hold; false when another caller already took it to settle
+  claimGenerationJobReservation(id: string, reservationId: string): Promise<boolean>;
+
+  // Export methods
+  createBookExport(bookExport: InsertBookExport): Promise<BookExport>;
+  getBookExport(id: string): Promise<BookExport | undefined>;
+  getUserBookExports(userId: string, bookId?: string): Promise<BookExport[]>;
+  getBookExportsWithFiles(bookId: string): Promise<BookExport[]>;
+  getExpiredBookExports(now: Date): Promise<BookExport[]>;
+  markBookExportDeleted(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -70,27 +206,58 @@ export class DatabaseStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     // Hash password before storing
     const hashedPassword = await this.hashPassword(insertUser.password);
-    const [user] = await db
-      .insert(users)
-      .values({
-        ...insertUser,
-        password: hashedPassword,
-        creditsResetDate: new Date(),
-      })
-      .returning();
-    return user;
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values({
+          ...insertUser,
+          password: hashedPassword,
+          creditsResetDate: new Date(),
+        })
+        .returning();
+      if (user.credits > 0) {
+        await recordCreditChange(tx, { userId: user.id, kind: "grant", amount: user.credits, balanceAfter: user.credits, action: "signup" });
+      }
+      return user;
+    });
   }
 
   async updateUser(id: string, updates: UpdateUserData): Promise<User | undefined> {
-    const [user] = await db
-      .update(users)
-      .set({
-        ...updates,
-        updatedAt: new Date(),
-      })
-      .where(eq(users.id, id))
-      .returning();
-    return user || undefined;
+    if (updates.credits === undefined) {
+      const [user] = await db
+        .update(users)
+        .set({
+          ...updates,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, id))
+        .returning();
+      return user || undefined;
+    }
+
+    // An admin setting the balance is recorded as an adjustment by the difference
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      if (!current) return undefined;
+      const [user] = await tx
+        .update(users)
+        .set({
+          ...updates,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, id))
+        .returning();
+      if (user.credits !== current.credits) {
+        await recordCreditChange(tx, {
+          userId: id,
+          kind: "adjustment",
+          amount: user.credits - current.credits,
+          balanceAfter: user.credits,
+          action: "admin_adjustment",
+        });
+      }
+      return user;
+    });
   }
 
   async deleteUser(id: string): Promise<boolean> {
@@ -110,11 +277,37 @@ export class DatabaseStorage implements IStorage {
   async createBook(insertBook: InsertBook): Promise<Book> {
     const [book] = await db
       .insert(books)
-      .values(insertBook as any)
+      .values(insertBook)
       .returning();
     return book;
   }
 
+  // A book arriving with its text (an imported manuscript) is written whole or not at all
+  async createBookWithChapters(insertBook: InsertBook, newChapters: Array<{ title: string; content: string }>, source: RevisionSource = "import"): Promise<Book> {
+    return await db.transaction(async (tx) => {
+      const [book] = await tx
+        .insert(books)
+        .values(insertBook)
+        .returning();
+      if (newChapters.length === 0) return book;
+
+      const inserted = await tx
+        .insert(chapters)
+        .values(newChapters.map((chapter, index) => ({
+          bookId: book.id,
+          chapterNumber: index + 1,
+          title: chapter.title,
+          content: chapter.content,
+          isExpanded: index === 0,
+        })))
+        .returning();
+      for (const chapter of inserted) {
+        await recordRevision(tx, undefined, chapter, source);
+      }
+      return book;
+    });
+  }
+
   async getBook(id: string): Promise<Book | undefined> {
     const [book] = await db.select().from(books).where(eq(books.id, id));
     return book || undefined;
@@ -124,27 +317,132 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(books).where(eq(books.userId, userId));
   }
 
+  async getUserBookSummaries(userId: string): Promise<BookSummary[]> {
+    const rows = await db
+      .select({
+        book: books,
+        chapterCount: sql<number>`count(${chapters.id})::int`,
+        wordCount: sql<number>`coalesce(sum(array_length(regexp_split_to_array(nullif(trim(${chapters.content}), ''), '\\s+'), 1)), 0)::int`,
+      })
+      .from(books)
+      .leftJoin(chapters, eq(chapters.bookId, books.id))
+      .where(eq(books.userId, userId))
+      .groupBy(books.id)
+      .orderBy(desc(books.updatedAt));
+
+    return rows.map(row => ({ ...row.book, chapterCount: row.chapterCount, wordCount: row.wordCount }));
+  }
+
   async updateBook(id: string, updates: Partial<Book>): Promise<Book | undefined> {
     const [book] = await db
       .update(books)
-      .set(updates)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
       .where(eq(books.id, id))
       .returning();
     return book || undefined;
   }
 
+  async duplicateBook(id: string): Promise<BookDuplicate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [original] = await tx.select().from(books).where(eq(books.id, id));
+      if (!original) return undefined;
+
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...bookData } = original;
+      const [copy] = await tx
+        .insert(books)
+        .values({
+          ...bookData,
+          title: original.title ? `${original.title} (Copy)` : original.title,
+          status: "draft",
+          archivedAt: null,
+        })
+        .returning();
+
+      // The copy gets its own asset rows under new ids, in the asset store's <bookId>/<assetId>.<ext>
+      // layout, so deleting either book leaves the other's images in place
+      const originalAssets = await tx.select().from(bookAssets).where(eq(bookAssets.bookId, id));
+      const assetFiles: BookDuplicate["assetFiles"] = [];
+      const assetUrls = new Map<string, string>();
+      if (originalAssets.length > 0) {
+        await tx.insert(bookAssets).values(originalAssets.map(({ id: assetId, createdAt: _assetCreatedAt, ...asset }) => {
+          const copyId = randomUUID();
+          const storageKey = path.posix.join(copy.id, `${copyId}${path.posix.extname(asset.storageKey)}`);
+          assetFiles.push({ from: asset.storageKey, to: storageKey });
+          assetUrls.set(`${ASSET_URL_PREFIX}${assetId}`, `${ASSET_URL_PREFIX}${copyId}`);
+          return { ...asset, id: copyId, bookId: copy.id, storageKey };
+        }));
+      }
+      const withCopiedAssetUrls = (content: string) => Array.from(assetUrls).reduce(
+        (result, [from, to]) => result.split(from).join(to),
+        content
+      );
+
+      const originalChapters = await tx.select().from(chapters).where(eq(chapters.bookId, id));
+      if (originalChapters.length > 0) {
+        await tx.insert(chapters).values(originalChapters.map(chapter => ({
+          bookId: copy.id,
+          chapterNumber: chapter.chapterNumber,
+          title: chapter.title,
+          content: withCopiedAssetUrls(chapter.content),
+          brief: chapter.brief,
+          summary: chapter.summary,
+          summaryContentHash: chapter.summaryContentHash,
+          isExpanded: chapter.isExpanded,
+        })));
+      }
+
+      const originalDocuments = await tx.select().from(sourceDocuments).where(eq(sourceDocuments.bookId, id));
+      for (const { id: documentId, createdAt: _documentCreatedAt, ...documentData } of originalDocuments) {
+        const [documentCopy] = await tx.insert(sourceDocuments).values({ ...documentData, bookId: copy.id }).returning();
+        const documentChunks = await tx.select().from(sourceChunks).where(eq(sourceChunks.documentId, documentId));
+        for (let start = 0; start < documentChunks.length; start += 500) {
+          await tx.insert(sourceChunks).values(documentChunks.slice(start, start + 500).map(({ id: _chunkId, ...chunk }) => ({
+            ...chunk,
+            documentId: documentCopy.id,
+            bookId: copy.id,
+          })));
+        }
+      }
+
+      const originalProgress = await tx.select().from(bookProgress).where(eq(bookProgress.bookId, id));
+      if (originalProgress.length > 0) {
+        await tx.insert(bookProgress).values(originalProgress.map(progress => ({
+          bookId: copy.id,
+          stepName: progress.stepName,
+          stepData: progress.stepData,
+          completedAt: progress.completedAt,
+          isCompleted: progress.isCompleted,
+        })));
+      }
+
+      return { book: copy, assetFiles };
+    });
+  }
+
+  // Credit history outlives the book; its ledger rows and reservations just lose the book reference
   async deleteBook(id: string): Promise<boolean> {
     const result = await db.delete(books).where(eq(books.id, id));
     return (result.rowCount || 0) > 0;
   }
 
   // Chapter methods
-  async createChapter(insertChapter: InsertChapter): Promise<Chapter> {
-    const [chapter] = await db
-      .insert(chapters)
-      .values(insertChapter)
-      .returning();
-    return chapter;
+  async createChapter(insertChapter: InsertChapter, source: RevisionSource = "manual"): Promise<Chapter> {
+    return await db.transaction(async (tx) => {
+      const [chapter] = await tx
+        .insert(chapters)
+        .values(insertChapter)
+        .returning();
+      await recordRevision(tx, undefined, chapter, source);
+      return chapter;
+    });
+  }
+
+  async getChapter(id: string): Promise<Chapter | undefined> {
+    const [chapter] = await db.select().from(chapters).where(eq(chapters.id, id));
+    return chapter || undefined;
   }
 
   async getBookChapters(bookId: string): Promise<Chapter[]> {
@@ -155,16 +453,22 @@ export class DatabaseStorage implements IStorage {
       .orderBy(chapters.chapterNumber);
   }
 
-  async updateChapter(id: string, updates: Partial<Chapter>): Promise<Chapter | undefined> {
-    const [chapter] = await db
-      .update(chapters)
-      .set({
-        ...updates,
-        updatedAt: new Date(),
-      })
-      .where(eq(chapters.id, id))
-      .returning();
-    return chapter || undefined;
+  async updateChapter(id: string, updates: Partial<Chapter>, source: RevisionSource = "manual"): Promise<Chapter | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(chapters).where(eq(chapters.id, id));
+      if (!previous) return undefined;
+
+      const [chapter] = await tx
+        .update(chapters)
+        .set({
+          ...updates,
+          updatedAt: new Date(),
+        })
+        .where(eq(chapters.id, id))
+        .returning();
+      await recordRevision(tx, previous, chapter, source);
+      return chapter;
+    });
   }
 
   async deleteChapter(id: string): Promise<boolean> {
@@ -172,6 +476,233 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  async upsertChapter(bookId: string, chapter: { id?: string; chapterNumber: number; title: string; content: string; brief?: ChapterBrief | null }, source: RevisionSource = "ai"): Promise<Chapter> {
+    return await db.transaction(async (tx) => {
+      if (chapter.id) {
+        const [existing] = await tx
+          .select()
+          .from(chapters)
+          .where(and(eq(chapters.id, chapter.id), eq(chapters.bookId, bookId)));
+
+        if (existing) {
+          const [updated] = await tx
+            .update(chapters)
+            .set({
+              title: chapter.title,
+              content: chapter.content,
+              // Keep the planned brief unless the caller brings a new one
+              ...(chapter.brief ? { brief: chapter.brief } : {}),
+              updatedAt: new Date(),
+            })
+            .where(eq(chapters.id, existing.id))
+            .returning();
+          await recordRevision(tx, existing, updated, source);
+          return updated;
+        }
+      }
+
+      const [created] = await tx
+        .insert(chapters)
+        .values({
+          bookId,
+          chapterNumber: chapter.chapterNumber,
+          title: chapter.title,
+          content: chapter.content,
+          brief: chapter.brief ?? null,
+        })
+        .returning();
+      await recordRevision(tx, undefined, created, source);
+      return created;
+    });
+  }
+
+  // The new outline takes over the existing chapter rows in order, so written chapters keep their revision
+  // history and their current text stays restorable. Left-over empty chapters are removed; left-over
+  // written ones are kept after the new outline rather than deleted with their history.
+  async replaceBookChapters(bookId: string, newChapters: Array<{ title: string; content: string; brief?: ChapterBrief | null }>, source: RevisionSource = "ai"): Promise<Chapter[]> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(chapters)
+        .where(eq(chapters.bookId, bookId))
+        .orderBy(chapters.chapterNumber);
+
+      const saved: Chapter[] = [];
+      for (let index = 0; index < newChapters.length; index++) {
+        const chapter = newChapters[index];
+        const values = {
+          chapterNumber: index + 1,
+          title: chapter.title,
+          content: chapter.content,
+          brief: chapter.brief ?? null,
+          isExpanded: index === 0,
+        };
+        const previous = existing[index];
+        if (previous) {
+          await preserveUnrecordedContent(tx, previous);
+          const [updated] = await tx
+            .update(chapters)
+            .set({ ...values, updatedAt: new Date() })
+            .where(eq(chapters.id, previous.id))
+            .returning();
+          await recordRevision(tx, previous, updated, source);
+          saved.push(updated);
+        } else {
+          const [inserted] = await tx.insert(chapters).values({ bookId, ...values }).returning();
+          await recordRevision(tx, undefined, inserted, source);
+          saved.push(inserted);
+        }
+      }
+
+      const leftOver = existing.slice(newChapters.length);
+      const emptyIds = leftOver.filter(chapter => !chapter.content.trim()).map(chapter => chapter.id);
+      if (emptyIds.length > 0) {
+        await tx.delete(chapters).where(inArray(chapters.id, emptyIds));
+      }
+      for (const chapter of leftOver.filter(chapter => chapter.content.trim())) {
+        const [kept] = await tx
+          .update(chapters)
+          .set({ chapterNumber: saved.length + 1, isExpanded: false })
+          .where(eq(chapters.id, chapter.id))
+          .returning();
+        saved.push(kept);
+      }
+      return saved;
+    });
+  }
+
+  // Not an edit: leaves updatedAt alone and records no revision
+  async updateChapterSummary(id: string, summary: string, contentHash: string): Promise<void> {
+    await db
+      .update(chapters)
+      .set({ summary, summaryContentHash: contentHash })
+      .where(eq(chapters.id, id));
+  }
+
+  // Chapter revision methods
+  async getChapterRevisions(chapterId: string): Promise<ChapterRevision[]> {
+    return await db
+      .select()
+      .from(chapterRevisions)
+      .where(eq(chapterRevisions.chapterId, chapterId))
+      .orderBy(desc(chapterRevisions.createdAt));
+  }
+
+  async getChapterRevision(id: string): Promise<ChapterRevision | undefined> {
+    const [revision] = await db.select().from(chapterRevisions).where(eq(chapterRevisions.id, id));
+    return revision || undefined;
+  }
+
+  // Source document methods
+  async createSourceDocument(
+    bookId: string,
+    document: { filename: string; format: SourceFormat; characterCount: number },
+    chunks: Array<{ location: string | null; content: string }>
+  ): Promise<SourceDocument> {
+    return await db.transaction(async (tx) => {
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${sourceDocuments.sequence}), 0)::int` })
+        .from(sourceDocuments)
+        .where(eq(sourceDocuments.bookId, bookId));
+
+      const [created] = await tx
+        .insert(sourceDocuments)
+        .values({ ...document, bookId, sequence: latest + 1, chunkCount: chunks.length })
+        .returning();
+
+      // Inserted in batches to stay well under Postgres' bind parameter limit
+      for (let start = 0; start < chunks.length; start += 500) {
+        await tx.insert(sourceChunks).values(chunks.slice(start, start + 500).map((chunk, index) => ({
+          documentId: created.id,
+          bookId,
+          position: start + index + 1,
+          location: chunk.location,
+          content: chunk.content,
+        })));
+      }
+      return created;
+    });
+  }
+
+  async getBookSourceDocuments(bookId: string): Promise<SourceDocument[]> {
+    return await db
+      .select()
+      .from(sourceDocuments)
+      .where(eq(sourceDocuments.bookId, bookId))
+      .orderBy(sourceDocuments.sequence);
+  }
+
+  async getSourceDocument(id: string): Promise<SourceDocument | undefined> {
+    const [document] = await db.select().from(sourceDocuments).where(eq(sourceDocuments.id, id));
+    return document || undefined;
+  }
+
+  async deleteSourceDocument(id: string): Promise<boolean> {
+    const result = await db.delete(sourceDocuments).where(eq(sourceDocuments.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getBookSourcePassages(bookId: string): Promise<SourcePassage[]> {
+    const rows = await db
+      .select({ chunk: sourceChunks, sequence: sourceDocuments.sequence, filename: sourceDocuments.filename })
+      .from(sourceChunks)
+      .innerJoin(sourceDocuments, eq(sourceChunks.documentId, sourceDocuments.id))
+      .where(eq(sourceChunks.bookId, bookId))
+      .orderBy(sourceDocuments.sequence, sourceChunks.position);
+
+    return rows.map(({ chunk, sequence, filename }) => ({
+      ...chunk,
+      label: `S${sequence}.${chunk.position}`,
+      filename,
+    }));
+  }
+
+  // Asset methods
+  async createBookAsset(insertAsset: InsertBookAsset): Promise<BookAsset> {
+    const [asset] = await db
+      .insert(bookAssets)
+      .values(insertAsset)
+      .returning();
+    return asset;
+  }
+
+  async getBookAsset(id: string): Promise<BookAsset | undefined> {
+    const [asset] = await db.select().from(bookAssets).where(eq(bookAssets.id, id));
+    return asset || undefined;
+  }
+
+  async getBookAssets(bookId: string): Promise<BookAsset[]> {
+    return await db
+      .select()
+      .from(bookAssets)
+      .where(eq(bookAssets.bookId, bookId))
+      .orderBy(bookAssets.createdAt);
+  }
+
+  // Every asset on the user's books, so their files can be removed with the user
+  async getUserBookAssets(userId: string): Promise<BookAsset[]> {
+    const rows = await db
+      .select({ asset: bookAssets })
+      .from(bookAssets)
+      .innerJoin(books, eq(bookAssets.bookId, books.id))
+      .where(eq(books.userId, userId));
+    return rows.map(({ asset }) => asset);
+  }
+
+  async updateBookAsset(id: string, updates: Pick<BookAsset, "altText">): Promise<BookAsset | undefined> {
+    const [asset] = await db
+      .update(bookAssets)
+      .set(updates)
+      .where(eq(bookAssets.id, id))
+      .returning();
+    return asset || undefined;
+  }
+
+  async deleteBookAsset(id: string): Promise<boolean> {
+    const result = await db.delete(bookAssets).where(eq(bookAssets.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
   // Progress methods
   async saveProgress(insertProgress: InsertBookProgress): Promise<BookProgress> {
     // First try to update existing progress for this step
@@ -262,6 +793,45 @@ export class DatabaseStorage implements IStorage {
     return subscription || undefined;
   }
 
+  async getSubscriptionByExternalId(subscriptionId: string): Promise<Subscription | undefined> {
+    const [subscription] = await db.select().from(subscriptions).where(eq(subscriptions.subscriptionId, subscriptionId));
+    return subscription || undefined;
+  }
+
+  async updateSubscriptionByExternalId(subscriptionId: string, updates: Partial<Subscription>): Promise<Subscription | undefined> {
+    const [subscription] = await db
+      .update(subscriptions)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(eq(subscriptions.subscriptionId, subscriptionId))
+      .returning();
+    return subscription || undefined;
+  }
+
+  // Invoice methods. Webhooks can report the same invoice more than once, so it is keyed by its external ID.
+  async upsertInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    const [invoice] = await db
+      .insert(invoices)
+      .values(insertInvoice)
+      .onConflictDoUpdate({
+        target: invoices.externalId,
+        set: { ...insertInvoice, updatedAt: new Date() },
+      })
+      .returning();
+    return invoice;
+  }
+
+  async getUserInvoices(userId: string): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.userId, userId))
+      .orderBy(desc(invoices.createdAt));
+  }
+
+
   // Admin config methods
   async getAdminConfig(key: string): Promise<AdminConfig | undefined> {
     const [config] = await db
@@ -298,72 +868,390 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(adminConfigs).orderBy(adminConfigs.configKey);
   }
 
-  // Credit usage methods
-  async logCreditUsage(insertUsage: InsertCreditUsage): Promise<CreditUsage> {
-    const [usage] = await db
-      .insert(creditUsage)
-      .values(insertUsage)
+  // Prompt template methods
+  async getPromptTemplateVersions(name: PromptTemplateName): Promise<PromptTemplate[]> {
+    return await db
+      .select()
+      .from(promptTemplates)
+      .where(eq(promptTemplates.name, name))
+      .orderBy(desc(promptTemplates.version));
+  }
+
+  async getActivePromptTemplate(name: PromptTemplateName): Promise<PromptTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(promptTemplates)
+      .where(and(eq(promptTemplates.name, name), eq(promptTemplates.isActive, true)));
+    return template || undefined;
+  }
+
+  // Saving a template always adds a new version and makes it the active one
+  async createPromptTemplateVersion(template: { name: PromptTemplateName; body: string; notes?: string | null; createdBy?: string | null }): Promise<PromptTemplate> {
+    return await db.transaction(async (tx) => {
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${promptTemplates.version}), 0)::int` })
+        .from(promptTemplates)
+        .where(eq(promptTemplates.name, template.name));
+
+      await tx
+        .update(promptTemplates)
+        .set({ isActive: false })
+        .where(eq(promptTemplates.name, template.name));
+
+      const [created] = await tx
+        .insert(promptTemplates)
+        .values({
+          name: template.name,
+          version: latest + 1,
+          body: template.body,
+          notes: template.notes ?? null,
+          createdBy: template.createdBy ?? null,
+          isActive: true,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async activatePromptTemplateVersion(id: string): Promise<PromptTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [template] = await tx.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+      if (!template) return undefined;
+
+      await tx
+        .update(promptTemplates)
+        .set({ isActive: false })
+        .where(eq(promptTemplates.name, template.name));
+
+      const [activated] = await tx
+        .update(promptTemplates)
+        .set({ isActive: true })
+        .where(eq(promptTemplates.id, id))
+        .returning();
+      return activated;
+    });
+  }
+
+  async deactivatePromptTemplates(name: PromptTemplateName): Promise<void> {
+    await db
+      .update(promptTemplates)
+      .set({ isActive: false })
+      .where(eq(promptTemplates.name, name));
+  }
+
+  // Credit ledger methods
+  async getCreditLedger(userId: string, filter: { action?: string; bookId?: string; limit?: number; offset?: number } = {}): Promise<{ entries: CreditHistoryEntry[]; total: number }> {
+    const where = and(
+      eq(creditLedger.userId, userId),
+      filter.action ? eq(creditLedger.action, filter.action) : undefined,
+      filter.bookId ? eq(creditLedger.bookId, filter.bookId) : undefined
+    );
+
+    const query = db
+      .select({ entry: creditLedger, bookTitle: books.title })
+      .from(creditLedger)
+      .leftJoin(books, eq(books.id, creditLedger.bookId))
+      .where(where)
+      // Rows written in one transaction share a timestamp; the id keeps their order stable across pages
+      .orderBy(desc(creditLedger.createdAt), desc(creditLedger.id))
+      .$dynamic();
+    if (filter.limit !== undefined) query.limit(filter.limit);
+    if (filter.offset !== undefined) query.offset(filter.offset);
+
+    const [rows, [{ total }]] = await Promise.all([
+      query,
+      db.select({ total: sql<number>`count(*)::int` }).from(creditLedger).where(where),
+    ]);
+    return { entries: rows.map(row => ({ ...row.entry, bookTitle: row.bookTitle })), total };
+  }
+
+  async getCreditLedgerActions(userId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ action: creditLedger.action })
+      .from(creditLedger)
+      .where(eq(creditLedger.userId, userId))
+      .orderBy(creditLedger.action);
+    return rows.map(row => row.action);
+  }
+
+  async grantCredits(userId: string, amount: number, action: string, metadata?: Record<string, unknown>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({ credits: sql`${users.credits} + ${amount}`, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      if (!user) return undefined;
+      await recordCreditChange(tx, { userId, kind: "grant", amount, balanceAfter: user.credits, action, metadata });
+      return user;
+    });
+  }
+
+  async reserveCredits(reservation: { userId: string; amount: number; action: string; bookId?: string; expiresAt: Date }): Promise<CreditReservation | undefined> {
+    return await db.transaction(async (tx) => {
+      // Checking and deducting in one statement locks the row, so concurrent reservations cannot overdraw it
+      const [user] = await tx
+        .update(users)
+        .set({ credits: sql`${users.credits} - ${reservation.amount}`, updatedAt: new Date() })
+        .where(and(eq(users.id, reservation.userId), gte(users.credits, reservation.amount)))
+        .returning();
+      if (!user) return undefined;
+
+      const [held] = await tx
+        .insert(creditReservations)
+        .values(reservation)
+        .returning();
+      await recordCreditChange(tx, {
+        userId: reservation.userId,
+        kind: "spend",
+        amount: -reservation.amount,
+        balanceAfter: user.credits,
+        action: reservation.action,
+        bookId: reservation.bookId,
+        reservationId: held.id,
+      });
+      return held;
+    });
+  }
+
+  async captureCreditReservation(id: string): Promise<CreditReservation | undefined> {
+    const [reservation] = await db
+      .update(creditReservations)
+      .set({ status: "captured", settledAt: new Date() })
+      .where(and(eq(creditReservations.id, id), eq(creditReservations.status, "held")))
+      .returning();
+    return reservation || undefined;
+  }
+
+  async releaseCreditReservation(id: string, reason: string): Promise<CreditReservation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reservation] = await tx
+        .update(creditReservations)
+        .set({ status: "released", settledAt: new Date() })
+        .where(and(eq(creditReservations.id, id), eq(creditReservations.status, "held")))
+        .returning();
+      if (!reservation) return undefined;
+
+      // Credits held across a period reset only come back as far as the rollover cap allows
+      const refund = reservation.refundableAmount ?? reservation.amount;
+      if (refund <= 0) return reservation;
+
+      const [user] = await tx
+        .update(users)
+        .set({ credits: sql`${users.credits} + ${refund}`, updatedAt: new Date() })
+        .where(eq(users.id, reservation.userId))
+        .returning();
+      await recordCreditChange(tx, {
+        userId: reservation.userId,
+        kind: "refund",
+        amount: refund,
+        balanceAfter: user.credits,
+        action: reservation.action,
+        bookId: reservation.bookId,
+        reservationId: reservation.id,
+        metadata: refund < reservation.amount ? { reason, expiredAtPeriodReset: reservation.amount - refund } : { reason },
+      });
+      return reservation;
+    });
+  }
+
+  async extendCreditReservation(id: string, expiresAt: Date): Promise<CreditReservation | undefined> {
+    const [reservation] = await db
+      .update(creditReservations)
+      .set({ expiresAt })
+      .where(and(eq(creditReservations.id, id), eq(creditReservations.status, "held")))
       .returning();
-    return usage;
+    return reservation || undefined;
   }
 
-  async getUserCreditUsage(userId: string): Promise<CreditUsage[]> {
+  async getExpiredCreditReservations(now: Date): Promise<CreditReservation[]> {
     return await db
       .select()
-      .from(creditUsage)
-      .where(eq(creditUsage.userId, userId))
-      .orderBy(desc(creditUsage.createdAt));
+      .from(creditReservations)
+      .where(and(eq(creditReservations.status, "held"), lt(creditReservations.expiresAt, now)));
   }
 
-  async deductCredits(userId: string, amount: number, action: string, bookId?: string): Promise<boolean> {
-    const user = await this.getUser(userId);
-    if (!user || user.credits < amount) {
-      return false;
+  async getUsersDueForCreditReset(freeResetBefore: Date): Promise<Array<{ user: User; subscription?: Subscription }>> {
+    const rows = await db
+      .select({ user: users, subscription: subscriptions })
+      .from(users)
+      .leftJoin(subscriptions, and(eq(subscriptions.userId, users.id), eq(subscriptions.status, "active")))
+      .where(and(
+        ne(users.role, "admin"),
+        or(
+          and(
+            isNotNull(subscriptions.currentPeriodStart),
+            or(isNull(users.creditsResetDate), gt(subscriptions.currentPeriodStart, users.creditsResetDate))
+          ),
+          and(
+            isNull(subscriptions.id),
+            eq(users.role, "free"),
+            or(isNull(users.creditsResetDate), lte(users.creditsResetDate, freeResetBefore))
+          )
+        )
+      ))
+      .orderBy(desc(subscriptions.createdAt));
+
+    // A user with more than one active subscription is reset for the newest
+    const due = new Map<string, { user: User; subscription?: Subscription }>();
+    for (const row of rows) {
+      if (!due.has(row.user.id)) due.set(row.user.id, { user: row.user, subscription: row.subscription ?? undefined });
     }
+    return Array.from(due.values());
+  }
 
-    // Deduct credits from user
-    await db
-      .update(users)
-      .set({ 
-        credits: user.credits - amount,
-        updatedAt: new Date(),
-      })
-      .where(eq(users.id, userId));
-
-    // Log the usage
-    await this.logCreditUsage({
-      userId,
-      action,
-      creditsUsed: amount,
-      bookId,
-      metadata: { remainingCredits: user.credits - amount },
+  // Unused credits beyond the rollover cap expire and the period's credits are granted on top
+  async resetMonthlyCredits(userId: string, period: CreditPeriodGrant): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      // Two servers running the scheduler at once must not grant the same period twice
+      if (!current || (current.creditsResetDate && current.creditsResetDate >= period.periodStart)) return undefined;
+
+      const metadata = { plan: period.plan, periodStart: period.periodStart.toISOString() };
+      let balance = Math.min(current.credits, period.maxRollover);
+      if (current.credits > balance) {
+        await recordCreditChange(tx, { userId, kind: "expiry", amount: balance - current.credits, balanceAfter: balance, action: "period_reset", metadata });
+      }
+
+      // Held credits are still the old period's: if their holds are released later, they roll over
+      // only into the room the cap has left, oldest hold first
+      let rolloverRoom = period.maxRollover - balance;
+      const held = await tx
+        .select()
+        .from(creditReservations)
+        .where(and(eq(creditReservations.userId, userId), eq(creditReservations.status, "held")))
+        .orderBy(creditReservations.createdAt)
+        .for("update");
+      for (const reservation of held) {
+        const refundableAmount = Math.max(0, Math.min(reservation.refundableAmount ?? reservation.amount, rolloverRoom));
+        rolloverRoom -= refundableAmount;
+        await tx.update(creditReservations).set({ refundableAmount }).where(eq(creditReservations.id, reservation.id));
+      }
+      if (period.credits > 0) {
+        balance += period.credits;
+        await recordCreditChange(tx, { userId, kind: "grant", amount: period.credits, balanceAfter: balance, action: "plan_allowance", metadata });
+      }
+      if (period.bonusCredits > 0) {
+        balance += period.bonusCredits;
+        await recordCreditChange(tx, { userId, kind: "grant", amount: period.bonusCredits, balanceAfter: balance, action: "plan_bonus", metadata });
+      }
+
+      const [user] = await tx
+        .update(users)
+        .set({
+          credits: balance,
+          creditsResetDate: period.periodStart,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
     });
+  }
 
-    return true;
+  // Generation job methods
+  async createGenerationJob(insertJob: InsertGenerationJob): Promise<GenerationJob> {
+    const [job] = await db
+      .insert(generationJobs)
+      .values(insertJob)
+      .returning();
+    return job;
   }
 
-  async resetMonthlyCredits(userId: string): Promise<User | undefined> {
-    const user = await this.getUser(userId);
-    if (!user) return undefined;
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    const [job] = await db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return job || undefined;
+  }
 
-    let newCredits = 1; // Default for free users
-    if (user.role === "subscribed") {
-      newCredits = 10; // Monthly credits for subscribed users
-    } else if (user.role === "admin") {
-      newCredits = 999; // Unlimited credits for admin
+  async getUserGenerationJobs(userId: string, bookId?: string): Promise<GenerationJob[]> {
+    const conditions = [eq(generationJobs.userId, userId)];
+    if (bookId) {
+      conditions.push(eq(generationJobs.bookId, bookId));
     }
+    return await db
+      .select()
+      .from(generationJobs)
+      .where(and(...conditions))
+      .orderBy(desc(generationJobs.createdAt));
+  }
+
+  async getUnfinishedGenerationJobs(): Promise<GenerationJob[]> {
+    return await db
+      .select()
+      .from(generationJobs)
+      .where(inArray(generationJobs.status, ["queued", "running"]))
+      .orderBy(generationJobs.createdAt);
+  }
 
-    const [updatedUser] = await db
-      .update(users)
+  async updateGenerationJob(id: string, updates: Partial<GenerationJob>, fromStatuses?: string[]): Promise<GenerationJob | undefined> {
+    const [job] = await db
+      .update(generationJobs)
       .set({
-        credits: newCredits,
-        creditsResetDate: new Date(),
+        ...updates,
         updatedAt: new Date(),
       })
-      .where(eq(users.id, userId))
+      .where(fromStatuses
+        ? and(eq(generationJobs.id, id), inArray(generationJobs.status, fromStatuses))
+        : eq(generationJobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
+  async claimGenerationJobReservation(id: string, reservationId: string): Promise<boolean> {
+    const result = await db
+      .update(generationJobs)
+      .set({ reservationId: null, updatedAt: new Date() })
+      .where(and(eq(generationJobs.id, id), eq(generationJobs.reservationId, reservationId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Export methods
+  async createBookExport(insertExport: InsertBookExport): Promise<BookExport> {
+    const [bookExport] = await db
+      .insert(bookExports)
+      .values(insertExport)
       .returning();
+    return bookExport;
+  }
 
-    return updatedUser || undefined;
+  async getBookExport(id: string): Promise<BookExport | undefined> {
+    const [bookExport] = await db.select().from(bookExports).where(eq(bookExports.id, id));
+    return bookExport || undefined;
+  }
+
+  async getUserBookExports(userId: string, bookId?: string): Promise<BookExport[]> {
+    const conditions = [eq(bookExports.userId, userId)];
+    if (bookId) {
+      conditions.push(eq(bookExports.bookId, bookId));
+    }
+    return await db
+      .select()
+      .from(bookExports)
+      .where(and(...conditions))
+      .orderBy(desc(bookExports.createdAt));
+  }
+
+  // A book's exports whose files have not been removed yet, from every user who exported it
+  async getBookExportsWithFiles(bookId: string): Promise<BookExport[]> {
+    return await db
+      .select()
+      .from(bookExports)
+      .where(and(eq(bookExports.bookId, bookId), isNull(bookExports.deletedAt)));
+  }
+
+  // Exports past their retention date whose files have not been removed yet
+  async getExpiredBookExports(now: Date): Promise<BookExport[]> {
+    return await db
+      .select()
+      .from(bookExports)
+      .where(and(lt(bookExports.expiresAt, now), isNull(bookExports.deletedAt)));
+  }
+
+  async markBookExportDeleted(id: string): Promise<void> {
+    await db
+      .update(bookExports)
+      .set({ deletedAt: new Date() })
+      .where(eq(bookExports.id, id));
   }
 }
 
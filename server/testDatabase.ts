@@ -0,0 +1,29 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+
+// drizzle-kit's ESM build cannot load under the test runner; its CommonJS build can
+const require = createRequire(import.meta.url);
+
+// Stands in for ./db in tests: an in-memory Postgres with the schema created the way db:push would,
+// so storage runs its real queries and transactions. Tests mock the module with
+//   vi.mock("./db", async () => (await import("./testDatabase")).createTestDatabase());
+export async function createTestDatabase() {
+  const client = new PGlite();
+
+  // node-postgres reports the rows a statement touched as rowCount, which storage reads; PGlite calls it affectedRows
+  const query = client.query.bind(client);
+  client.query = (async (...args: Parameters<typeof query>) => {
+    const result = await query(...args);
+    return Object.assign(result, { rowCount: result.affectedRows });
+  }) as typeof client.query;
+
+  const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") = require("drizzle-kit/api");
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  return { db: drizzle(client, { schema }), pool: client };
+}
@@ -20,7 +20,7 @@ export const users = pgTable("users", {
 
 export const books = pgTable("books", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").references(() => users.id).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   
   // Step 1: Method
   creationMethod: text("creation_method"), // 'ai-generated', 'outline-based', etc.
@@ -52,9 +52,13 @@ export const books = pgTable("books", {
   // Step 5: Cover
   coverImageUrl: text("cover_image_url"),
   
+  // Step 6: Export
+  bookMatter: jsonb("book_matter").$type<BookMatter>(), // copyright, dedication and the other pages around the chapters
+  
   // Progress tracking
   currentStep: integer("current_step").default(1).notNull(),
   status: text("status").default("draft").notNull(), // draft, generating, completed, published
+  archivedAt: timestamp("archived_at"), // hidden from the library's default view when set
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -66,11 +70,72 @@ export const chapters = pgTable("chapters", {
   chapterNumber: integer("chapter_number").notNull(),
   title: text("title").notNull(),
   content: text("content").notNull(),
+  brief: jsonb("brief").$type<ChapterBrief>(), // planned by outline generation and followed when the chapter is written
+  summary: text("summary"), // compact recap fed to later chapters so they build on this one
+  summaryContentHash: varchar("summary_content_hash"), // hash of the content the summary was written from
   isExpanded: boolean("is_expanded").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Snapshot of a chapter's content, written whenever the content changes
+export const chapterRevisions = pgTable("chapter_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chapterId: varchar("chapter_id").references(() => chapters.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  source: text("source").$type<RevisionSource>().default("manual").notNull(), // manual, ai, import
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type RevisionSource = "manual" | "ai" | "import";
+
+export interface RevisionDiffLine {
+  type: "unchanged" | "added" | "removed";
+  text: string;
+}
+
+// Supporting document uploaded for a book; its text is split into chunks that generation is grounded on
+export const sourceDocuments = pgTable("source_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookId: varchar("book_id").references(() => books.id, { onDelete: "cascade" }).notNull(),
+  sequence: integer("sequence").notNull(), // per-book number used in citation labels (S1, S2, ...)
+  filename: text("filename").notNull(),
+  format: text("format").$type<SourceFormat>().notNull(),
+  characterCount: integer("character_count").notNull(),
+  chunkCount: integer("chunk_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const sourceChunks = pgTable("source_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").references(() => sourceDocuments.id, { onDelete: "cascade" }).notNull(),
+  bookId: varchar("book_id").references(() => books.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  location: text("location"), // "page 4" or the nearest heading, when the format has one
+  content: text("content").notNull(),
+});
+
+export const SOURCE_FORMATS = ["pdf", "docx", "md", "txt"] as const;
+export type SourceFormat = typeof SOURCE_FORMATS[number];
+
+// Image uploaded to a book. Chapters embed it with Markdown image syntax pointing at its URL,
+// ![alt text](/api/assets/<id>), and every exporter resolves that URL to the stored file.
+export const bookAssets = pgTable("book_assets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookId: varchar("book_id").references(() => books.id, { onDelete: "cascade" }).notNull(),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  altText: text("alt_text").notNull(),
+  storageKey: text("storage_key").notNull().unique(), // path within the asset store
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const ASSET_URL_PREFIX = "/api/assets/";
+
 export const bookProgress = pgTable("book_progress", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   bookId: varchar("book_id").references(() => books.id, { onDelete: "cascade" }).notNull(),
@@ -84,11 +149,12 @@ export const bookProgress = pgTable("book_progress", {
 
 export const subscriptions = pgTable("subscriptions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").references(() => users.id).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   plan: text("plan").notNull(), // lite, pro, agency
-  status: text("status").default("active").notNull(), // active, cancelled, expired
+  status: text("status").default("active").notNull(), // active, past_due, cancelled, expired
   priceId: text("price_id"), // Stripe price ID
-  subscriptionId: text("subscription_id"), // External subscription ID
+  subscriptionId: text("subscription_id").unique(), // External subscription ID
+  customerId: text("customer_id"), // Billing provider's customer ID
   currentPeriodStart: timestamp("current_period_start"),
   currentPeriodEnd: timestamp("current_period_end"),
   cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false),
@@ -96,6 +162,22 @@ export const subscriptions = pgTable("subscriptions", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Invoices reported by the billing provider's webhooks, shown on the billing page
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  subscriptionId: varchar("subscription_id").references(() => subscriptions.id, { onDelete: "set null" }),
+  externalId: text("external_id").notNull().unique(), // Billing provider's invoice ID
+  status: text("status").notNull(), // paid, failed
+  amount: integer("amount").notNull(), // in the currency's smallest unit, e.g. cents
+  currency: text("currency").notNull(),
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  hostedUrl: text("hosted_url"), // where the customer can view or pay the invoice
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Sessions table for authentication
 export const sessions = pgTable("sessions", {
   sid: varchar("sid").primaryKey(),
@@ -113,21 +195,124 @@ export const adminConfigs = pgTable("admin_configs", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-// Credit usage tracking
-export const creditUsage = pgTable("credit_usage", {
+// Versioned prompt templates for AI generation; at most one version per name is active
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").$type<PromptTemplateName>().notNull(), // outline, chapter, regeneration
+  version: integer("version").notNull(),
+  body: text("body").notNull(),
+  notes: text("notes"),
+  isActive: boolean("is_active").default(false).notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const PROMPT_TEMPLATE_NAMES = ["outline", "chapter", "regeneration", "summary"] as const;
+export type PromptTemplateName = typeof PROMPT_TEMPLATE_NAMES[number];
+
+// LLM backend per generation operation, stored in adminConfigs under "llm_providers"
+export const LLM_PROVIDER_IDS = ["anthropic", "openai", "mock"] as const;
+export type LlmProviderId = typeof LLM_PROVIDER_IDS[number];
+
+export const CREDIT_LEDGER_KINDS = ["grant", "spend", "refund", "expiry", "adjustment"] as const;
+export type CreditLedgerKind = typeof CREDIT_LEDGER_KINDS[number];
+export const CREDIT_RESERVATION_STATUSES = ["held", "captured", "released"] as const;
+export type CreditReservationStatus = typeof CREDIT_RESERVATION_STATUSES[number];
+
+// Credits held for an operation that may still fail (an AI call, say). The credits leave the balance
+// when the hold is taken; capturing keeps them spent and releasing refunds them.
+export const creditReservations = pgTable("credit_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  amount: integer("amount").notNull(),
+  action: text("action").notNull(),
+  bookId: varchar("book_id").references(() => books.id, { onDelete: "set null" }),
+  status: text("status").$type<CreditReservationStatus>().default("held").notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // held reservations are released after this, e.g. when the server died mid-call
+  refundableAmount: integer("refundable_amount"), // set when a period reset passes the hold: what the rollover cap lets a release give back
+  settledAt: timestamp("settled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every change to a user's credit balance; users.credits is the running total of these rows
+export const creditLedger = pgTable("credit_ledger", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").references(() => users.id).notNull(),
-  action: text("action").notNull(), // generate_chapters, export_book, etc.
-  creditsUsed: integer("credits_used").default(1).notNull(),
-  bookId: varchar("book_id").references(() => books.id),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  kind: text("kind").$type<CreditLedgerKind>().notNull(),
+  amount: integer("amount").notNull(), // positive for grants and refunds, negative for spends and expiries
+  balanceAfter: integer("balance_after").notNull(),
+  action: text("action").notNull(), // create_book, generate_chapter, signup, plan_allowance, etc.
+  bookId: varchar("book_id").references(() => books.id, { onDelete: "set null" }),
+  reservationId: varchar("reservation_id").references(() => creditReservations.id, { onDelete: "set null" }),
   metadata: jsonb("metadata"), // Additional context
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Background generation jobs (e.g. "Generate All Chapters"), processed server-side so they survive tab closes and restarts
+export const generationJobs = pgTable("generation_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  bookId: varchar("book_id").references(() => books.id, { onDelete: "cascade" }),
+  type: text("type").default("generate_chapters").notNull(),
+  status: text("status").default("queued").notNull(), // queued, running, completed, failed, cancelled
+  bookDetails: jsonb("book_details").$type<BookDetails>().notNull(),
+  items: jsonb("items").$type<GenerationJobItem[]>().default([]).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  reservationId: varchar("reservation_id").references(() => creditReservations.id, { onDelete: "set null" }), // the job's held credits; null when it is free or once they are settled
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Files written by exports, kept for re-download until retention removes them
+export const bookExports = pgTable("exports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  bookId: varchar("book_id").references(() => books.id, { onDelete: "cascade" }), // null for books that were never saved
+  format: text("format").notNull(), // pdf, epub, docx, markdown, html, flipbook
+  options: jsonb("options").$type<ExportOptions>(),
+  fileName: text("file_name").notNull(), // name the file is downloaded as
+  storageKey: text("storage_key").notNull().unique(), // <userId>/<exportId>/<fileName>, relative to the exports directory
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  checksum: text("checksum").notNull(), // SHA-256, hex
+  expiresAt: timestamp("expires_at").notNull(),
+  deletedAt: timestamp("deleted_at"), // set once the file has been removed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// What the generation prompts know about a book, as the wizard sends it
+export interface BookDetails {
+  title: string;
+  subtitle?: string;
+  description: string;
+  targetAudience: string;
+  toneStyle: string;
+  mission: string;
+  author: string;
+  numberOfChapters?: number;
+}
+
+export interface GenerationJobItem {
+  chapterId: string;
+  chapterNumber: number;
+  title: string;
+  // Brief sent with the job; a brief saved on the chapter takes precedence
+  brief?: ChapterBrief;
+  status: "pending" | "running" | "completed" | "failed";
+  attempts: number;
+  content?: string;
+  wordCount?: number;
+  error?: string;
+}
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   books: many(books),
   subscriptions: many(subscriptions),
+  invoices: many(invoices),
 }));
 
 export const booksRelations = relations(books, ({ one, many }) => ({
@@ -137,13 +322,45 @@ export const booksRelations = relations(books, ({ one, many }) => ({
   }),
   chapters: many(chapters),
   progress: many(bookProgress),
+  sourceDocuments: many(sourceDocuments),
+  assets: many(bookAssets),
 }));
 
-export const chaptersRelations = relations(chapters, ({ one }) => ({
+export const chaptersRelations = relations(chapters, ({ one, many }) => ({
   book: one(books, {
     fields: [chapters.bookId],
     references: [books.id],
   }),
+  revisions: many(chapterRevisions),
+}));
+
+export const chapterRevisionsRelations = relations(chapterRevisions, ({ one }) => ({
+  chapter: one(chapters, {
+    fields: [chapterRevisions.chapterId],
+    references: [chapters.id],
+  }),
+}));
+
+export const sourceDocumentsRelations = relations(sourceDocuments, ({ one, many }) => ({
+  book: one(books, {
+    fields: [sourceDocuments.bookId],
+    references: [books.id],
+  }),
+  chunks: many(sourceChunks),
+}));
+
+export const bookAssetsRelations = relations(bookAssets, ({ one }) => ({
+  book: one(books, {
+    fields: [bookAssets.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const sourceChunksRelations = relations(sourceChunks, ({ one }) => ({
+  document: one(sourceDocuments, {
+    fields: [sourceChunks.documentId],
+    references: [sourceDocuments.id],
+  }),
 }));
 
 export const bookProgressRelations = relations(bookProgress, ({ one }) => ({
@@ -153,24 +370,62 @@ export const bookProgressRelations = relations(bookProgress, ({ one }) => ({
   }),
 }));
 
-export const subscriptionsRelations = relations(subscriptions, ({ one }) => ({
+export const subscriptionsRelations = relations(subscriptions, ({ one, many }) => ({
   user: one(users, {
     fields: [subscriptions.userId],
     references: [users.id],
   }),
+  invoices: many(invoices),
 }));
 
-export const creditUsageRelations = relations(creditUsage, ({ one }) => ({
+export const invoicesRelations = relations(invoices, ({ one }) => ({
   user: one(users, {
-    fields: [creditUsage.userId],
+    fields: [invoices.userId],
+    references: [users.id],
+  }),
+  subscription: one(subscriptions, {
+    fields: [invoices.subscriptionId],
+    references: [subscriptions.id],
+  }),
+}));
+
+export const generationJobsRelations = relations(generationJobs, ({ one }) => ({
+  user: one(users, {
+    fields: [generationJobs.userId],
+    references: [users.id],
+  }),
+  book: one(books, {
+    fields: [generationJobs.bookId],
+    references: [books.id],
+  }),
+}));
+
+export const bookExportsRelations = relations(bookExports, ({ one }) => ({
+  user: one(users, {
+    fields: [bookExports.userId],
     references: [users.id],
   }),
   book: one(books, {
-    fields: [creditUsage.bookId],
+    fields: [bookExports.bookId],
     references: [books.id],
   }),
 }));
 
+export const creditLedgerRelations = relations(creditLedger, ({ one }) => ({
+  user: one(users, {
+    fields: [creditLedger.userId],
+    references: [users.id],
+  }),
+  book: one(books, {
+    fields: [creditLedger.bookId],
+    references: [books.id],
+  }),
+  reservation: one(creditReservations, {
+    fields: [creditLedger.reservationId],
+    references: [creditReservations.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -182,12 +437,23 @@ export const insertBookSchema = createInsertSchema(books).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  keywords: z.array(z.string()).nullish(),
 });
 
 export const insertChapterSchema = createInsertSchema(chapters).omit({
   id: true,
+  summary: true,
+  summaryContentHash: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  brief: z.lazy(() => chapterBriefSchema).nullish(),
+});
+
+export const insertChapterRevisionSchema = createInsertSchema(chapterRevisions).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertBookProgressSchema = createInsertSchema(bookProgress).omit({
@@ -207,17 +473,48 @@ export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
   updatedAt: true,
 });
 
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertAdminConfigSchema = createInsertSchema(adminConfigs).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertCreditUsageSchema = createInsertSchema(creditUsage).omit({
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertGenerationJobSchema = createInsertSchema(generationJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  bookDetails: z.custom<BookDetails>(),
+  items: z.custom<GenerationJobItem[]>(),
+});
+
+// The id is chosen up front because it is part of the storage key
+export const insertBookExportSchema = createInsertSchema(bookExports).omit({
+  deletedAt: true,
+  createdAt: true,
+}).extend({
+  options: z.lazy(() => exportOptionsSchema).nullish(),
+});
+
+// The id is chosen up front because it is part of the storage key
+export const insertBookAssetSchema = createInsertSchema(bookAssets).omit({
+  createdAt: true,
+});
+
+// Readers using screen readers (and every EPUB checker) need a description of each image
+export const assetAltTextSchema = z.string().trim().min(1, "Alt text is required").max(500, "Alt text must be 500 characters or fewer");
+
 // Auth schemas
 export const loginSchema = z.object({
   email: z.string().email(),
@@ -237,21 +534,216 @@ export const updateUserSchema = z.object({
   credits: z.number().int().min(0).optional(),
 });
 
+// What outline generation plans for each chapter
+export const chapterBriefSchema = z.object({
+  summary: z.string(),
+  objectives: z.array(z.string()),
+  keyPoints: z.array(z.string()),
+  sections: z.array(z.string()),
+});
+
+// LLM provider settings, one optional entry per generation operation
+export const llmOperationSettingSchema = z.object({
+  provider: z.enum(LLM_PROVIDER_IDS),
+  model: z.string().trim().max(200).optional(),
+});
+
+export const llmProviderSettingsSchema = z.object({
+  outline: llmOperationSettingSchema.optional(),
+  chapter: llmOperationSettingSchema.optional(),
+  regeneration: llmOperationSettingSchema.optional(),
+  summary: llmOperationSettingSchema.optional(),
+}).strict();
+
+// Paid plans a subscription can be on; users without an active subscription are on the free plan
+export const SUBSCRIPTION_PLANS = ["lite", "pro", "agency"] as const;
+
+// Credits a plan grants at the start of each billing period (monthly for free users)
+export const creditPlanSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  periodCredits: z.number().int().min(0).max(100000),
+  bonusCredits: z.number().int().min(0).max(100000).default(0),
+  // The bonus is paid in the first period and then every this many periods; 0 pays it once only
+  bonusEveryPeriods: z.number().int().min(0).max(120).default(0),
+  // Unused credits up to this many carry over into the next period; the rest expire
+  maxRollover: z.number().int().min(0).max(100000).default(0),
+});
+
+export const creditPlansSchema = z.object({
+  free: creditPlanSchema,
+  lite: creditPlanSchema,
+  pro: creditPlanSchema,
+  agency: creditPlanSchema,
+}).strict();
+
+// Operations that cost credits; spends are recorded in the ledger under these names
+export const CREDIT_ACTIONS = ["create_book", "import_book", "generate_outline", "generate_chapter", "generate_book"] as const;
+
+const creditCostSchema = z.number().int().min(0).max(1000);
+
+// What an action costs, with optional overrides for users on particular plans
+export const creditPriceSchema = z.object({
+  cost: creditCostSchema,
+  plans: z.object({
+    free: creditCostSchema.optional(),
+    lite: creditCostSchema.optional(),
+    pro: creditCostSchema.optional(),
+    agency: creditCostSchema.optional(),
+  }).strict().default({}),
+});
+
+export const creditPricingSchema = z.object({
+  create_book: creditPriceSchema,
+  import_book: creditPriceSchema,
+  generate_outline: creditPriceSchema,
+  generate_chapter: creditPriceSchema,
+  generate_book: creditPriceSchema, // a "Generate All Chapters" job, however many chapters it writes
+}).strict();
+
+// Filters and paging for a user's credit history
+export const creditHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  action: z.string().trim().min(1).max(60).optional(),
+  bookId: z.string().trim().min(1).max(60).optional(),
+});
+
+export const checkoutSchema = z.object({
+  plan: z.enum(SUBSCRIPTION_PLANS),
+});
+
+// Page sizes for PDF export: A4 for screen reading and home printing, the others are paperback trims (inches)
+export const PDF_TRIM_SIZES = ["a4", "6x9", "5.5x8.5", "5x8"] as const;
+export const CHAPTER_NUMBERING_STYLES = ["numeric", "words", "roman", "none"] as const;
+export const EXPORT_IMAGE_QUALITIES = ["original", "high", "medium", "low"] as const;
+
+// Options accepted by every exporter; a format ignores the ones that do not apply to it
+export const exportOptionsSchema = z.object({
+  includeCover: z.boolean().default(true),
+  includeTableOfContents: z.boolean().default(true),
+  includePageNumbers: z.boolean().default(true),
+  chapterNumbering: z.enum(CHAPTER_NUMBERING_STYLES).default("numeric"),
+  pageSize: z.enum(PDF_TRIM_SIZES).default("a4"),
+  bleed: z.boolean().default(false),
+  embedFonts: z.boolean().default(true),
+  imageQuality: z.enum(EXPORT_IMAGE_QUALITIES).default("high"),
+});
+
+// ISBN-10 (last digit may be X) or ISBN-13, hyphens and spaces allowed, with a valid check digit
+function isValidIsbn(value: string): boolean {
+  const isbn = value.replace(/[-\s]/g, "").toUpperCase();
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    const sum = Array.from(isbn).reduce((total, digit, index) => total + (digit === "X" ? 10 : Number(digit)) * (10 - index), 0);
+    return sum % 11 === 0;
+  }
+  if (/^97[89]\d{10}$/.test(isbn)) {
+    const sum = Array.from(isbn).reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+    return sum % 10 === 0;
+  }
+  return false;
+}
+
+// Front and back matter printed around the chapters; exports leave out any page that is blank
+export const bookMatterSchema = z.object({
+  copyright: z.object({
+    year: z.string().trim().max(20).default(""),
+    isbn: z.string().trim().max(20).refine(isbn => isbn === "" || isValidIsbn(isbn), "ISBN must be a valid ISBN-10 or ISBN-13").default(""),
+    publisher: z.string().trim().max(200).default(""),
+    notice: z.string().trim().max(5000).default(""),
+  }).default({}),
+  dedication: z.string().trim().max(2000).default(""),
+  acknowledgements: z.string().trim().max(20000).default(""),
+  aboutAuthor: z.string().trim().max(10000).default(""),
+  callToAction: z.object({
+    title: z.string().trim().max(200).default(""),
+    content: z.string().trim().max(10000).default(""),
+    linkUrl: z.string().trim().max(2000).refine(url => url === "" || /^https?:\/\/\S+$/i.test(url), "Link must be an http:// or https:// URL").default(""),
+    linkLabel: z.string().trim().max(200).default(""),
+  }).default({}),
+});
+
+export const customThemeSchema = z.object({
+  backgroundColor: z.string(),
+  textColor: z.string(),
+  fontSize: z.string(),
+  fontFamily: z.string(),
+  lineHeight: z.string(),
+  marginBottom: z.string(),
+  accentColor: z.string(),
+});
+
+// What the Export step sends: the book as it stands in the editor, which may not be saved yet
+export const exportRequestSchema = z.object({
+  bookId: z.string().nullish(),
+  title: z.string().min(1),
+  subtitle: z.string().nullish(),
+  author: z.string().default(""),
+  description: z.string().default(""),
+  chapters: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    content: z.string(),
+  })).min(1),
+  selectedTemplate: z.string().default("original"),
+  customTheme: customThemeSchema.nullish(),
+  coverImageUrl: z.string().nullish(),
+  language: z.string().nullish(),
+  bookMatter: bookMatterSchema.nullish(),
+  options: exportOptionsSchema.default({}),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Book = typeof books.$inferSelect;
+export type BookSummary = Book & { chapterCount: number; wordCount: number };
 export type InsertBook = z.infer<typeof insertBookSchema>;
 export type Chapter = typeof chapters.$inferSelect;
 export type InsertChapter = z.infer<typeof insertChapterSchema>;
+export type ChapterBrief = z.infer<typeof chapterBriefSchema>;
+export type ChapterRevision = typeof chapterRevisions.$inferSelect;
+export type InsertChapterRevision = z.infer<typeof insertChapterRevisionSchema>;
+export type SourceDocument = typeof sourceDocuments.$inferSelect;
+export type SourceChunk = typeof sourceChunks.$inferSelect;
+// A chunk as cited in generated text: [S1.4] is chunk 4 of the book's first document
+export type SourcePassage = SourceChunk & { label: string; filename: string };
+export type BookAsset = typeof bookAssets.$inferSelect;
+export type InsertBookAsset = z.infer<typeof insertBookAssetSchema>;
+// A problem the export validator found in a generated file
+export type ExportIssue = { severity: "error" | "warning"; path?: string; message: string };
+export type PdfTrimSize = typeof PDF_TRIM_SIZES[number];
+export type ChapterNumberingStyle = typeof CHAPTER_NUMBERING_STYLES[number];
+export type ExportImageQuality = typeof EXPORT_IMAGE_QUALITIES[number];
+export type ExportOptions = z.infer<typeof exportOptionsSchema>;
+export type BookMatter = z.infer<typeof bookMatterSchema>;
+export type CustomTheme = z.infer<typeof customThemeSchema>;
+
 export type BookProgress = typeof bookProgress.$inferSelect;
 export type InsertBookProgress = z.infer<typeof insertBookProgressSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type AdminConfig = typeof adminConfigs.$inferSelect;
 export type InsertAdminConfig = z.infer<typeof insertAdminConfigSchema>;
-export type CreditUsage = typeof creditUsage.$inferSelect;
-export type InsertCreditUsage = z.infer<typeof insertCreditUsageSchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type LlmOperationSetting = z.infer<typeof llmOperationSettingSchema>;
+export type LlmProviderSettings = z.infer<typeof llmProviderSettingsSchema>;
+export type SubscriptionPlan = typeof SUBSCRIPTION_PLANS[number];
+export type CreditPlan = z.infer<typeof creditPlanSchema>;
+export type CreditPlans = z.infer<typeof creditPlansSchema>;
+export type CreditAction = typeof CREDIT_ACTIONS[number];
+export type CreditPricing = z.infer<typeof creditPricingSchema>;
+export type CreditLedgerEntry = typeof creditLedger.$inferSelect;
+export type CreditReservation = typeof creditReservations.$inferSelect;
+// A ledger row with the title of the book it was spent on, while the book exists
+export type CreditHistoryEntry = CreditLedgerEntry & { bookTitle: string | null };
+export type CreditHistoryQuery = z.infer<typeof creditHistoryQuerySchema>;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = z.infer<typeof insertGenerationJobSchema>;
+export type BookExport = typeof bookExports.$inferSelect;
+export type InsertBookExport = z.infer<typeof insertBookExportSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
 export type SignupData = z.infer<typeof signupSchema>;
 export type UpdateUserData = z.infer<typeof updateUserSchema>;